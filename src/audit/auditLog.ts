@@ -0,0 +1,78 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { AppConfig } from '../config/config.js';
+import { createRedactor, type Redactor } from './redactor.js';
+import { JsonlAuditStore } from './jsonlAuditStore.js';
+import type { AuditQuery, AuditRecord, AuditStore } from './types.js';
+
+export type AuditConfig = AppConfig['audit'];
+
+export interface AuditLogOptions {
+  store: AuditStore;
+  redact: Redactor;
+  /** Receives write failures, which never fail the audited call */
+  logger?: Pick<FastifyBaseLogger, 'error'> | undefined;
+}
+
+/**
+ * Records tool invocations: who called which tool, when, with what
+ * (redacted) arguments and how it ended
+ */
+export class AuditLog {
+  private readonly options: AuditLogOptions;
+
+  constructor(options: AuditLogOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Redacts and stores a record
+   * Resolves once written; failures are logged rather than thrown
+   */
+  async record(record: AuditRecord): Promise<void> {
+    const { store, redact, logger } = this.options;
+    try {
+      await store.append({
+        ...record,
+        arguments: redact(record.arguments),
+        ...(record.error !== undefined && {
+          error: redact(record.error) as string,
+        }),
+      });
+    } catch (error) {
+      logger?.error(
+        {
+          tool: record.tool,
+          error: error instanceof Error ? error.message : error,
+        },
+        'Failed to write audit record'
+      );
+    }
+  }
+
+  query(query: AuditQuery): Promise<AuditRecord[]> {
+    return this.options.store.query(query);
+  }
+
+  close(): Promise<void> {
+    return this.options.store.close();
+  }
+}
+
+/**
+ * Creates the audit log described by configuration, writing rotating JSONL
+ * files
+ */
+export function createAuditLog(
+  config: AuditConfig,
+  logger?: AuditLogOptions['logger']
+): AuditLog {
+  return new AuditLog({
+    store: new JsonlAuditStore({
+      file: config.file,
+      maxBytes: config.maxBytes,
+      maxFiles: config.maxFiles,
+    }),
+    redact: createRedactor(config.redact),
+    logger,
+  });
+}
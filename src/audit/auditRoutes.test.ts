@@ -0,0 +1,91 @@
+import Fastify from 'fastify';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AccessPolicy } from '../auth/policy.js';
+import type { Principal } from '../auth/types.js';
+import { handleError } from '../utils/errorHandler.js';
+import { AuditLog } from './auditLog.js';
+import auditRoutes, { AUDIT_READ_SCOPE } from './auditRoutes.js';
+import type { AuditRecord } from './types.js';
+
+const RECORD: AuditRecord = {
+  timestamp: '2025-06-01T08:30:00.000Z',
+  tool: 'getWeatherForecast',
+  client: 'ip:127.0.0.1',
+  arguments: { latitude: 40.7, longitude: -74 },
+  durationMs: 12,
+  outcome: 'success',
+};
+
+let fastify: ReturnType<typeof Fastify> | undefined;
+
+/** Serves the audit route with the caller taken from a test header */
+async function serve() {
+  const server = Fastify();
+  fastify = server;
+  server.setErrorHandler(handleError);
+  server.decorateRequest('principal', undefined);
+  server.addHook('onRequest', async request => {
+    const scopes = request.headers['x-test-scopes'];
+    if (typeof scopes === 'string') {
+      request.principal = {
+        subject: 'alice',
+        kind: 'api-key',
+        clientId: 'alice',
+        scopes: scopes.split(' ').filter(Boolean),
+      } satisfies Principal;
+    }
+  });
+
+  const records = [RECORD];
+  await server.register(auditRoutes, {
+    audit: new AuditLog({
+      store: {
+        append: async record => {
+          records.push(record);
+        },
+        query: async () => records,
+        close: async () => {},
+      },
+      redact: value => value,
+    }),
+    policy: new AccessPolicy(),
+  });
+
+  const get = (scopes?: string) =>
+    server.inject({
+      method: 'GET',
+      url: '/admin/audit',
+      headers: scopes === undefined ? {} : { 'x-test-scopes': scopes },
+    });
+  return { get };
+}
+
+afterEach(async () => {
+  await fastify?.close();
+  fastify = undefined;
+});
+
+describe('GET /admin/audit', () => {
+  it('returns records to callers with the audit:read scope', async () => {
+    const { get } = await serve();
+
+    const response = await get(AUDIT_READ_SCOPE);
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ records: [RECORD] });
+  });
+
+  it('rejects callers without the scope', async () => {
+    const { get } = await serve();
+
+    const response = await get('weather:read');
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('rejects unauthenticated callers', async () => {
+    const { get } = await serve();
+
+    const response = await get();
+    expect(response.statusCode).toBe(403);
+    expect(response.json()).not.toHaveProperty('records');
+  });
+});
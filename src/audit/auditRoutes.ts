@@ -0,0 +1,62 @@
+import type { FastifyPluginAsync } from 'fastify';
+import type { AccessPolicy } from '../auth/policy.js';
+import { API_ENDPOINTS } from '../config/constants.js';
+import { toJsonSchema } from '../schemas/jsonSchema.js';
+import { ForbiddenError } from '../utils/errorHandler.js';
+import {
+  AuditQueryParamsSchema,
+  AuditResponseSchema,
+  type AuditQueryParams,
+} from '../schemas/routeSchemas.js';
+import type { AuditLog } from './auditLog.js';
+
+/** Scope a caller needs to read the audit log */
+export const AUDIT_READ_SCOPE = 'audit:read';
+
+export interface AuditRoutesOptions {
+  audit: AuditLog;
+  policy: AccessPolicy;
+}
+
+/**
+ * Fastify plugin serving `GET /admin/audit`, the audit log filtered by tool,
+ * subject, session, outcome and time range
+ * Callers must be authenticated and hold the `audit:read` scope, from their
+ * token or a policy role; the server only registers it with auth enabled
+ */
+const auditRoutes: FastifyPluginAsync<AuditRoutesOptions> = async (
+  fastify,
+  { audit, policy }
+) => {
+  fastify.get<{ Querystring: AuditQueryParams }>(
+    API_ENDPOINTS.AUDIT,
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'Query the tool call audit log',
+        querystring: toJsonSchema(AuditQueryParamsSchema),
+        response: { 200: toJsonSchema(AuditResponseSchema) },
+      },
+    },
+    async request => {
+      // ForbiddenError is answered with 403 by the server error handler
+      if (!request.principal) {
+        throw new ForbiddenError(`Requires scope: ${AUDIT_READ_SCOPE}`, {
+          scope: AUDIT_READ_SCOPE,
+        });
+      }
+      policy.requireScope(request.principal, AUDIT_READ_SCOPE);
+
+      const { since, until, ...filters } = request.query;
+      return {
+        records: await audit.query({
+          ...filters,
+          since: since ? new Date(since) : undefined,
+          until: until ? new Date(until) : undefined,
+        }),
+      };
+    }
+  );
+};
+
+export default auditRoutes;
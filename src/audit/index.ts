@@ -0,0 +1,24 @@
+export * from './types.js';
+export {
+  AuditLog,
+  createAuditLog,
+  type AuditConfig,
+  type AuditLogOptions,
+} from './auditLog.js';
+export {
+  JsonlAuditStore,
+  type JsonlAuditStoreOptions,
+} from './jsonlAuditStore.js';
+export {
+  createRedactor,
+  DEFAULT_REDACTION_RULES,
+  REDACTED,
+  redactSecrets,
+  type RedactionRules,
+  type Redactor,
+} from './redactor.js';
+export {
+  default as auditRoutes,
+  AUDIT_READ_SCOPE,
+  type AuditRoutesOptions,
+} from './auditRoutes.js';
@@ -0,0 +1,103 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { JsonlAuditStore } from './jsonlAuditStore.js';
+import type { AuditRecord } from './types.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'audit-test-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function record(index: number, tool = 'calculate'): AuditRecord {
+  return {
+    timestamp: new Date(Date.UTC(2025, 5, 1, 8, index)).toISOString(),
+    tool,
+    client: 'ip:127.0.0.1',
+    arguments: { index },
+    durationMs: 1,
+    outcome: 'success',
+  };
+}
+
+/** Bytes one record takes up in the file */
+const RECORD_BYTES = Buffer.byteLength(`${JSON.stringify(record(0))}\n`);
+
+describe('JsonlAuditStore', () => {
+  it('appends one JSON line per record', async () => {
+    const file = join(dir, 'logs', 'audit.jsonl');
+    const store = new JsonlAuditStore({ file, maxBytes: 1e6, maxFiles: 2 });
+
+    await Promise.all([store.append(record(1)), store.append(record(2))]);
+    await store.close();
+
+    const lines = (await readFile(file, 'utf8')).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual([record(1), record(2)]);
+  });
+
+  it('rotates by size and drops the oldest files', async () => {
+    const file = join(dir, 'audit.jsonl');
+    const store = new JsonlAuditStore({
+      file,
+      maxBytes: 2 * RECORD_BYTES,
+      maxFiles: 2,
+    });
+
+    for (let index = 1; index <= 7; index++) {
+      await store.append(record(index));
+    }
+
+    expect((await readdir(dir)).sort()).toEqual([
+      'audit.jsonl',
+      'audit.jsonl.1',
+      'audit.jsonl.2',
+    ]);
+    const indexes = (await store.query({ limit: 10 })).map(
+      ({ arguments: args }) => (args as { index: number }).index
+    );
+    // Records 1 and 2 went with the dropped file
+    expect(indexes).toEqual([7, 6, 5, 4, 3]);
+  });
+
+  it('continues the size of an existing file', async () => {
+    const file = join(dir, 'audit.jsonl');
+    const options = { file, maxBytes: 2 * RECORD_BYTES, maxFiles: 1 };
+    await new JsonlAuditStore(options).append(record(1));
+
+    const store = new JsonlAuditStore(options);
+    await store.append(record(2));
+    await store.append(record(3));
+
+    expect((await readdir(dir)).sort()).toEqual([
+      'audit.jsonl',
+      'audit.jsonl.1',
+    ]);
+  });
+
+  it('filters newest first across rotated files', async () => {
+    const store = new JsonlAuditStore({
+      file: join(dir, 'audit.jsonl'),
+      maxBytes: RECORD_BYTES,
+      maxFiles: 5,
+    });
+    for (let index = 1; index <= 4; index++) {
+      await store.append(record(index, index % 2 ? 'calculate' : 'evaluate'));
+    }
+
+    const records = await store.query({
+      tool: 'calculate',
+      since: new Date(record(1).timestamp),
+      limit: 10,
+    });
+    expect(records).toEqual([record(3), record(1)]);
+    expect(
+      await store.query({ until: new Date(record(3).timestamp), limit: 1 })
+    ).toEqual([record(2, 'evaluate')]);
+  });
+});
@@ -0,0 +1,133 @@
+import { appendFile, mkdir, readFile, rename, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { AuditQuery, AuditRecord, AuditStore } from './types.js';
+
+export interface JsonlAuditStoreOptions {
+  /** Active log file; rotated files get `.1`, `.2`, ... appended */
+  file: string;
+  /** Size at which the active file is rotated */
+  maxBytes: number;
+  /** Rotated files kept besides the active one; older ones are dropped */
+  maxFiles: number;
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as { code?: unknown }).code === 'ENOENT';
+}
+
+function matches(record: AuditRecord, query: AuditQuery): boolean {
+  const timestamp = Date.parse(record.timestamp);
+  return (
+    (query.tool === undefined || record.tool === query.tool) &&
+    (query.subject === undefined ||
+      record.principal?.subject === query.subject) &&
+    (query.sessionId === undefined || record.sessionId === query.sessionId) &&
+    (query.outcome === undefined || record.outcome === query.outcome) &&
+    (query.since === undefined || timestamp >= query.since.getTime()) &&
+    (query.until === undefined || timestamp < query.until.getTime())
+  );
+}
+
+/**
+ * Appends audit records as JSON lines, rotating the file by size
+ * Writes are serialized so lines never interleave and rotation never races
+ * an append
+ */
+export class JsonlAuditStore implements AuditStore {
+  private readonly options: JsonlAuditStoreOptions;
+  private pending: Promise<void> = Promise.resolve();
+  private size: number | undefined;
+
+  constructor(options: JsonlAuditStoreOptions) {
+    this.options = options;
+  }
+
+  append(record: AuditRecord): Promise<void> {
+    const write = this.pending.then(() =>
+      this.write(`${JSON.stringify(record)}\n`)
+    );
+    // A failed write must not block the ones queued after it
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  async query(query: AuditQuery): Promise<AuditRecord[]> {
+    await this.pending;
+
+    const records: AuditRecord[] = [];
+    // Newest first: the active file, then .1, .2, ...
+    for (let index = 0; index <= this.options.maxFiles; index++) {
+      let contents: string;
+      try {
+        contents = await readFile(this.fileAt(index), 'utf8');
+      } catch (error) {
+        if (isMissing(error)) {
+          continue;
+        }
+        throw error;
+      }
+
+      const lines = contents.split('\n').filter(Boolean).reverse();
+      for (const line of lines) {
+        let record: AuditRecord;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          // A torn line from a crash mid-write; skip it
+          continue;
+        }
+        if (matches(record, query)) {
+          records.push(record);
+          if (records.length >= query.limit) {
+            return records;
+          }
+        }
+      }
+    }
+    return records;
+  }
+
+  async close(): Promise<void> {
+    await this.pending;
+  }
+
+  private fileAt(index: number): string {
+    return index === 0 ? this.options.file : `${this.options.file}.${index}`;
+  }
+
+  private async write(line: string): Promise<void> {
+    if (this.size === undefined) {
+      await mkdir(dirname(this.options.file), { recursive: true });
+      this.size = await stat(this.options.file).then(
+        stats => stats.size,
+        error => {
+          if (isMissing(error)) {
+            return 0;
+          }
+          throw error;
+        }
+      );
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.options.maxBytes) {
+      await this.rotate();
+    }
+    await appendFile(this.options.file, line);
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    // Renaming onto the oldest file drops it
+    for (let index = this.options.maxFiles; index > 0; index--) {
+      try {
+        await rename(this.fileAt(index - 1), this.fileAt(index));
+      } catch (error) {
+        if (!isMissing(error)) {
+          throw error;
+        }
+      }
+    }
+    this.size = 0;
+  }
+}
@@ -0,0 +1,97 @@
+export const REDACTED = '[REDACTED]';
+
+export interface RedactionRules {
+  /**
+   * Property names whose values are replaced wholesale; matched
+   * case-insensitively, ignoring `-` and `_`, anywhere in the name
+   * (`token` covers `accessToken` and `x-token`)
+   */
+  keys: readonly string[];
+  /** Regular expressions masked inside string values */
+  patterns: readonly string[];
+  /** Longer strings are truncated */
+  maxValueLength: number;
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRules = {
+  keys: [
+    'password',
+    'passwd',
+    'secret',
+    'token',
+    'apikey',
+    'authorization',
+    'cookie',
+    'credential',
+    'privatekey',
+  ],
+  patterns: [
+    // Bearer credentials and JWTs embedded in free text
+    'Bearer\\s+[A-Za-z0-9._~+/=-]+',
+    'eyJ[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]*',
+  ],
+  maxValueLength: 1000,
+};
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '');
+}
+
+/** Returns a deep copy of a value with secrets removed */
+export type Redactor = (value: unknown) => unknown;
+
+/**
+ * Builds the redactor for audit records and for request data that ends up
+ * in logs
+ */
+export function createRedactor({
+  keys,
+  patterns,
+  maxValueLength,
+}: RedactionRules): Redactor {
+  const sensitiveKeys = keys.map(normalizeKey);
+  const expressions = patterns.map(pattern => new RegExp(pattern, 'g'));
+
+  const isSensitive = (key: string) => {
+    const normalized = normalizeKey(key);
+    return sensitiveKeys.some(sensitive => normalized.includes(sensitive));
+  };
+
+  const redactString = (value: string) => {
+    const masked = expressions.reduce(
+      (text, expression) => text.replace(expression, REDACTED),
+      value
+    );
+    return masked.length > maxValueLength
+      ? `${masked.slice(0, maxValueLength)}…`
+      : masked;
+  };
+
+  const redact = (value: unknown, seen: WeakSet<object>): unknown => {
+    if (typeof value === 'string') {
+      return redactString(value);
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map(item => redact(item, seen));
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        isSensitive(key) ? REDACTED : redact(item, seen),
+      ])
+    );
+  };
+
+  return value => redact(value, new WeakSet());
+}
+
+/** Redactor with the default rules, for logs written outside the audit log */
+export const redactSecrets = createRedactor(DEFAULT_REDACTION_RULES);
@@ -0,0 +1,65 @@
+import type { Principal } from '../auth/types.js';
+
+/**
+ * How a tool call ended
+ * Calls rejected before the handler ran are recorded too, so the log shows
+ * every attempt, not only the ones that executed
+ */
+export const AUDIT_OUTCOMES = [
+  'success',
+  'tool_error',
+  'error',
+  'denied',
+  'rate_limited',
+  'invalid_arguments',
+  'timeout',
+  'cancelled',
+] as const;
+
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[number];
+
+/**
+ * One tool invocation, as written to the audit log
+ */
+export interface AuditRecord {
+  /** When the call started (ISO 8601) */
+  timestamp: string;
+  tool: string;
+  /** MCP session ID; absent for REST bridge and stdio calls */
+  sessionId?: string | undefined;
+  /** Authenticated caller; absent in stdio mode or without auth */
+  principal?: Pick<Principal, 'subject' | 'kind' | 'clientId'> | undefined;
+  /** Rate limit key: the principal, otherwise `ip:<address>` or the session */
+  client: string;
+  /** Arguments after redaction */
+  arguments: unknown;
+  durationMs: number;
+  outcome: AuditOutcome;
+  /** Error message for anything but success, after redaction */
+  error?: string | undefined;
+  /** Size of the JSON-encoded result in bytes */
+  resultSize?: number | undefined;
+}
+
+export interface AuditQuery {
+  tool?: string | undefined;
+  subject?: string | undefined;
+  sessionId?: string | undefined;
+  outcome?: AuditOutcome | undefined;
+  /** Inclusive lower bound on the timestamp */
+  since?: Date | undefined;
+  /** Exclusive upper bound on the timestamp */
+  until?: Date | undefined;
+  limit: number;
+}
+
+/**
+ * Durable storage for audit records
+ */
+export interface AuditStore {
+  append(record: AuditRecord): Promise<void>;
+  /** Matching records, newest first */
+  query(query: AuditQuery): Promise<AuditRecord[]>;
+  /** Waits for pending writes */
+  close(): Promise<void>;
+}
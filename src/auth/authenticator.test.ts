@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createLocalJWKSet,
+  exportJWK,
+  generateKeyPair,
+  SignJWT,
+  type JWTPayload,
+} from 'jose';
+import { UnauthorizedError } from '../utils/errorHandler.js';
+import { Authenticator, parseApiKeys } from './authenticator.js';
+
+const ISSUER = 'https://auth.example.com';
+const AUDIENCE = 'https://mcp.example.com/mcp';
+
+async function createIssuer() {
+  const { publicKey, privateKey } = await generateKeyPair('ES256');
+  const jwk = { ...(await exportJWK(publicKey)), kid: 'test', alg: 'ES256' };
+  const sign = (claims: JWTPayload, expiresIn = '5m') =>
+    new SignJWT(claims)
+      .setProtectedHeader({ alg: 'ES256', kid: 'test' })
+      .setIssuer(ISSUER)
+      .setAudience(AUDIENCE)
+      .setIssuedAt()
+      .setExpirationTime(expiresIn)
+      .sign(privateKey);
+  return { jwks: createLocalJWKSet({ keys: [jwk] }), sign };
+}
+
+describe('Authenticator', () => {
+  const apiKeys = parseApiKeys('cron:key1,dashboard:key2');
+
+  it('identifies service accounts by API key or bearer token', async () => {
+    const authenticator = new Authenticator({ apiKeys });
+
+    await expect(
+      authenticator.authenticate({ apiKey: 'key2' })
+    ).resolves.toEqual({
+      subject: 'dashboard',
+      kind: 'api-key',
+      clientId: 'dashboard',
+      scopes: [],
+    });
+    await expect(
+      authenticator.authenticate({ authorization: 'Bearer key1' })
+    ).resolves.toMatchObject({ subject: 'cron' });
+  });
+
+  it.each([
+    [{}, 'AUTH_REQUIRED'],
+    [{ apiKey: 'wrong' }, 'INVALID_TOKEN'],
+    [{ authorization: 'Basic a2V5MQ==' }, 'INVALID_REQUEST'],
+    [{ authorization: 'Bearer not-a-jwt' }, 'INVALID_TOKEN'],
+  ])('rejects %o with %s', async (credentials, code) => {
+    const authenticator = new Authenticator({ apiKeys });
+
+    const error = await authenticator
+      .authenticate(credentials)
+      .catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect((error as UnauthorizedError).code).toBe(code);
+  });
+
+  it('reads the subject, client and scopes of a JWT', async () => {
+    const { jwks, sign } = await createIssuer();
+    const authenticator = new Authenticator({
+      jwks,
+      issuer: ISSUER,
+      audience: AUDIENCE,
+    });
+    const token = await sign({
+      sub: 'user-1',
+      client_id: 'dashboard',
+      scope: 'math weather:read',
+    });
+
+    await expect(
+      authenticator.authenticate({ authorization: `Bearer ${token}` })
+    ).resolves.toMatchObject({
+      subject: 'user-1',
+      kind: 'jwt',
+      clientId: 'dashboard',
+      scopes: ['math', 'weather:read'],
+    });
+  });
+
+  it('rejects expired tokens and tokens for another audience', async () => {
+    const { jwks, sign } = await createIssuer();
+    const authenticator = new Authenticator({
+      jwks,
+      issuer: ISSUER,
+      audience: 'https://other.example.com',
+    });
+
+    await expect(
+      authenticator.authenticate({
+        authorization: `Bearer ${await sign({ sub: 'user-1' })}`,
+      })
+    ).rejects.toThrow('Invalid access token');
+    await expect(
+      new Authenticator({ jwks, issuer: ISSUER }).authenticate({
+        authorization: `Bearer ${await sign({ sub: 'user-1' }, '-1m')}`,
+      })
+    ).rejects.toThrow('Access token has expired');
+  });
+});
+
+describe('parseApiKeys', () => {
+  it.each(['cron', 'cron:key1,cron:key2'])('rejects %s', value => {
+    expect(() => parseApiKeys(value)).toThrow();
+  });
+});
@@ -0,0 +1,241 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  errors,
+  jwtVerify,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from 'jose';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { AppConfig } from '../config/config.js';
+import { UnauthorizedError } from '../utils/errorHandler.js';
+import type { Credentials, Principal } from './types.js';
+
+export interface AuthenticatorOptions {
+  /** Key set for verifying JWT access tokens; without it only API keys work */
+  jwks?: JWTVerifyGetKey | undefined;
+  /** Required `iss` claim */
+  issuer?: string | undefined;
+  /** Required `aud` claim */
+  audience?: string | undefined;
+  /** Service account API keys by account name */
+  apiKeys?: Record<string, string> | undefined;
+}
+
+export type AuthConfig = Pick<
+  AppConfig['auth'],
+  'jwks' | 'issuer' | 'audience' | 'apiKeys'
+>;
+
+interface ServiceAccount {
+  name: string;
+  digest: Buffer;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Reads OAuth scopes from the `scope` (space-separated) or `scp` claim
+ */
+function scopesFromClaims(claims: JWTPayload): string[] {
+  const { scope, scp } = claims;
+  if (typeof scope === 'string') {
+    return scope.split(' ').filter(Boolean);
+  }
+  if (Array.isArray(scp)) {
+    return scp.filter((value): value is string => typeof value === 'string');
+  }
+  return [];
+}
+
+/**
+ * Verifies bearer tokens and API keys, turning them into a Principal
+ */
+export class Authenticator {
+  private readonly options: AuthenticatorOptions;
+  private readonly serviceAccounts: ServiceAccount[];
+
+  constructor(options: AuthenticatorOptions) {
+    this.options = options;
+    this.serviceAccounts = Object.entries(options.apiKeys ?? {}).map(
+      ([name, key]) => ({ name, digest: digest(key) })
+    );
+  }
+
+  /**
+   * Authenticates a request from its `X-API-Key` or `Authorization` header
+   * A bearer token matching a service account key is accepted as that key
+   * @throws UnauthorizedError when credentials are missing or invalid
+   */
+  async authenticate({
+    authorization,
+    apiKey,
+  }: Credentials): Promise<Principal> {
+    if (apiKey !== undefined) {
+      const principal = this.verifyApiKey(apiKey);
+      if (!principal) {
+        throw new UnauthorizedError('Invalid API key', 'INVALID_TOKEN');
+      }
+      return principal;
+    }
+
+    if (!authorization) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const [scheme, token, ...rest] = authorization.split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token || rest.length > 0) {
+      throw new UnauthorizedError(
+        'Authorization header must be "Bearer <token>"',
+        'INVALID_REQUEST'
+      );
+    }
+
+    return this.verifyApiKey(token) ?? this.verifyJwt(token);
+  }
+
+  private verifyApiKey(key: string): Principal | undefined {
+    const candidate = digest(key);
+    // Compare against every account so timing does not reveal a match
+    let match: ServiceAccount | undefined;
+    for (const account of this.serviceAccounts) {
+      if (timingSafeEqual(candidate, account.digest)) {
+        match = account;
+      }
+    }
+    if (!match) {
+      return undefined;
+    }
+
+    return {
+      subject: match.name,
+      kind: 'api-key',
+      clientId: match.name,
+      scopes: [],
+    };
+  }
+
+  private async verifyJwt(token: string): Promise<Principal> {
+    const { jwks, issuer, audience } = this.options;
+    if (!jwks) {
+      throw new UnauthorizedError('Invalid access token', 'INVALID_TOKEN');
+    }
+
+    let claims: JWTPayload;
+    try {
+      ({ payload: claims } = await jwtVerify(token, jwks, {
+        ...(issuer && { issuer }),
+        ...(audience && { audience }),
+      }));
+    } catch (error) {
+      throw new UnauthorizedError(
+        error instanceof errors.JWTExpired
+          ? 'Access token has expired'
+          : 'Invalid access token',
+        'INVALID_TOKEN',
+        { reason: error instanceof Error ? error.message : error }
+      );
+    }
+
+    if (!claims.sub) {
+      throw new UnauthorizedError(
+        'Access token has no subject',
+        'INVALID_TOKEN'
+      );
+    }
+
+    const clientId = claims['client_id'] ?? claims['azp'];
+    return {
+      subject: claims.sub,
+      kind: 'jwt',
+      clientId: typeof clientId === 'string' ? clientId : claims.sub,
+      scopes: scopesFromClaims(claims),
+      expiresAt: claims.exp,
+      claims,
+    };
+  }
+}
+
+/**
+ * Parses `name:key` pairs separated by commas
+ * @throws When an entry is malformed or a name repeats
+ */
+export function parseApiKeys(value: string): Record<string, string> {
+  const keys: Record<string, string> = {};
+  for (const entry of value.split(',').map(part => part.trim())) {
+    if (!entry) {
+      continue;
+    }
+    const separator = entry.indexOf(':');
+    const name = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (separator <= 0 || !key) {
+      throw new Error(`Invalid API key entry "${name || entry}"; use name:key`);
+    }
+    if (name in keys) {
+      throw new Error(`Duplicate API key name "${name}"`);
+    }
+    keys[name] = key;
+  }
+  return keys;
+}
+
+/**
+ * Loads a JWKS from an http(s) URL (fetched and cached) or a JSON file
+ */
+async function loadJwks(source: string): Promise<JWTVerifyGetKey> {
+  if (/^https?:\/\//.test(source)) {
+    return createRemoteJWKSet(new URL(source));
+  }
+  return createLocalJWKSet(JSON.parse(await readFile(source, 'utf8')));
+}
+
+/**
+ * Creates the authenticator described by configuration
+ * @throws When neither a JWKS nor API keys are configured
+ */
+export async function createAuthenticator(
+  config: AuthConfig
+): Promise<Authenticator> {
+  const apiKeys = parseApiKeys(config.apiKeys);
+  if (!config.jwks && Object.keys(apiKeys).length === 0) {
+    throw new Error(
+      'Authentication is enabled but neither auth.jwks nor auth.apiKeys is set'
+    );
+  }
+
+  return new Authenticator({
+    jwks: config.jwks ? await loadJwks(config.jwks) : undefined,
+    issuer: config.issuer || undefined,
+    audience: config.audience || undefined,
+    apiKeys,
+  });
+}
+
+/**
+ * Wraps a principal in the SDK's AuthInfo so it reaches MCP handlers
+ */
+export function toAuthInfo(principal: Principal, token: string): AuthInfo {
+  return {
+    token,
+    clientId: principal.clientId,
+    scopes: principal.scopes,
+    ...(principal.expiresAt !== undefined && {
+      expiresAt: principal.expiresAt,
+    }),
+    extra: { principal },
+  };
+}
+
+/**
+ * Recovers the principal attached by toAuthInfo
+ */
+export function getPrincipal(
+  authInfo: AuthInfo | undefined
+): Principal | undefined {
+  return authInfo?.extra?.['principal'] as Principal | undefined;
+}
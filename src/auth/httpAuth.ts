@@ -0,0 +1,149 @@
+import type { IncomingMessage } from 'node:http';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { OAuthProtectedResourceMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { API_ENDPOINTS, SERVER_CONFIG } from '../config/constants.js';
+import { UnauthorizedError } from '../utils/errorHandler.js';
+import { toAuthInfo, type Authenticator } from './authenticator.js';
+import type { Principal } from './types.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Authenticated caller; set on protected routes only */
+    principal?: Principal | undefined;
+  }
+}
+
+export const PROTECTED_RESOURCE_METADATA_PATH =
+  '/.well-known/oauth-protected-resource';
+
+export interface HttpAuthOptions {
+  authenticator: Authenticator;
+  /**
+   * Route URLs, as registered, open to anonymous callers, including every
+   * route below them; all other routes require authentication
+   */
+  publicRoutes: readonly string[];
+  /** Public URL of the MCP endpoint; derived from the request when empty */
+  resourceUrl?: string | undefined;
+  /** Authorization servers that issue tokens for this resource */
+  authorizationServers: readonly string[];
+  /** Scopes advertised in the resource metadata */
+  scopesSupported?: readonly string[] | undefined;
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Reads a token offered as a `bearer.<token>` WebSocket subprotocol
+ * Browsers cannot set headers on WebSocket connections, so this is how they
+ * authenticate to `/ws`
+ */
+function subprotocolBearer(value: string | undefined): string | undefined {
+  const token = value
+    ?.split(',')
+    .map(protocol => protocol.trim())
+    .find(protocol => protocol.startsWith('bearer.'))
+    ?.slice('bearer.'.length);
+  return token ? `Bearer ${token}` : undefined;
+}
+
+function origin(request: FastifyRequest): string {
+  return `${request.protocol}://${request.host}`;
+}
+
+/**
+ * Protects routes with bearer token / API key authentication and publishes
+ * OAuth 2.0 protected resource metadata (RFC 9728) for client discovery
+ * Routes are protected unless listed as public, so new routes are never
+ * exposed by accident. Must be called on the root instance before the
+ * protected routes exist
+ */
+export async function registerAuth(
+  fastify: FastifyInstance,
+  options: HttpAuthOptions
+): Promise<void> {
+  fastify.decorateRequest('principal', undefined);
+
+  const metadata = async (
+    request: FastifyRequest
+  ): Promise<OAuthProtectedResourceMetadata> => ({
+    resource: options.resourceUrl || `${origin(request)}${API_ENDPOINTS.MCP}`,
+    ...(options.authorizationServers.length > 0 && {
+      authorization_servers: [...options.authorizationServers],
+    }),
+    bearer_methods_supported: ['header'],
+    resource_name: SERVER_CONFIG.NAME,
+    ...(options.scopesSupported && {
+      scopes_supported: [...options.scopesSupported],
+    }),
+  });
+
+  // Served both at the root and suffixed with the resource path (RFC 9728 §3.1)
+  const metadataPaths = [
+    PROTECTED_RESOURCE_METADATA_PATH,
+    `${PROTECTED_RESOURCE_METADATA_PATH}${API_ENDPOINTS.MCP}`,
+  ];
+  for (const path of metadataPaths) {
+    fastify.get(path, { schema: { hide: true } }, metadata);
+  }
+
+  const publicRoutes = [...options.publicRoutes, ...metadataPaths];
+  const isPublic = (route: string) =>
+    publicRoutes.some(open => route === open || route.startsWith(`${open}/`));
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    const route = request.routeOptions.url;
+    // Unmatched URLs get a plain 404 rather than a challenge
+    if (route === undefined || isPublic(route)) {
+      return;
+    }
+
+    const authorization =
+      request.headers.authorization ??
+      subprotocolBearer(request.headers['sec-websocket-protocol']);
+    const apiKey = headerValue(request.headers['x-api-key']);
+
+    try {
+      request.principal = await options.authenticator.authenticate({
+        authorization,
+        apiKey,
+      });
+    } catch (error) {
+      if (!(error instanceof UnauthorizedError)) {
+        throw error;
+      }
+
+      // Missing credentials get no error code, per RFC 6750 §3.1
+      const oauthError =
+        error.code === 'AUTH_REQUIRED' ? undefined : error.code.toLowerCase();
+      const challenge = [
+        `resource_metadata="${origin(request)}${metadataPaths[1]}"`,
+        ...(oauthError
+          ? [`error="${oauthError}"`, `error_description="${error.message}"`]
+          : []),
+      ];
+
+      request.log.warn(
+        { url: request.url, code: error.code, details: error.details },
+        'Authentication failed'
+      );
+      return reply
+        .status(error.statusCode)
+        .header('WWW-Authenticate', `Bearer ${challenge.join(', ')}`)
+        .send({
+          error: oauthError ?? 'unauthorized',
+          error_description: error.message,
+        });
+    }
+
+    // The MCP transport forwards `req.auth` to handlers as `extra.authInfo`
+    const token = apiKey ?? authorization?.split(' ')[1] ?? '';
+    (request.raw as IncomingMessage & { auth?: AuthInfo }).auth = toAuthInfo(
+      request.principal,
+      token
+    );
+  });
+}
@@ -0,0 +1,21 @@
+export * from './types.js';
+export {
+  Authenticator,
+  createAuthenticator,
+  getPrincipal,
+  parseApiKeys,
+  toAuthInfo,
+  type AuthConfig,
+  type AuthenticatorOptions,
+} from './authenticator.js';
+export {
+  PROTECTED_RESOURCE_METADATA_PATH,
+  registerAuth,
+  type HttpAuthOptions,
+} from './httpAuth.js';
+export {
+  AccessPolicy,
+  AccessPolicySchema,
+  loadAccessPolicy,
+  type AccessPolicyConfig,
+} from './policy.js';
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MCP_ERROR_CODES } from '../config/constants.js';
+import mathPlugin from '../plugins/mathPlugin.js';
+import { createTestClient, type TestClient } from '../testing/index.js';
+import { AccessPolicy, type AccessPolicyConfig } from './policy.js';
+import type { Principal } from './types.js';
+
+const POLICY: AccessPolicyConfig = {
+  roles: {
+    intern: { tools: ['sayHello'] },
+    analyst: { tools: ['calc*', 'evaluate'], scopes: ['math'] },
+  },
+  principals: { cron: ['analyst'] },
+  defaultRoles: ['intern'],
+};
+
+function principal(subject: string, scopes: string[] = []): Principal {
+  return { subject, kind: 'api-key', clientId: subject, scopes };
+}
+
+let client: TestClient | undefined;
+
+async function connect(caller: Principal, policy?: AccessPolicyConfig) {
+  client = await createTestClient({
+    plugins: [mathPlugin],
+    principal: caller,
+    guards: { policy: new AccessPolicy(policy) },
+  });
+  return client;
+}
+
+afterEach(async () => {
+  await client?.close();
+  client = undefined;
+});
+
+describe('AccessPolicy', () => {
+  it('lets callers with the scope use a tool', async () => {
+    const mcp = await connect(principal('user-1', ['math']));
+
+    const result = await mcp.callTool('calculate', {
+      a: 2,
+      b: 3,
+      operation: 'add',
+    });
+    expect(result.structuredContent?.['result']).toBe(5);
+  });
+
+  it('hides and refuses tools whose scope the caller lacks', async () => {
+    const mcp = await connect(principal('user-1'));
+
+    expect(await mcp.listTools()).toEqual([]);
+    const error = await mcp
+      .callTool('calculate', { a: 2, b: 3, operation: 'add' })
+      .catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(MCP_ERROR_CODES.FORBIDDEN);
+    expect((error as McpError).message).toContain(
+      'Tool calculate requires scope: math'
+    );
+  });
+
+  it('grants tools and scopes through roles', async () => {
+    const mcp = await connect(principal('cron'), POLICY);
+
+    expect((await mcp.listTools()).map(tool => tool.name)).toEqual([
+      'calculate',
+      'evaluate',
+    ]);
+    const result = await mcp.callTool('evaluate', { expression: '6 * 7' });
+    expect(result.structuredContent?.['value']).toBe(42);
+  });
+
+  it('falls back to the default roles', async () => {
+    const mcp = await connect(principal('someone', ['math']), POLICY);
+
+    expect(await mcp.listTools()).toEqual([]);
+    await expect(
+      mcp.callTool('evaluate', { expression: '1 + 1' })
+    ).rejects.toThrow('Tool evaluate is not available to someone');
+  });
+
+  it('rejects invalid arguments before the tool runs', async () => {
+    const mcp = await connect(principal('user-1', ['math']));
+
+    const error = await mcp
+      .callTool('calculate', { a: 'two', b: 3, operation: 'add' })
+      .catch((reason: unknown) => reason);
+    expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+  });
+
+  it('refuses policies that assign undefined roles', () => {
+    expect(
+      () => new AccessPolicy({ roles: {}, principals: { cron: ['admin'] } })
+    ).toThrow('Access policy assigns undefined roles: admin');
+  });
+});
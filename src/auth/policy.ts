@@ -0,0 +1,190 @@
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+import { ForbiddenError } from '../utils/errorHandler.js';
+import type { ToolDefinition } from '../mcp/plugin.js';
+import type { Principal } from './types.js';
+
+/**
+ * Access policy file format
+ * Roles grant tool name patterns (`*` wildcard) and extra scopes; callers get
+ * roles from a JWT claim or, for API keys and fixed subjects, `principals`
+ */
+export const AccessPolicySchema = z.object({
+  roles: z.record(
+    z.object({
+      tools: z.array(z.string().min(1)).describe('Tool name patterns'),
+      scopes: z
+        .array(z.string())
+        .default([])
+        .describe('Scopes granted in addition to token scopes'),
+    })
+  ),
+  principals: z
+    .record(z.array(z.string()))
+    .default({})
+    .describe('Roles by API key name or JWT subject'),
+  roleClaim: z
+    .string()
+    .default('roles')
+    .describe('JWT claim holding the caller roles'),
+  defaultRoles: z
+    .array(z.string())
+    .default([])
+    .describe('Roles for authenticated callers that have none'),
+});
+
+export type AccessPolicyConfig = z.input<typeof AccessPolicySchema>;
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*')}$`);
+}
+
+interface Grant {
+  /** Allowed tool patterns; undefined when no policy restricts tools */
+  tools?: RegExp[] | undefined;
+  scopes: Set<string>;
+}
+
+type PolicyConfig = z.output<typeof AccessPolicySchema>;
+
+/**
+ * Decides which tools a caller may see and call
+ * Unauthenticated callers (stdio, or HTTP without auth) are not restricted.
+ * Without a policy file every tool is visible and only scopes are enforced.
+ */
+export class AccessPolicy {
+  private readonly config: PolicyConfig | undefined;
+
+  /**
+   * @throws When the policy assigns roles it does not define
+   */
+  constructor(config?: AccessPolicyConfig) {
+    if (!config) {
+      return;
+    }
+
+    const parsed = AccessPolicySchema.parse(config);
+    const unknown = [
+      ...Object.values(parsed.principals).flat(),
+      ...parsed.defaultRoles,
+    ].filter(role => !(role in parsed.roles));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Access policy assigns undefined roles: ${[...new Set(unknown)].join(', ')}`
+      );
+    }
+    this.config = parsed;
+  }
+
+  /** Whether the caller may see and call the tool */
+  canUse(tool: ToolDefinition, principal: Principal | undefined): boolean {
+    return this.check(tool, principal) === undefined;
+  }
+
+  /**
+   * @throws ForbiddenError explaining what the caller is missing
+   */
+  authorize(tool: ToolDefinition, principal: Principal | undefined): void {
+    const reason = this.check(tool, principal);
+    if (reason) {
+      throw new ForbiddenError(reason, {
+        tool: tool.name,
+        subject: principal?.subject,
+      });
+    }
+  }
+
+  /**
+   * Checks that the caller holds a scope, from its token or its roles
+   * Unauthenticated callers are not restricted, as for tools
+   * @throws ForbiddenError when the scope is missing
+   */
+  requireScope(principal: Principal | undefined, scope: string): void {
+    if (
+      principal &&
+      !principal.scopes.includes(scope) &&
+      !this.grantFor(principal).scopes.has(scope)
+    ) {
+      throw new ForbiddenError(`Requires scope: ${scope}`, {
+        scope,
+        subject: principal.subject,
+      });
+    }
+  }
+
+  /** Roles of a caller, from the JWT role claim and the policy */
+  rolesOf(principal: Principal): string[] {
+    if (!this.config) {
+      return [];
+    }
+    const { roles, principals, roleClaim, defaultRoles } = this.config;
+
+    const claim = principal.claims?.[roleClaim];
+    const claimed =
+      typeof claim === 'string'
+        ? claim.split(' ')
+        : Array.isArray(claim)
+          ? claim.filter((role): role is string => typeof role === 'string')
+          : [];
+    const assigned = [
+      ...new Set([...claimed, ...(principals[principal.subject] ?? [])]),
+    ].filter(role => role in roles);
+
+    return assigned.length > 0 ? assigned : defaultRoles;
+  }
+
+  private check(
+    tool: ToolDefinition,
+    principal: Principal | undefined
+  ): string | undefined {
+    if (!principal) {
+      return undefined;
+    }
+
+    const grant = this.grantFor(principal);
+    if (grant.tools && !grant.tools.some(pattern => pattern.test(tool.name))) {
+      return `Tool ${tool.name} is not available to ${principal.subject}`;
+    }
+
+    const missing = (tool.scopes ?? []).filter(
+      scope => !principal.scopes.includes(scope) && !grant.scopes.has(scope)
+    );
+    if (missing.length > 0) {
+      return `Tool ${tool.name} requires scope${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`;
+    }
+
+    return undefined;
+  }
+
+  private grantFor(principal: Principal): Grant {
+    if (!this.config) {
+      return { scopes: new Set() };
+    }
+
+    const { roles } = this.config;
+    const granted = this.rolesOf(principal).flatMap(role => roles[role] ?? []);
+    return {
+      tools: granted.flatMap(role => role.tools).map(patternToRegExp),
+      scopes: new Set(granted.flatMap(role => role.scopes)),
+    };
+  }
+}
+
+/**
+ * Loads and validates an access policy file
+ * @throws When the file is unreadable or does not match AccessPolicySchema
+ */
+export async function loadAccessPolicy(file: string): Promise<AccessPolicy> {
+  const result = AccessPolicySchema.safeParse(
+    JSON.parse(await readFile(file, 'utf8'))
+  );
+  if (!result.success) {
+    throw new Error(
+      `Invalid access policy ${file}: ${result.error.errors
+        .map(err => `${err.path.join('.')}: ${err.message}`)
+        .join(', ')}`
+    );
+  }
+  return new AccessPolicy(result.data);
+}
@@ -0,0 +1,29 @@
+import type { JWTPayload } from 'jose';
+
+/**
+ * The authenticated caller of an HTTP request
+ * Handed to tool, resource and prompt handlers through their context
+ */
+export interface Principal {
+  /** Stable identifier: the token subject or the service account name */
+  subject: string;
+  /** How the caller authenticated */
+  kind: 'jwt' | 'api-key';
+  /** OAuth client that obtained the token; the account name for API keys */
+  clientId: string;
+  scopes: string[];
+  /** Token expiry in seconds since epoch, when the credential expires */
+  expiresAt?: number | undefined;
+  /** Verified JWT claims; absent for API keys */
+  claims?: JWTPayload | undefined;
+}
+
+/**
+ * Credentials presented with a request
+ */
+export interface Credentials {
+  /** Raw `Authorization` header value */
+  authorization?: string | undefined;
+  /** Raw `X-API-Key` header value */
+  apiKey?: string | undefined;
+}
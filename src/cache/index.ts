@@ -0,0 +1,11 @@
+export { LruCache } from './lruCache.js';
+export {
+  cacheInfo,
+  createToolCache,
+  ToolResultCache,
+  type CacheConfig,
+  type CacheInfo,
+  type CacheStatus,
+  type ToolCachePolicy,
+  type ToolResultCacheOptions,
+} from './toolCache.js';
@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AccessPolicy } from '../auth/policy.js';
+import {
+  definePlugin,
+  defineTool,
+  type HandlerContext,
+} from '../mcp/plugin.js';
+import { enforceTimeouts } from '../mcp/toolMiddleware.js';
+import {
+  createTestClient,
+  createTestClock,
+  type TestClient,
+} from '../testing/index.js';
+import { createLogger } from '../utils/logger.js';
+import { cacheInfo, ToolResultCache } from './toolCache.js';
+
+/** Handler calls that finish only when the test releases them */
+function createUpstream() {
+  const calls: { signal?: AbortSignal | undefined; release(): void }[] = [];
+  let failNext = false;
+
+  const handler = async (_args: unknown, { signal }: HandlerContext) => {
+    const failing = failNext;
+    failNext = false;
+    await new Promise<void>((resolve, reject) => {
+      calls.push({ signal, release: resolve });
+      signal?.addEventListener('abort', () => reject(signal.reason), {
+        once: true,
+      });
+    });
+    return {
+      content: [{ type: 'text' as const, text: `call ${calls.length}` }],
+      ...(failing && { isError: true }),
+    };
+  };
+
+  return {
+    calls,
+    handler,
+    failNextCall: () => {
+      failNext = true;
+    },
+    /** Waits until `count` handler calls have started */
+    started: (count: number) => expect.poll(() => calls.length).toBe(count),
+  };
+}
+
+const clock = createTestClock();
+let client: TestClient | undefined;
+
+async function setup() {
+  const upstream = createUpstream();
+  const cache = new ToolResultCache({
+    maxEntries: 10,
+    logger: createLogger({ level: 'silent', pretty: false, enabled: false }),
+    now: clock.now,
+  });
+  const lookup = defineTool({
+    name: 'lookup',
+    description: 'Slow upstream lookup',
+    inputSchema: {},
+    cache: { ttl: 60_000, staleWhileRevalidate: 60_000 },
+    handler: upstream.handler,
+  });
+  client = await createTestClient({
+    plugins: [
+      definePlugin({ name: 'upstream', version: '1.0.0', tools: [lookup] }),
+    ],
+    clock,
+    guards: {
+      policy: new AccessPolicy(),
+      middleware: [cache.middleware(), enforceTimeouts(5_000)],
+    },
+  });
+  return { upstream, client };
+}
+
+afterEach(async () => {
+  await client?.close();
+  client = undefined;
+  clock.set(Date.UTC(2025, 0, 1, 12));
+});
+
+describe('ToolResultCache', () => {
+  it('shares one handler call between concurrent callers', async () => {
+    const { upstream, client } = await setup();
+
+    const first = client.callTool('lookup');
+    const second = client.callTool('lookup');
+    await upstream.started(1);
+    upstream.calls[0]?.release();
+
+    expect((await first).content).toEqual([{ type: 'text', text: 'call 1' }]);
+    expect((await second).content).toEqual([{ type: 'text', text: 'call 1' }]);
+    expect(upstream.calls).toHaveLength(1);
+  });
+
+  it('starts a fresh call for a bypass instead of joining one', async () => {
+    const { upstream, client } = await setup();
+
+    const first = client.callTool('lookup');
+    await upstream.started(1);
+    const bypass = client.callTool('lookup', {}, { noCache: true });
+    await upstream.started(2);
+    // Answered while the first call is still in flight
+    upstream.calls[1]?.release();
+    expect((await bypass).isError).toBeUndefined();
+
+    upstream.calls[0]?.release();
+    expect((await first).isError).toBeUndefined();
+    expect(upstream.calls).toHaveLength(2);
+  });
+
+  it('keeps the shared call running when one caller cancels', async () => {
+    const { upstream, client } = await setup();
+    const controller = new AbortController();
+
+    const cancelled = client.callTool(
+      'lookup',
+      {},
+      {
+        signal: controller.signal,
+      }
+    );
+    const waiting = client.callTool('lookup');
+    await upstream.started(1);
+    controller.abort();
+    await expect(cancelled).rejects.toThrow();
+    upstream.calls[0]?.release();
+
+    const result = await waiting;
+    expect(result.isError).toBeUndefined();
+    expect(upstream.calls[0]?.signal?.aborted).toBe(false);
+  });
+
+  it('cancels the shared call once every caller has cancelled', async () => {
+    const { upstream, client } = await setup();
+    const controllers = [new AbortController(), new AbortController()];
+
+    const calls = controllers.map(controller =>
+      client.callTool('lookup', {}, { signal: controller.signal })
+    );
+    await upstream.started(1);
+    controllers.forEach(controller => controller.abort());
+    await Promise.allSettled(calls);
+
+    await expect.poll(() => upstream.calls[0]?.signal?.aborted).toBe(true);
+  });
+
+  it('serves fresh, then stale, then new results as the clock moves', async () => {
+    const { upstream, client } = await setup();
+    const first = client.callTool('lookup');
+    await upstream.started(1);
+    upstream.calls[0]?.release();
+    await first;
+
+    clock.advance(30_000);
+    const hit = await client.callTool('lookup');
+    expect(cacheInfo(hit)).toEqual({ status: 'hit', age: 30 });
+
+    clock.advance(60_000);
+    const stale = await client.callTool('lookup');
+    expect(cacheInfo(stale)).toEqual({ status: 'stale', age: 90 });
+    // The stale result triggered a refresh in the background
+    await upstream.started(2);
+    upstream.calls[1]?.release();
+
+    await expect
+      .poll(async () => (await client.callTool('lookup')).content)
+      .toEqual([{ type: 'text', text: 'call 2' }]);
+  });
+
+  it('does not cache error results', async () => {
+    const { upstream, client } = await setup();
+    upstream.failNextCall();
+    const failed = client.callTool('lookup');
+    await upstream.started(1);
+    upstream.calls[0]?.release();
+    expect((await failed).isError).toBe(true);
+
+    const retried = client.callTool('lookup');
+    await upstream.started(2);
+    upstream.calls[1]?.release();
+    expect((await retried).isError).toBeUndefined();
+  });
+});
@@ -0,0 +1,275 @@
+import { createHash } from 'node:crypto';
+import type { FastifyBaseLogger } from 'fastify';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { AppConfig } from '../config/config.js';
+import type { ToolCall, ToolMiddleware } from '../mcp/plugin.js';
+import { metrics, type ServerMetrics } from '../metrics/metrics.js';
+import { CancelledError } from '../utils/errorHandler.js';
+import { LruCache } from './lruCache.js';
+
+export type CacheConfig = AppConfig['cache'];
+
+/**
+ * How a tool's results may be reused
+ * Entries are shared by every caller, so only declare a policy for tools
+ * whose result depends on nothing but their arguments
+ */
+export interface ToolCachePolicy {
+  /** Milliseconds a result is served as fresh */
+  ttl: number;
+  /**
+   * Milliseconds after `ttl` during which the stale result is still served
+   * while a background call refreshes it
+   */
+  staleWhileRevalidate?: number | undefined;
+  /** Normalizes arguments into the cache key; the arguments by default */
+  key?(args: Record<string, unknown>): unknown;
+}
+
+/** `bypass` means the caller asked for a fresh result */
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'bypass';
+
+/** Attached to cached results as `_meta.cache` */
+export interface CacheInfo {
+  status: Extract<CacheStatus, 'hit' | 'stale'>;
+  /** Seconds since the result was produced */
+  age: number;
+}
+
+interface CacheEntry {
+  result: CallToolResult;
+  storedAt: number;
+}
+
+/** Handler call shared by every concurrent caller for a key */
+interface PendingCall {
+  promise: Promise<CallToolResult>;
+  /** Signal of the shared call, aborted once no caller waits for it */
+  controller: AbortController;
+  waiters: number;
+}
+
+export interface ToolResultCacheOptions {
+  maxEntries: number;
+  logger: FastifyBaseLogger;
+  metrics?: ServerMetrics | undefined;
+  /** Clock deciding entry ages; a test clock makes expiry deterministic */
+  now?: (() => number) | undefined;
+}
+
+/**
+ * JSON with object keys sorted, so equal arguments give equal keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        key =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Reads the cache annotation of a tool result, if it was served from cache
+ */
+export function cacheInfo(result: CallToolResult): CacheInfo | undefined {
+  return result._meta?.['cache'] as CacheInfo | undefined;
+}
+
+/**
+ * In-process LRU cache of tool results with TTL and stale-while-revalidate
+ * Concurrent calls for the same key share one handler call. It runs on a
+ * signal of its own, so a caller that cancels stops waiting without failing
+ * the others; the call is only cancelled when every caller has.
+ */
+export class ToolResultCache {
+  private readonly entries: LruCache<CacheEntry>;
+  private readonly pending = new Map<string, PendingCall>();
+  private readonly logger: FastifyBaseLogger;
+  private readonly serverMetrics: ServerMetrics;
+  private readonly now: () => number;
+
+  constructor(options: ToolResultCacheOptions) {
+    this.entries = new LruCache(options.maxEntries);
+    this.logger = options.logger;
+    this.serverMetrics = options.metrics ?? metrics;
+    this.now = options.now ?? Date.now;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Middleware serving results of tools that declare a cache policy
+   * Callers that set `bypassCache` get a fresh result from a call of their
+   * own rather than one already in flight, and it replaces the cached one
+   */
+  middleware(): ToolMiddleware {
+    return async (call, next) => {
+      const policy = call.tool.cache;
+      if (!policy) {
+        return next();
+      }
+
+      const key = this.keyFor(call.tool.name, policy, call.args);
+      const record = (status: CacheStatus) =>
+        this.serverMetrics.toolCacheLookups.inc({
+          tool: call.tool.name,
+          status,
+        });
+
+      if (call.context.bypassCache) {
+        record('bypass');
+        return this.load(key, call, next, call.context.signal, true);
+      }
+
+      const entry = this.entries.get(key);
+      const age = entry ? this.now() - entry.storedAt : Infinity;
+      if (entry && age < policy.ttl) {
+        record('hit');
+        return this.annotate(entry, 'hit');
+      }
+      if (entry && age < policy.ttl + (policy.staleWhileRevalidate ?? 0)) {
+        record('stale');
+        // Nobody waits for the refresh, so nothing cancels it
+        this.load(key, call, next).catch(error =>
+          this.logger.warn(
+            {
+              tool: call.tool.name,
+              error: error instanceof Error ? error.message : error,
+            },
+            'Failed to refresh cached tool result'
+          )
+        );
+        return this.annotate(entry, 'stale');
+      }
+
+      record('miss');
+      return this.load(key, call, next, call.context.signal);
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private keyFor(
+    tool: string,
+    policy: ToolCachePolicy,
+    args: Record<string, unknown>
+  ): string {
+    const normalized = policy.key ? policy.key(args) : args;
+    return `${tool}:${createHash('sha256')
+      .update(stableStringify(normalized))
+      .digest('base64url')}`;
+  }
+
+  /**
+   * Calls the handler once per key at a time and caches successful results
+   * Error results are never cached, so failures are retried on the next call
+   * @param signal - Stops this caller's wait when aborted; callers without
+   * one keep the shared call alive until it settles
+   * @param fresh - Starts a new call even when one is in flight; later
+   * callers join the new one
+   */
+  private load(
+    key: string,
+    call: ToolCall,
+    next: (call?: ToolCall) => Promise<CallToolResult>,
+    signal?: AbortSignal,
+    fresh = false
+  ): Promise<CallToolResult> {
+    const cancelled = () =>
+      new CancelledError(`Tool ${call.tool.name} was cancelled by the client`);
+    if (signal?.aborted) {
+      return Promise.reject(cancelled());
+    }
+
+    const shared =
+      (fresh ? undefined : this.pending.get(key)) ??
+      this.start(key, call, next);
+    shared.waiters += 1;
+    if (!signal) {
+      return shared.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const leave = () => {
+        shared.waiters -= 1;
+        if (shared.waiters === 0) {
+          // Later callers start afresh instead of joining a cancelled call
+          this.forget(key, shared);
+          shared.controller.abort(cancelled());
+        }
+        reject(cancelled());
+      };
+      signal.addEventListener('abort', leave, { once: true });
+      shared.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', leave));
+    });
+  }
+
+  private start(
+    key: string,
+    call: ToolCall,
+    next: (call?: ToolCall) => Promise<CallToolResult>
+  ): PendingCall {
+    const controller = new AbortController();
+    const pending: PendingCall = {
+      promise: next({
+        ...call,
+        context: { ...call.context, signal: controller.signal },
+      })
+        .then(result => {
+          if (!result.isError) {
+            this.entries.set(key, { result, storedAt: this.now() });
+          }
+          return result;
+        })
+        .finally(() => this.forget(key, pending)),
+      controller,
+      waiters: 0,
+    };
+    this.pending.set(key, pending);
+    return pending;
+  }
+
+  private forget(key: string, pending: PendingCall): void {
+    if (this.pending.get(key) === pending) {
+      this.pending.delete(key);
+    }
+  }
+
+  private annotate(
+    { result, storedAt }: CacheEntry,
+    status: CacheInfo['status']
+  ): CallToolResult {
+    const cache: CacheInfo = {
+      status,
+      age: Math.floor((this.now() - storedAt) / 1000),
+    };
+    return { ...result, _meta: { ...result._meta, cache } };
+  }
+}
+
+/**
+ * Creates the tool result cache, or undefined when caching is disabled
+ */
+export function createToolCache(
+  config: CacheConfig,
+  logger: FastifyBaseLogger
+): ToolResultCache | undefined {
+  return config.enabled
+    ? new ToolResultCache({ maxEntries: config.maxEntries, logger })
+    : undefined;
+}
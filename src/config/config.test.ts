@@ -0,0 +1,190 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigError, loadConfig } from './config.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'config-test-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/** Writes a config file into the test directory and returns its path */
+async function configFile(name: string, contents: string) {
+  const file = join(dir, name);
+  await writeFile(file, contents);
+  return file;
+}
+
+async function configError(...args: Parameters<typeof loadConfig>) {
+  const error = await loadConfig(...args).catch((reason: unknown) => reason);
+  expect(error).toBeInstanceOf(ConfigError);
+  return error as ConfigError;
+}
+
+describe('loadConfig', () => {
+  it('applies the defaults', async () => {
+    const config = await loadConfig({ argv: [], env: {} });
+
+    expect(config.server).toEqual({
+      port: 3000,
+      host: '0.0.0.0',
+      env: 'development',
+    });
+    expect(config.logging).toEqual({
+      level: 'info',
+      pretty: true,
+      enabled: true,
+    });
+  });
+
+  it('layers file < environment < flags', async () => {
+    const file = await configFile(
+      'config.yaml',
+      [
+        'server:',
+        '  port: 4000',
+        '  host: 127.0.0.1',
+        'logging:',
+        '  level: warn',
+      ].join('\n')
+    );
+
+    const fromFile = await loadConfig({ argv: ['-c', file], env: {} });
+    expect(fromFile.server).toMatchObject({ port: 4000, host: '127.0.0.1' });
+    expect(fromFile.logging.level).toBe('warn');
+
+    const fromEnv = await loadConfig({
+      argv: ['--config', file],
+      env: { PORT: '5000', LOG_LEVEL: 'debug' },
+    });
+    expect(fromEnv.server).toMatchObject({ port: 5000, host: '127.0.0.1' });
+    expect(fromEnv.logging.level).toBe('debug');
+
+    const fromFlags = await loadConfig({
+      argv: ['--config', file, '--port', '6000'],
+      env: { PORT: '5000', LOG_LEVEL: 'debug' },
+    });
+    expect(fromFlags.server.port).toBe(6000);
+    expect(fromFlags.logging.level).toBe('debug');
+  });
+
+  it('reads the file named by MCP_CONFIG_FILE', async () => {
+    const file = await configFile(
+      'config.json',
+      JSON.stringify({ cache: { maxEntries: 50 } })
+    );
+
+    const config = await loadConfig({
+      argv: [],
+      env: { MCP_CONFIG_FILE: file },
+    });
+    expect(config.cache.maxEntries).toBe(50);
+  });
+
+  it('sets any path with --set', async () => {
+    const config = await loadConfig({
+      argv: [
+        '--set',
+        'rateLimit.dailyQuota=500',
+        '--set',
+        'auth.apiKeys=a,b',
+        '--set',
+        'auth.enabled=true',
+      ],
+      env: { RATE_LIMIT_DAILY_QUOTA: '100' },
+    });
+
+    expect(config.rateLimit.dailyQuota).toBe(500);
+    expect(config.auth.enabled).toBe(true);
+  });
+
+  it('treats empty environment variables as unset', async () => {
+    const config = await loadConfig({ argv: [], env: { PORT: '' } });
+    expect(config.server.port).toBe(3000);
+  });
+
+  it('names the source of every invalid setting', async () => {
+    const file = await configFile(
+      'config.json',
+      JSON.stringify({ logging: { level: 'loud' } })
+    );
+
+    const error = await configError({
+      argv: ['-c', file, '--set', 'cache.maxEntries=-1'],
+      env: { PORT: 'eighty' },
+    });
+    expect(error.issues).toHaveLength(3);
+    expect(error.issues).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(
+          /^server\.port: .* \(from environment variable PORT\)$/
+        ),
+        expect.stringMatching(
+          new RegExp(`^logging\\.level: .* \\(from config file ${file}\\)$`)
+        ),
+        expect.stringMatching(
+          /^cache\.maxEntries: .* \(from flag --set cache\.maxEntries\)$/
+        ),
+      ])
+    );
+    expect(error.message).toMatch(/^Invalid configuration:\n {2}- /);
+  });
+
+  it('rejects unknown keys', async () => {
+    const error = await configError({
+      argv: ['--set', 'server.prot=80'],
+      env: {},
+    });
+    expect(error.issues).toEqual([
+      expect.stringContaining("Unrecognized key(s) in object: 'prot'"),
+    ]);
+  });
+
+  it('checks settings that depend on each other', async () => {
+    const error = await configError({
+      argv: ['--weather-provider', 'http', '--auth', 'true'],
+      env: {},
+    });
+    expect(error.issues).toEqual([
+      'weather.apiKey: Required when weather.provider is "http"',
+      'auth: Authentication is enabled but neither jwks nor apiKeys is set',
+    ]);
+  });
+
+  it('reports unknown flags with the usage', async () => {
+    const error = await configError({ argv: ['--prot', '80'], env: {} });
+    expect(error.message).toContain("Unknown option '--prot'");
+    expect(error.message).toContain('Usage: server [options]');
+  });
+
+  it('rejects malformed --set assignments', async () => {
+    const error = await configError({ argv: ['--set', '=80'], env: {} });
+    expect(error.message).toBe('Invalid --set "=80"; use --set path=value');
+  });
+
+  it('reports unreadable and malformed config files', async () => {
+    const missing = await configError({
+      argv: ['-c', join(dir, 'missing.json')],
+      env: {},
+    });
+    expect(missing.message).toMatch(/^Cannot read config file /);
+
+    const malformed = await configError({
+      argv: ['-c', await configFile('broken.json', '{"server":')],
+      env: {},
+    });
+    expect(malformed.message).toMatch(/^Cannot parse config file /);
+
+    const notAnObject = await configError({
+      argv: ['-c', await configFile('list.yaml', '- 1\n- 2\n')],
+      env: {},
+    });
+    expect(notAnObject.message).toMatch(/must contain an object$/);
+  });
+});
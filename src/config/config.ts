@@ -0,0 +1,530 @@
+import { readFile } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { DEFAULT_REDACTION_RULES } from '../audit/redactor.js';
+import { SERVER_CONFIG } from './constants.js';
+
+/**
+ * Runtime configuration, merged from (lowest to highest precedence)
+ * schema defaults, an optional JSON/YAML file, environment variables and
+ * command line flags, then validated as a whole
+ */
+
+// Environment variables and flags arrive as strings; files may use either
+const booleanish = z.preprocess(
+  value => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean()
+);
+
+const list = <Item extends z.ZodTypeAny>(item: Item) =>
+  z.preprocess(
+    value =>
+      typeof value === 'string'
+        ? value
+            .split(',')
+            .map(item => item.trim())
+            .filter(Boolean)
+        : value,
+    z.array(item)
+  );
+
+function isRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const tokenBucket = (capacity: number, refillPerSecond: number) =>
+  z
+    .object({
+      capacity: z.coerce.number().int().positive().default(capacity),
+      refillPerSecond: z.coerce.number().positive().default(refillPerSecond),
+    })
+    .strict()
+    .default({});
+
+export const ConfigSchema = z
+  .object({
+    server: z
+      .object({
+        port: z.coerce.number().int().min(0).max(65535).default(3000),
+        host: z.string().min(1).default('0.0.0.0'),
+        env: z.string().default('development'),
+      })
+      .strict()
+      .default({}),
+    mcp: z
+      .object({
+        // Serve a single client over stdin/stdout instead of HTTP
+        stdio: booleanish.default(false),
+        sessionTimeout: z.coerce.number().int().positive().default(300000),
+        // How often subscribed resources are re-read to detect changes (ms)
+        resourcePollInterval: z.coerce.number().int().positive().default(60000),
+        // Tool time limit unless the tool declares its own (ms, 0 = none)
+        toolTimeout: z.coerce.number().int().min(0).default(60000),
+        // Also serve the deprecated HTTP+SSE transport (GET /sse, POST /messages)
+        legacySse: booleanish.default(true),
+        // Keepalive comment interval on legacy SSE streams (ms, 0 = none)
+        sseKeepaliveInterval: z.coerce.number().int().min(0).default(30000),
+        // Serve MCP over a WebSocket at /ws
+        websocket: booleanish.default(true),
+        // Keepalive ping interval for WebSocket connections (ms, 0 = none)
+        websocketPingInterval: z.coerce.number().int().min(0).default(30000),
+        // Bytes a slow WebSocket client may fall behind before it is dropped
+        websocketMaxBuffer: z.coerce
+          .number()
+          .int()
+          .positive()
+          .default(4 * 1024 * 1024),
+      })
+      .strict()
+      .default({}),
+    logging: z
+      .object({
+        level: z
+          .enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'])
+          .default('info'),
+        // Defaults to on in development
+        pretty: booleanish.optional(),
+        enabled: booleanish.default(true),
+      })
+      .strict()
+      .default({}),
+    cors: z
+      .object({
+        // true reflects the request origin; a list allows exactly those
+        origin: z
+          .preprocess(
+            value =>
+              value === 'true'
+                ? true
+                : value === 'false'
+                  ? false
+                  : typeof value === 'string' && value.includes(',')
+                    ? value.split(',').map(item => item.trim())
+                    : value,
+            z.union([z.boolean(), z.string(), z.array(z.string())])
+          )
+          .default(true),
+        credentials: booleanish.default(false),
+      })
+      .strict()
+      .default({}),
+    weather: z
+      .object({
+        // 'simulated' (deterministic, offline) or 'http' (calls baseUrl)
+        provider: z.enum(['simulated', 'http']).default('simulated'),
+        apiKey: z.string().default(''),
+        baseUrl: z.string().url().default('https://api.weatherapi.com/v1'),
+        timeout: z.coerce.number().int().positive().default(10000),
+        // Artificial delay of the simulated provider, in milliseconds
+        simulatedLatency: z.coerce.number().int().min(0).default(100),
+        // Decimal places coordinates are rounded to; 2 is about 1 km
+        coordinatePrecision: z.coerce.number().int().min(0).max(6).default(2),
+      })
+      .strict()
+      .default({}),
+    auth: z
+      .object({
+        // Authentication for the HTTP transport; stdio is never authenticated
+        enabled: booleanish.default(false),
+        // JWKS for verifying JWT access tokens: a JSON file path or http(s) URL
+        jwks: z.string().default(''),
+        issuer: z.string().default(''),
+        audience: z.string().default(''),
+        // Service account keys as comma-separated name:key pairs
+        apiKeys: z.string().default(''),
+        // Public URL of the MCP endpoint, advertised as the protected resource
+        resourceUrl: z.string().default(''),
+        // Authorization servers advertised to clients (defaults to the issuer)
+        authorizationServers: list(z.string().url()).default([]),
+        // JSON file mapping roles and API keys to tool patterns
+        policyFile: z.string().default(''),
+      })
+      .strict()
+      .default({}),
+    metrics: z
+      .object({
+        // Serve Prometheus metrics at /metrics (unauthenticated)
+        enabled: booleanish.default(true),
+      })
+      .strict()
+      .default({}),
+    tracing: z
+      .object({
+        // Export OpenTelemetry spans over OTLP/HTTP
+        enabled: booleanish.default(false),
+        endpoint: z.string().url().default('http://localhost:4318/v1/traces'),
+        serviceName: z.string().min(1).default(SERVER_CONFIG.NAME),
+      })
+      .strict()
+      .default({}),
+    audit: z
+      .object({
+        // Record every tool call to a rotating JSONL file
+        enabled: booleanish.default(true),
+        file: z.string().min(1).default('logs/audit.jsonl'),
+        maxBytes: z.coerce
+          .number()
+          .int()
+          .positive()
+          .default(10 * 1024 * 1024),
+        // Rotated files kept besides the active one
+        maxFiles: z.coerce.number().int().min(1).default(5),
+        redact: z
+          .object({
+            // Argument names whose values are never written
+            keys: list(z.string().min(1)).default([
+              ...DEFAULT_REDACTION_RULES.keys,
+            ]),
+            // Regular expressions masked inside string values
+            patterns: list(
+              z.string().refine(isRegExp, 'Invalid regular expression')
+            ).default([...DEFAULT_REDACTION_RULES.patterns]),
+            maxValueLength: z.coerce
+              .number()
+              .int()
+              .positive()
+              .default(DEFAULT_REDACTION_RULES.maxValueLength),
+          })
+          .strict()
+          .default({}),
+      })
+      .strict()
+      .default({}),
+    rateLimit: z
+      .object({
+        enabled: booleanish.default(true),
+        // HTTP requests per client (API key or token subject, otherwise IP)
+        client: tokenBucket(120, 2),
+        // HTTP requests per MCP session
+        session: tokenBucket(60, 1),
+        // Calls per client per tool, unless the tool declares its own limit
+        tool: tokenBucket(30, 0.5),
+        // Tool calls per client per UTC day across all tools (0 = unlimited)
+        dailyQuota: z.coerce.number().int().min(0).default(10000),
+      })
+      .strict()
+      .default({}),
+    cache: z
+      .object({
+        // Cache results of tools that declare a cache policy
+        enabled: booleanish.default(true),
+        // Least recently used results are evicted beyond this
+        maxEntries: z.coerce.number().int().positive().default(1000),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    if (config.weather.provider === 'http' && !config.weather.apiKey) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['weather', 'apiKey'],
+        message: 'Required when weather.provider is "http"',
+      });
+    }
+    if (config.auth.enabled && !config.auth.jwks && !config.auth.apiKeys) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['auth'],
+        message:
+          'Authentication is enabled but neither jwks nor apiKeys is set',
+      });
+    }
+  })
+  .transform(config => ({
+    ...config,
+    logging: {
+      ...config.logging,
+      pretty: config.logging.pretty ?? config.server.env === 'development',
+    },
+  }));
+
+export type AppConfig = z.output<typeof ConfigSchema>;
+
+/** Environment variables and the config paths they set */
+const ENV_VARS: Record<string, string> = {
+  PORT: 'server.port',
+  HOST: 'server.host',
+  NODE_ENV: 'server.env',
+  MCP_STDIO: 'mcp.stdio',
+  MCP_SESSION_TIMEOUT: 'mcp.sessionTimeout',
+  MCP_RESOURCE_POLL_INTERVAL: 'mcp.resourcePollInterval',
+  MCP_TOOL_TIMEOUT: 'mcp.toolTimeout',
+  MCP_LEGACY_SSE: 'mcp.legacySse',
+  MCP_SSE_KEEPALIVE_INTERVAL: 'mcp.sseKeepaliveInterval',
+  MCP_WEBSOCKET: 'mcp.websocket',
+  MCP_WEBSOCKET_PING_INTERVAL: 'mcp.websocketPingInterval',
+  MCP_WEBSOCKET_MAX_BUFFER: 'mcp.websocketMaxBuffer',
+  LOG_LEVEL: 'logging.level',
+  LOG_PRETTY: 'logging.pretty',
+  LOG_ENABLED: 'logging.enabled',
+  CORS_ORIGIN: 'cors.origin',
+  CORS_CREDENTIALS: 'cors.credentials',
+  WEATHER_PROVIDER: 'weather.provider',
+  WEATHER_API_KEY: 'weather.apiKey',
+  WEATHER_BASE_URL: 'weather.baseUrl',
+  WEATHER_TIMEOUT: 'weather.timeout',
+  WEATHER_SIMULATED_LATENCY: 'weather.simulatedLatency',
+  WEATHER_COORDINATE_PRECISION: 'weather.coordinatePrecision',
+  AUTH_ENABLED: 'auth.enabled',
+  AUTH_JWKS: 'auth.jwks',
+  AUTH_ISSUER: 'auth.issuer',
+  AUTH_AUDIENCE: 'auth.audience',
+  AUTH_API_KEYS: 'auth.apiKeys',
+  AUTH_RESOURCE_URL: 'auth.resourceUrl',
+  AUTH_AUTHORIZATION_SERVERS: 'auth.authorizationServers',
+  AUTH_POLICY_FILE: 'auth.policyFile',
+  METRICS_ENABLED: 'metrics.enabled',
+  TRACING_ENABLED: 'tracing.enabled',
+  OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: 'tracing.endpoint',
+  OTEL_SERVICE_NAME: 'tracing.serviceName',
+  AUDIT_ENABLED: 'audit.enabled',
+  AUDIT_FILE: 'audit.file',
+  AUDIT_MAX_BYTES: 'audit.maxBytes',
+  AUDIT_MAX_FILES: 'audit.maxFiles',
+  AUDIT_REDACT_KEYS: 'audit.redact.keys',
+  RATE_LIMIT_ENABLED: 'rateLimit.enabled',
+  RATE_LIMIT_CLIENT_CAPACITY: 'rateLimit.client.capacity',
+  RATE_LIMIT_CLIENT_REFILL: 'rateLimit.client.refillPerSecond',
+  RATE_LIMIT_SESSION_CAPACITY: 'rateLimit.session.capacity',
+  RATE_LIMIT_SESSION_REFILL: 'rateLimit.session.refillPerSecond',
+  RATE_LIMIT_TOOL_CAPACITY: 'rateLimit.tool.capacity',
+  RATE_LIMIT_TOOL_REFILL: 'rateLimit.tool.refillPerSecond',
+  RATE_LIMIT_DAILY_QUOTA: 'rateLimit.dailyQuota',
+  CACHE_ENABLED: 'cache.enabled',
+  CACHE_MAX_ENTRIES: 'cache.maxEntries',
+};
+
+/** Command line flags and the config paths they set */
+const CLI_FLAGS: Record<string, string> = {
+  port: 'server.port',
+  host: 'server.host',
+  stdio: 'mcp.stdio',
+  'log-level': 'logging.level',
+  'log-pretty': 'logging.pretty',
+  'cors-origin': 'cors.origin',
+  'weather-provider': 'weather.provider',
+  auth: 'auth.enabled',
+  'policy-file': 'auth.policyFile',
+  'rate-limit': 'rateLimit.enabled',
+};
+
+const BOOLEAN_FLAGS = new Set(['stdio']);
+
+export const CONFIG_USAGE = `Usage: server [options]
+
+Options:
+  -c, --config <file>         JSON or YAML config file (or MCP_CONFIG_FILE)
+  -p, --port <port>           HTTP port
+      --host <host>           HTTP host
+      --stdio                 Serve MCP over stdin/stdout instead of HTTP
+      --log-level <level>     fatal, error, warn, info, debug, trace or silent
+      --log-pretty <bool>     Human-readable logs (default in development)
+      --cors-origin <origin>  true, false, an origin or a comma-separated list
+      --weather-provider <p>  simulated or http
+      --auth <bool>           Require authentication on the HTTP transport
+      --policy-file <file>    Tool access policy
+      --rate-limit <bool>     Enable rate limits and quotas
+      --set <path=value>      Set any config value, e.g. rateLimit.dailyQuota=500
+                              (repeatable)
+
+Precedence: flags > environment variables > config file > defaults`;
+
+/**
+ * Raised when configuration cannot be read or does not validate
+ * The message lists every problem, one per line, ready to print
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public issues: string[] = []
+  ) {
+    super(
+      issues.length > 0
+        ? `${message}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`
+        : message
+    );
+    this.name = 'ConfigError';
+  }
+}
+
+type ConfigLayer = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is ConfigLayer {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasPath(source: ConfigLayer, path: string): boolean {
+  let node: unknown = source;
+  for (const key of path.split('.')) {
+    if (!isPlainObject(node) || !(key in node)) {
+      return false;
+    }
+    node = node[key];
+  }
+  return true;
+}
+
+function setPath(target: ConfigLayer, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const last = keys.pop() as string;
+  let node = target;
+  for (const key of keys) {
+    if (!isPlainObject(node[key])) {
+      node[key] = {};
+    }
+    node = node[key] as ConfigLayer;
+  }
+  node[last] = value;
+}
+
+/**
+ * Merges layers key by key; later layers win and arrays are replaced
+ */
+function mergeLayers(...layers: ConfigLayer[]): ConfigLayer {
+  const merged: ConfigLayer = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      merged[key] =
+        isPlainObject(value) && isPlainObject(merged[key])
+          ? mergeLayers(merged[key] as ConfigLayer, value)
+          : value;
+    }
+  }
+  return merged;
+}
+
+async function readConfigFile(file: string): Promise<ConfigLayer> {
+  let contents: string;
+  try {
+    contents = await readFile(resolve(file), 'utf8');
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot read config file ${file}: ${(error as Error).message}`
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = ['.yaml', '.yml'].includes(extname(file).toLowerCase())
+      ? parseYaml(contents)
+      : JSON.parse(contents);
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot parse config file ${file}: ${(error as Error).message}`
+    );
+  }
+
+  // An empty YAML document is an empty config
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isPlainObject(parsed)) {
+    throw new ConfigError(`Config file ${file} must contain an object`);
+  }
+  return parsed;
+}
+
+type Flags = Record<string, string | boolean | string[] | undefined>;
+
+function parseFlags(argv: string[]): Flags {
+  try {
+    return parseArgs({
+      args: argv,
+      strict: true,
+      options: {
+        config: { type: 'string', short: 'c' },
+        port: { type: 'string', short: 'p' },
+        set: { type: 'string', multiple: true },
+        ...Object.fromEntries(
+          Object.keys(CLI_FLAGS)
+            .filter(flag => flag !== 'port')
+            .map(flag => [
+              flag,
+              { type: BOOLEAN_FLAGS.has(flag) ? 'boolean' : 'string' } as const,
+            ])
+        ),
+      },
+    }).values;
+  } catch (error) {
+    throw new ConfigError(`${(error as Error).message}\n\n${CONFIG_USAGE}`);
+  }
+}
+
+export interface LoadConfigOptions {
+  /** Command line arguments, without the node executable and script */
+  argv?: string[] | undefined;
+  env?: Record<string, string | undefined> | undefined;
+}
+
+/**
+ * Loads and validates the configuration
+ * @throws ConfigError listing every invalid setting and where it came from
+ */
+export async function loadConfig({
+  argv = process.argv.slice(2),
+  env = process.env,
+}: LoadConfigOptions = {}): Promise<AppConfig> {
+  const flags = parseFlags(argv);
+  // Where each explicitly set path came from, to point at the culprit
+  const sources = new Map<string, string>();
+
+  const configFile =
+    (flags['config'] as string | undefined) ?? env['MCP_CONFIG_FILE'];
+  const fileLayer = configFile ? await readConfigFile(configFile) : {};
+
+  const envLayer: ConfigLayer = {};
+  for (const [name, path] of Object.entries(ENV_VARS)) {
+    const value = env[name];
+    // Empty values, as left by an env template, count as unset
+    if (value !== undefined && value !== '') {
+      setPath(envLayer, path, value);
+      sources.set(path, `environment variable ${name}`);
+    }
+  }
+
+  const flagLayer: ConfigLayer = {};
+  for (const [flag, path] of Object.entries(CLI_FLAGS)) {
+    const value = flags[flag];
+    if (value !== undefined) {
+      setPath(flagLayer, path, value);
+      sources.set(path, `flag --${flag}`);
+    }
+  }
+  for (const assignment of (flags['set'] as string[] | undefined) ?? []) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      throw new ConfigError(
+        `Invalid --set "${assignment}"; use --set path=value`
+      );
+    }
+    const path = assignment.slice(0, separator);
+    setPath(flagLayer, path, assignment.slice(separator + 1));
+    sources.set(path, `flag --set ${path}`);
+  }
+
+  const result = ConfigSchema.safeParse(
+    mergeLayers(fileLayer, envLayer, flagLayer)
+  );
+  if (!result.success) {
+    throw new ConfigError(
+      'Invalid configuration',
+      result.error.errors.map(err => {
+        const path = err.path.join('.');
+        const source =
+          sources.get(path) ??
+          (hasPath(fileLayer, path) ? `config file ${configFile}` : undefined);
+        return `${path}: ${err.message}${source ? ` (from ${source})` : ''}`;
+      })
+    );
+  }
+  return result.data;
+}
@@ -1,50 +1,22 @@
+// Runtime settings (port, logging, auth, ...) live in config.ts
 export const SERVER_CONFIG = {
   NAME: 'ts-template-mcp-server',
   VERSION: '1.0.0',
-  PORT: parseInt(process.env['PORT'] || '3000', 10),
-  HOST: process.env['HOST'] || '0.0.0.0',
-  NODE_ENV: process.env['NODE_ENV'] || 'development',
-} as const;
-
-export const MCP_CONFIG = {
-  STDIO_MODE: process.env['MCP_STDIO'] === 'true',
-  SESSION_TIMEOUT: parseInt(process.env['MCP_SESSION_TIMEOUT'] || '300000', 10),
-  DEFAULT_SESSION_ID: 'default-session',
-} as const;
-
-export const LOGGING_CONFIG = {
-  LEVEL: process.env['LOG_LEVEL'] || 'info',
-  PRETTY: process.env['LOG_PRETTY'] === 'true',
-  ENABLED: process.env['NODE_ENV'] !== 'test',
-} as const;
-
-export const CORS_CONFIG = {
-  ORIGIN:
-    process.env['CORS_ORIGIN'] === 'true'
-      ? true
-      : process.env['CORS_ORIGIN'] || '*',
-  CREDENTIALS: process.env['CORS_CREDENTIALS'] === 'true',
-  ALLOWED_HEADERS: [
-    'Content-Type',
-    'Authorization',
-    'Mcp-Session-Id',
-    'Cache-Control',
-    'Accept',
-    'X-Requested-With',
-  ],
-  ALLOWED_METHODS: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'HEAD', 'PATCH'],
-} as const;
-
-export const WEATHER_CONFIG = {
-  API_KEY: process.env['WEATHER_API_KEY'] || '',
-  BASE_URL: process.env['WEATHER_BASE_URL'] || 'https://api.weatherapi.com/v1',
-  TIMEOUT: 10000,
 } as const;
 
 export const API_ENDPOINTS = {
   MCP: '/mcp',
+  SSE: '/sse',
+  MESSAGES: '/messages',
+  WS: '/ws',
   HEALTH: '/health',
   INFO: '/info',
+  METRICS: '/metrics',
+  OPENAPI: '/openapi.json',
+  DOCS: '/docs',
+  TOOLS: '/tools',
+  TOOL_CALL: '/tools/:name',
+  AUDIT: '/admin/audit',
   HELLO: '/hello/:name',
   WEATHER_FORECAST: '/weather/forecast',
   WEATHER_ALERTS: '/weather/alerts/:state',
@@ -53,17 +25,37 @@ export const API_ENDPOINTS = {
 export const MCP_URIS = {
   SERVER_INFO: 'mcp://server-info',
   HELLO_MESSAGE: 'mcp://hello-message',
+  WEATHER_FORECAST: 'weather://forecast/{lat}/{lng}',
+  WEATHER_ALERTS: 'weather://alerts/{state}',
 } as const;
 
 export const ERROR_MESSAGES = {
   INVALID_SESSION: 'Invalid or missing session ID',
+  SESSION_NOT_FOUND: 'Session not found or expired',
+  SESSION_REQUIRED:
+    'Bad Request: No valid session ID provided; send an initialize request first',
+  SSE_SESSION_REQUIRED:
+    'Bad Request: No sessionId query parameter; open an event stream first',
   TOOL_NOT_FOUND: 'Tool not found',
+  TOOL_DISABLED: 'Tool disabled for this session',
   RESOURCE_NOT_FOUND: 'Resource not found',
   VALIDATION_ERROR: 'Validation error',
   INTERNAL_ERROR: 'Internal server error',
   MCP_ERROR: 'MCP protocol error',
 } as const;
 
+// Implementation-defined JSON-RPC server errors (-32000 to -32099)
+// NOT_FOUND matches the code the MCP specification uses for unknown resources
+export const MCP_ERROR_CODES = {
+  UNAUTHORIZED: -32001,
+  NOT_FOUND: -32002,
+  FORBIDDEN: -32003,
+  UPSTREAM_ERROR: -32010,
+  TIMEOUT: -32011,
+  CANCELLED: -32012,
+  RATE_LIMITED: -32029,
+} as const;
+
 export const SUCCESS_MESSAGES = {
   SERVER_STARTED: 'MCP Server ready at',
   SESSION_CREATED: 'MCP session created',
@@ -85,10 +77,15 @@ export const HTTP_STATUS = {
 } as const;
 
 export const MCP_METHODS = {
+  INITIALIZE: 'initialize',
+  PING: 'ping',
   TOOLS_LIST: 'tools/list',
   TOOLS_CALL: 'tools/call',
   RESOURCES_LIST: 'resources/list',
   RESOURCES_READ: 'resources/read',
+  RESOURCES_TEMPLATES_LIST: 'resources/templates/list',
+  RESOURCES_SUBSCRIBE: 'resources/subscribe',
+  RESOURCES_UNSUBSCRIBE: 'resources/unsubscribe',
   PROMPTS_LIST: 'prompts/list',
   PROMPTS_GET: 'prompts/get',
 } as const;
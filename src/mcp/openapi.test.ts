@@ -0,0 +1,128 @@
+import Fastify from 'fastify';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AccessPolicy } from '../auth/policy.js';
+import helloPlugin from '../plugins/helloPlugin.js';
+import mathPlugin from '../plugins/mathPlugin.js';
+import { registerOpenApi } from './openapi.js';
+import { registerPluginRoutes } from './pluginLoader.js';
+import toolBridge, { createRouteToolCaller } from './restBridge.js';
+import { collectTools } from './toolExecutor.js';
+
+interface OpenApiDocument {
+  openapi: string;
+  paths: Record<string, Record<string, Record<string, unknown>>>;
+}
+
+let fastify: ReturnType<typeof Fastify> | undefined;
+
+/** Serves the document for the bridge and the hello routes */
+async function serve() {
+  const server = Fastify();
+  fastify = server;
+  server.decorateRequest('principal', undefined);
+
+  const tools = collectTools([helloPlugin, mathPlugin]);
+  const guards = { policy: new AccessPolicy() };
+  await registerOpenApi(server, { tools });
+  await server.register(toolBridge, { tools, guards });
+  await registerPluginRoutes(server, [helloPlugin], {
+    callTool: createRouteToolCaller(guards),
+  });
+
+  const response = await server.inject({
+    method: 'GET',
+    url: '/openapi.json',
+  });
+  expect(response.statusCode).toBe(200);
+  return { server, document: response.json<OpenApiDocument>() };
+}
+
+afterEach(async () => {
+  await fastify?.close();
+  fastify = undefined;
+});
+
+describe('OpenAPI document', () => {
+  it('documents every tool as its own operation', async () => {
+    const { document } = await serve();
+
+    expect(document.openapi).toBe('3.0.3');
+    expect(Object.keys(document.paths)).toEqual(
+      expect.arrayContaining([
+        '/tools',
+        '/tools/sayHello',
+        '/tools/calculate',
+        '/tools/evaluate',
+      ])
+    );
+    // The parameterized bridge route itself stays hidden
+    expect(document.paths).not.toHaveProperty('/tools/{name}');
+
+    const calculate = document.paths['/tools/calculate']?.['post'];
+    expect(calculate).toMatchObject({
+      operationId: 'callTool_calculate',
+      summary: 'Calculate',
+      requestBody: {
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['a', 'b', 'operation'],
+              properties: {
+                operation: {
+                  enum: ['add', 'subtract', 'multiply', 'divide'],
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+    expect(Object.keys(calculate?.['responses'] as object)).toEqual([
+      '200',
+      '400',
+      '403',
+      '429',
+      'default',
+    ]);
+  });
+
+  it('describes the structured content of tools with an output schema', async () => {
+    const { document } = await serve();
+
+    const responses = document.paths['/tools/calculate']?.['post']?.[
+      'responses'
+    ] as Record<string, unknown>;
+    expect(responses['200']).toMatchObject({
+      content: {
+        'application/json': {
+          schema: {
+            properties: {
+              structuredContent: {
+                type: 'object',
+                properties: { result: { type: 'number' } },
+              },
+            },
+          },
+        },
+      },
+    });
+  });
+
+  it('documents plugin routes from their schemas', async () => {
+    const { document } = await serve();
+
+    expect(document.paths['/hello/{name}']?.['get']).toMatchObject({
+      tags: ['hello'],
+      parameters: [expect.objectContaining({ name: 'name', in: 'path' })],
+    });
+  });
+
+  it('serves the explorer', async () => {
+    const { server } = await serve();
+
+    const response = await server.inject({ method: 'GET', url: '/docs/' });
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('text/html');
+  });
+});
@@ -0,0 +1,122 @@
+import type { FastifyInstance } from 'fastify';
+import swagger from '@fastify/swagger';
+import swaggerUi from '@fastify/swagger-ui';
+import { z } from 'zod';
+import { CallToolResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { API_ENDPOINTS, SERVER_CONFIG } from '../config/constants.js';
+import { toJsonSchema } from '../schemas/jsonSchema.js';
+import { ErrorResponseSchema } from '../schemas/routeSchemas.js';
+import type { ToolRegistry } from './toolExecutor.js';
+
+export interface OpenApiOptions {
+  tools: ToolRegistry;
+}
+
+/**
+ * Documents each tool as its own `POST /tools/{name}` operation
+ * The bridge serves them through one parameterized route, so these paths are
+ * added to the generated document rather than collected from Fastify
+ */
+function buildToolPaths(tools: ToolRegistry): Record<string, unknown> {
+  const callToolResult = toJsonSchema(CallToolResultSchema);
+  const errorResponse = toJsonSchema(ErrorResponseSchema);
+
+  return Object.fromEntries(
+    [...tools.values()].map(tool => [
+      API_ENDPOINTS.TOOL_CALL.replace(':name', tool.name),
+      {
+        post: {
+          tags: ['tools'],
+          operationId: `callTool_${tool.name}`,
+          summary: tool.title ?? tool.name,
+          description: tool.description,
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: toJsonSchema(z.object(tool.inputSchema)),
+              },
+            },
+          },
+          responses: {
+            200: {
+              description:
+                'Tool result, identical to the MCP tools/call result',
+              content: {
+                'application/json': {
+                  schema: tool.outputSchema
+                    ? toJsonSchema(
+                        CallToolResultSchema.extend({
+                          structuredContent: z.object(tool.outputSchema),
+                        })
+                      )
+                    : callToolResult,
+                },
+              },
+            },
+            400: {
+              description: 'Arguments do not match the tool input schema',
+              content: { 'application/json': { schema: errorResponse } },
+            },
+            403: {
+              description: 'The access policy does not allow this tool',
+              content: { 'application/json': { schema: errorResponse } },
+            },
+            429: {
+              description: 'Rate limit or daily quota exceeded',
+              content: { 'application/json': { schema: errorResponse } },
+            },
+            default: {
+              description: 'The tool failed; the result has isError set',
+              content: { 'application/json': { schema: callToolResult } },
+            },
+          },
+        },
+      },
+    ])
+  );
+}
+
+/**
+ * Generates the OpenAPI document from route schemas and registered tools
+ * Serves it at `/openapi.json` with an interactive explorer at `/docs`
+ * Must be registered before any documented route
+ */
+export async function registerOpenApi(
+  fastify: FastifyInstance,
+  { tools }: OpenApiOptions
+): Promise<void> {
+  await fastify.register(swagger, {
+    openapi: {
+      openapi: '3.0.3',
+      info: {
+        title: SERVER_CONFIG.NAME,
+        version: SERVER_CONFIG.VERSION,
+        description:
+          'REST endpoints of the MCP server. Every MCP tool is also callable over HTTP through the tool bridge.',
+      },
+      tags: [
+        { name: 'tools', description: 'MCP tools exposed over HTTP' },
+        { name: 'weather', description: 'Weather forecasts and alerts' },
+        { name: 'hello', description: 'Greeting example' },
+        { name: 'monitoring', description: 'Health and server information' },
+        { name: 'admin', description: 'Audit log' },
+      ],
+    },
+    transformObject: documentObject => {
+      if (!('openapiObject' in documentObject)) {
+        return documentObject.swaggerObject;
+      }
+      const { openapiObject } = documentObject;
+      return Object.assign(openapiObject, {
+        paths: { ...openapiObject.paths, ...buildToolPaths(tools) },
+      });
+    },
+  });
+
+  await fastify.register(swaggerUi, { routePrefix: API_ENDPOINTS.DOCS });
+
+  fastify.get(API_ENDPOINTS.OPENAPI, { schema: { hide: true } }, async () =>
+    fastify.swagger()
+  );
+}
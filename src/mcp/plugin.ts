@@ -0,0 +1,365 @@
+import type {
+  FastifyBaseLogger,
+  FastifyPluginAsync,
+  FastifyReply,
+  FastifyRequest,
+} from 'fastify';
+import type { ResourceMetadata } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type {
+  CallToolResult,
+  GetPromptResult,
+  ReadResourceResult,
+  ServerNotification,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  z,
+  ZodOptional,
+  ZodRawShape,
+  ZodType,
+  ZodTypeAny,
+  ZodTypeDef,
+} from 'zod';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { getPrincipal } from '../auth/authenticator.js';
+import type { Principal } from '../auth/types.js';
+import type { ToolCachePolicy } from '../cache/toolCache.js';
+import type { AppConfig } from '../config/config.js';
+import type { TokenBucketRule } from '../rateLimit/store.js';
+
+/**
+ * Typed contract shared by every plugin module under `src/plugins`
+ * A plugin bundles MCP tools, resources and prompts with optional REST routes
+ */
+
+/**
+ * Per-invocation context handed to tool, resource and prompt handlers
+ */
+export interface HandlerContext {
+  /** MCP session ID, when the call arrived over a session-based transport */
+  sessionId?: string | undefined;
+  /** Authenticated caller over HTTP; undefined in stdio mode or without auth */
+  principal?: Principal | undefined;
+  /** Skip cached tool results and refresh them */
+  bypassCache?: boolean | undefined;
+  /**
+   * Aborted when the client cancels the request or the tool times out
+   * Pass it on to outbound calls so they stop too
+   */
+  signal?: AbortSignal | undefined;
+  /**
+   * Sends `notifications/progress`; does nothing unless the client asked for
+   * progress with a `progressToken`
+   */
+  reportProgress?(
+    progress: number,
+    total?: number,
+    message?: string
+  ): Promise<void>;
+  /**
+   * Calls another tool as the same caller, under the same guards, e.g. so a
+   * tool built from other tools is charged for each of them
+   * Set for handlers the server runs
+   */
+  callTool?: ToolCaller | undefined;
+}
+
+/**
+ * Builds the handler context from the SDK's per-request extra data
+ * MCP clients bypass the result cache with `_meta: { noCache: true }`
+ */
+export function createHandlerContext(extra: {
+  sessionId?: string | undefined;
+  authInfo?: AuthInfo | undefined;
+  _meta?: Record<string, unknown> | undefined;
+  signal?: AbortSignal | undefined;
+  sendNotification?:
+    | ((notification: ServerNotification) => Promise<void>)
+    | undefined;
+}): HandlerContext {
+  const progressToken = extra._meta?.['progressToken'];
+  const { sendNotification } = extra;
+
+  return {
+    sessionId: extra.sessionId,
+    principal: getPrincipal(extra.authInfo),
+    ...(extra._meta?.['noCache'] === true && { bypassCache: true }),
+    signal: extra.signal,
+    reportProgress: async (progress, total, message) => {
+      if (
+        (typeof progressToken !== 'string' &&
+          typeof progressToken !== 'number') ||
+        !sendNotification
+      ) {
+        return;
+      }
+      await sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress,
+          ...(total !== undefined && { total }),
+          ...(message !== undefined && { message }),
+        },
+      });
+    },
+  };
+}
+
+/**
+ * Calls a tool as the current caller, with the access policy, rate limits,
+ * quotas, cache and audit log of MCP tool calls
+ * @returns The tool's validated structured content
+ * @throws The guard's error when the call is rejected, ToolExecutionError
+ * when the tool fails
+ */
+export type ToolCaller = <Output extends ZodRawShape>(
+  tool: ToolDefinition<ZodRawShape, Output>,
+  args: unknown
+) => Promise<z.objectOutputType<Output, ZodTypeAny>>;
+
+/**
+ * Context for resource readers
+ * Resources backed by costly data (e.g. billed upstream calls) read it
+ * through `callTool`, so reads cannot be used to get around tool limits
+ */
+export interface ResourceContext extends HandlerContext {
+  callTool: ToolCaller;
+}
+
+/**
+ * Context for prompt handlers, which may embed resource contents
+ */
+export interface PromptContext extends ResourceContext {
+  /** Reads any plugin resource; undefined when no plugin serves the URI */
+  readResource(uri: string): Promise<ReadResourceResult | undefined>;
+}
+
+/**
+ * Tool result whose `structuredContent` has the shape of the tool's output
+ * schema
+ */
+export type ToolResult<Output extends ZodRawShape = ZodRawShape> = Pick<
+  CallToolResult,
+  'content' | 'isError' | '_meta'
+> & {
+  structuredContent?: z.objectInputType<Output, ZodTypeAny> | undefined;
+};
+
+export interface ToolDefinition<
+  Args extends ZodRawShape = ZodRawShape,
+  Output extends ZodRawShape = ZodRawShape,
+> {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: Args;
+  /**
+   * Shape of the result's `structuredContent`
+   * Successful results must include it and are validated against it; keep a
+   * text rendering in `content` for clients that only read text
+   */
+  outputSchema?: Output | undefined;
+  /** OAuth scopes a caller needs to see and call the tool */
+  scopes?: string[] | undefined;
+  /** Per-client call rate, replacing the configured default tool limit */
+  rateLimit?: TokenBucketRule | undefined;
+  /** Calls per client per UTC day, on top of the global daily quota */
+  dailyQuota?: number | undefined;
+  /** Time limit in ms, replacing the configured default; 0 for none */
+  timeout?: number | undefined;
+  /** Opts the tool into result caching */
+  cache?: ToolCachePolicy | undefined;
+  /** Runs around the handler, inside the globally configured middleware */
+  middleware?: ToolMiddleware[] | undefined;
+  handler(
+    args: z.objectOutputType<Args, ZodTypeAny>,
+    context: HandlerContext
+  ): Promise<ToolResult<Output>>;
+}
+
+/**
+ * One tool invocation as seen by middleware, after access checks and
+ * argument validation
+ */
+export interface ToolCall {
+  tool: ToolDefinition;
+  args: z.objectOutputType<ZodRawShape, ZodTypeAny>;
+  context: HandlerContext;
+}
+
+/**
+ * Wraps tool execution
+ * Call `next` to continue down the chain, optionally with different
+ * arguments or context; return without calling it to short-circuit, or
+ * transform the result it resolves to
+ */
+export type ToolMiddleware = (
+  call: ToolCall,
+  next: (call?: ToolCall) => Promise<CallToolResult>
+) => Promise<CallToolResult>;
+
+/**
+ * A resource served at one fixed URI
+ */
+export interface StaticResourceDefinition {
+  name: string;
+  uri: string;
+  metadata: ResourceMetadata;
+  /**
+   * Re-read while subscribed to detect changes: true (the default) at the
+   * configured interval, or every so many milliseconds when reads are
+   * costly, e.g. billed upstream calls. With false, subscribers only hear
+   * about changes announced with notifyResourceUpdated
+   */
+  poll?: boolean | number | undefined;
+  read(uri: URL, context: ResourceContext): Promise<ReadResourceResult>;
+}
+
+/**
+ * A family of resources described by an RFC 6570 URI template,
+ * e.g. `weather://alerts/{state}`
+ */
+export interface ResourceTemplateDefinition {
+  name: string;
+  template: string;
+  metadata: ResourceMetadata;
+  /**
+   * Re-read while subscribed to detect changes: true (the default) at the
+   * configured interval, or every so many milliseconds when reads are
+   * costly, e.g. billed upstream calls. With false, subscribers only hear
+   * about changes announced with notifyResourceUpdated
+   */
+  poll?: boolean | number | undefined;
+  read(
+    uri: URL,
+    variables: Variables,
+    context: ResourceContext
+  ): Promise<ReadResourceResult>;
+}
+
+export type ResourceDefinition =
+  | StaticResourceDefinition
+  | ResourceTemplateDefinition;
+
+/** MCP prompt arguments always arrive as strings */
+export type PromptArgsShape = {
+  [key: string]:
+    | ZodType<string, ZodTypeDef, string>
+    | ZodOptional<ZodType<string, ZodTypeDef, string>>;
+};
+
+export interface PromptDefinition<
+  Args extends PromptArgsShape = PromptArgsShape,
+> {
+  name: string;
+  title?: string;
+  description?: string;
+  argsSchema?: Args;
+  handler(
+    args: z.objectOutputType<Args, ZodTypeAny>,
+    context: PromptContext
+  ): Promise<GetPromptResult>;
+}
+
+/**
+ * Services available to plugins during setup
+ */
+export interface PluginContext {
+  /** Transport mode the process is running in */
+  mode: 'http' | 'stdio';
+  /** Validated runtime configuration */
+  config: AppConfig;
+  logger: FastifyBaseLogger;
+  /** All loaded plugins, in dependency order */
+  plugins: readonly McpPlugin[];
+  /**
+   * Tells subscribed clients that a resource changed
+   * Use this when a plugin knows its data changed instead of waiting for
+   * the periodic re-read
+   */
+  notifyResourceUpdated(uri: string): Promise<void>;
+  /** Current time in milliseconds since epoch; a fixed clock in tests */
+  now(): number;
+  /** Random number in [0, 1); seeded in tests so runs are reproducible */
+  random(): number;
+}
+
+/**
+ * Options handed to a plugin's REST routes
+ */
+export interface PluginRouteOptions {
+  /**
+   * Calls a tool for an HTTP request with the access policy, rate limits,
+   * quotas, cache and audit log of MCP calls, so routes serving the same
+   * data cannot be used to get around them
+   * @returns The tool's validated structured content
+   * @throws The guard's error when the call is rejected, ToolExecutionError
+   * when the tool fails
+   */
+  callTool<Output extends ZodRawShape>(
+    tool: ToolDefinition<ZodRawShape, Output>,
+    args: unknown,
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<z.objectOutputType<Output, ZodTypeAny>>;
+}
+
+export interface McpPlugin {
+  /** Unique plugin name, referenced by other plugins' dependencies */
+  name: string;
+  version: string;
+  /** Names of plugins that must be set up before this one */
+  dependencies?: string[];
+  tools?: ToolDefinition[];
+  resources?: ResourceDefinition[];
+  prompts?: PromptDefinition[];
+  /** Fastify routes, mounted in HTTP mode only */
+  routes?: FastifyPluginAsync<PluginRouteOptions>;
+  /** Runs once at startup, after all dependencies have been set up */
+  setup?(context: PluginContext): void | Promise<void>;
+  /** Runs once at shutdown, in reverse setup order */
+  teardown?(): void | Promise<void>;
+}
+
+/**
+ * Identity helpers that keep handler argument types inferred from schemas
+ */
+export function definePlugin(plugin: McpPlugin): McpPlugin {
+  return plugin;
+}
+
+export function defineTool<
+  Args extends ZodRawShape,
+  Output extends ZodRawShape = ZodRawShape,
+>(tool: ToolDefinition<Args, Output>): ToolDefinition<Args, Output> {
+  return tool;
+}
+
+/**
+ * Builds a result carrying both structured content and its text rendering
+ */
+export function structuredResult<Content extends object>(
+  structuredContent: Content,
+  text: string
+): { content: CallToolResult['content']; structuredContent: Content } {
+  return { content: [{ type: 'text', text }], structuredContent };
+}
+
+export function defineResource(
+  resource: StaticResourceDefinition
+): StaticResourceDefinition {
+  return resource;
+}
+
+export function defineResourceTemplate(
+  resource: ResourceTemplateDefinition
+): ResourceTemplateDefinition {
+  return resource;
+}
+
+export function definePrompt<Args extends PromptArgsShape>(
+  prompt: PromptDefinition<Args>
+): PromptDefinition<Args> {
+  return prompt;
+}
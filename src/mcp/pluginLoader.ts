@@ -0,0 +1,264 @@
+import { readdir } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { FastifyBaseLogger, FastifyInstance } from 'fastify';
+import {
+  ResourceTemplate,
+  type McpServer,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { AccessPolicy } from '../auth/policy.js';
+import {
+  logDetails,
+  logMessage,
+  toAppError,
+  toMcpError,
+} from '../utils/errorHandler.js';
+import {
+  createHandlerContext,
+  type McpPlugin,
+  type PluginContext,
+  type PluginRouteOptions,
+  type ResourceContext,
+} from './plugin.js';
+import { readResource } from './resources.js';
+import {
+  collectTools,
+  createToolCaller,
+  registerToolHandlers,
+  type SessionTools,
+  type ToolGuards,
+} from './toolExecutor.js';
+
+/** Plugins live next to this module's parent, in both src/ and dist/ */
+const DEFAULT_PLUGIN_DIR = fileURLToPath(
+  new URL('../plugins/', import.meta.url)
+);
+
+const MODULE_EXTENSIONS = new Set(['.ts', '.js', '.mjs']);
+
+function isPluginModuleFile(file: string): boolean {
+  return (
+    MODULE_EXTENSIONS.has(extname(file)) &&
+    !file.endsWith('.d.ts') &&
+    !/\.(test|spec)\.[mc]?[jt]s$/.test(file)
+  );
+}
+
+function isMcpPlugin(value: unknown): value is McpPlugin {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as McpPlugin).name === 'string' &&
+    typeof (value as McpPlugin).version === 'string'
+  );
+}
+
+/**
+ * Orders plugins so that every plugin comes after its dependencies
+ * @throws When a dependency is missing or dependencies form a cycle
+ */
+export function sortPlugins(plugins: McpPlugin[]): McpPlugin[] {
+  const byName = new Map<string, McpPlugin>();
+  for (const plugin of plugins) {
+    if (byName.has(plugin.name)) {
+      throw new Error(`Duplicate plugin name: ${plugin.name}`);
+    }
+    byName.set(plugin.name, plugin);
+  }
+
+  const sorted: McpPlugin[] = [];
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (plugin: McpPlugin, chain: string[]) => {
+    if (visited.has(plugin.name)) {
+      return;
+    }
+    if (visiting.has(plugin.name)) {
+      throw new Error(
+        `Circular plugin dependency: ${[...chain, plugin.name].join(' -> ')}`
+      );
+    }
+
+    visiting.add(plugin.name);
+    for (const dependency of plugin.dependencies ?? []) {
+      const required = byName.get(dependency);
+      if (!required) {
+        throw new Error(
+          `Plugin "${plugin.name}" depends on "${dependency}", which is not installed`
+        );
+      }
+      visit(required, [...chain, plugin.name]);
+    }
+    visiting.delete(plugin.name);
+    visited.add(plugin.name);
+    sorted.push(plugin);
+  };
+
+  for (const plugin of plugins) {
+    visit(plugin, []);
+  }
+
+  return sorted;
+}
+
+/**
+ * Discovers plugin modules in a directory
+ * Every module whose default export satisfies the McpPlugin contract is
+ * loaded; other modules are ignored
+ * @returns Plugins in dependency order
+ */
+export async function loadPlugins(
+  directory: string = DEFAULT_PLUGIN_DIR
+): Promise<McpPlugin[]> {
+  const files = (await readdir(directory)).filter(isPluginModuleFile).sort();
+
+  const plugins: McpPlugin[] = [];
+  for (const file of files) {
+    const module = await import(pathToFileURL(join(directory, file)).href);
+    if (isMcpPlugin(module.default)) {
+      plugins.push(module.default);
+    }
+  }
+
+  return sortPlugins(plugins);
+}
+
+/**
+ * Runs each plugin's setup hook in dependency order
+ */
+export async function setupPlugins(
+  plugins: McpPlugin[],
+  context: PluginContext
+): Promise<void> {
+  for (const plugin of plugins) {
+    await plugin.setup?.(context);
+    context.logger.info(
+      { plugin: plugin.name, version: plugin.version },
+      'Plugin loaded'
+    );
+  }
+}
+
+/**
+ * Runs each plugin's teardown hook in reverse dependency order
+ * Failures are collected so one plugin cannot block the others' cleanup
+ */
+export async function teardownPlugins(plugins: McpPlugin[]): Promise<void> {
+  const errors: unknown[] = [];
+  for (const plugin of [...plugins].reverse()) {
+    try {
+      await plugin.teardown?.();
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AggregateError(errors, 'One or more plugins failed to tear down');
+  }
+}
+
+/**
+ * Runs a resource or prompt callback, reporting anything it throws with the
+ * JSON-RPC code of its error type rather than a generic internal error
+ * Internal errors reach the client without their message, so it is logged
+ */
+async function asMcpRequest<T>(
+  call: () => Promise<T>,
+  logger?: FastifyBaseLogger
+): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    if (toAppError(error).statusCode >= 500) {
+      logger?.error(
+        { error: logMessage(error), details: logDetails(error) },
+        'Resource or prompt request failed'
+      );
+    }
+    throw toMcpError(error);
+  }
+}
+
+/**
+ * Registers every plugin's tools, resources and prompts on an MCP server
+ * @param guards - Access policy and rate limits applied to tool calls,
+ * including those resources and prompts make
+ * @param logger - Receives resource and prompt failures
+ * @returns The server's per-session tool switches
+ */
+export function registerPluginCapabilities(
+  server: McpServer,
+  plugins: McpPlugin[],
+  guards: ToolGuards = { policy: new AccessPolicy() },
+  logger?: FastifyBaseLogger
+): SessionTools {
+  const tools = registerToolHandlers(server, collectTools(plugins), guards);
+
+  const resourceContext = (
+    extra: Parameters<typeof createHandlerContext>[0]
+  ): ResourceContext => {
+    const context = createHandlerContext(extra);
+    return { ...context, callTool: createToolCaller(context, guards) };
+  };
+
+  for (const plugin of plugins) {
+    for (const resource of plugin.resources ?? []) {
+      if ('template' in resource) {
+        server.registerResource(
+          resource.name,
+          new ResourceTemplate(resource.template, { list: undefined }),
+          resource.metadata,
+          (uri, variables, extra) =>
+            asMcpRequest(
+              () => resource.read(uri, variables, resourceContext(extra)),
+              logger
+            )
+        );
+      } else {
+        server.registerResource(
+          resource.name,
+          resource.uri,
+          resource.metadata,
+          (uri, extra) =>
+            asMcpRequest(
+              () => resource.read(uri, resourceContext(extra)),
+              logger
+            )
+        );
+      }
+    }
+
+    for (const { name, handler, ...config } of plugin.prompts ?? []) {
+      server.registerPrompt(name, config, (args, extra) => {
+        const context = resourceContext(extra);
+        return asMcpRequest(
+          async () =>
+            handler(args, {
+              ...context,
+              readResource: uri => readResource(plugins, uri, context),
+            }),
+          logger
+        );
+      });
+    }
+  }
+
+  return tools;
+}
+
+/**
+ * Mounts every plugin's REST routes on the Fastify instance
+ */
+export async function registerPluginRoutes(
+  fastify: FastifyInstance,
+  plugins: McpPlugin[],
+  options: PluginRouteOptions
+): Promise<void> {
+  for (const plugin of plugins) {
+    if (plugin.routes) {
+      await fastify.register(plugin.routes, options);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { createTestClient, type TestClient } from '../testing/index.js';
+import { ValidationError } from '../utils/errorHandler.js';
+import { definePlugin, defineResource } from './plugin.js';
+import { renderTemplate, templatePrompt } from './prompts.js';
+
+const notes = defineResource({
+  name: 'notes',
+  uri: 'test://notes/general',
+  metadata: { title: 'Notes', mimeType: 'text/plain' },
+  read: async uri => ({
+    contents: [{ uri: uri.href, mimeType: 'text/plain', text: 'Be brief.' }],
+  }),
+});
+
+const summarize = templatePrompt({
+  name: 'summarize',
+  description: 'Summarizes a topic',
+  argsSchema: {
+    topic: z.string().min(1).describe('What to summarize'),
+    audience: z.string().optional().describe('Who the summary is for'),
+    notes: z.string().optional().describe('Notes resource to follow'),
+  },
+  prepare: ({ topic }) => {
+    if (topic === 'secrets') {
+      throw new ValidationError('Topic not allowed');
+    }
+    return { words: topic.length * 10 };
+  },
+  messages: [
+    {
+      role: 'user',
+      text: 'Summarize {{topic}} in {{words}} words{{#audience}} for {{audience}}{{/audience}}.',
+    },
+    { role: 'user', resource: 'test://notes/{{notes}}' },
+  ],
+});
+
+const clients: TestClient[] = [];
+
+async function connect() {
+  const client = await createTestClient({
+    plugins: [
+      definePlugin({
+        name: 'test',
+        version: '1.0.0',
+        resources: [notes],
+        prompts: [summarize],
+      }),
+    ],
+  });
+  clients.push(client);
+  return client;
+}
+
+afterEach(async () => {
+  for (const client of clients.splice(0)) {
+    await client.close();
+  }
+});
+
+describe('renderTemplate', () => {
+  it('fills placeholders and drops sections without a value', () => {
+    const template = 'Hi {{name}}{{#title}}, {{title}}{{/title}}!{{missing}}';
+
+    expect(renderTemplate(template, { name: 'Ada', title: 'Countess' })).toBe(
+      'Hi Ada, Countess!'
+    );
+    expect(renderTemplate(template, { name: 'Ada', title: '' })).toBe(
+      'Hi Ada!'
+    );
+  });
+});
+
+describe('templatePrompt', () => {
+  it('renders messages and embeds resources', async () => {
+    const mcp = await connect();
+
+    const prompt = await mcp.getPrompt('summarize', {
+      topic: 'tides',
+      audience: 'sailors',
+      notes: 'general',
+    });
+    expect(prompt.description).toBe('Summarizes a topic');
+    expect(prompt.messages).toEqual([
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: 'Summarize tides in 50 words for sailors.',
+        },
+      },
+      {
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: 'test://notes/general',
+            mimeType: 'text/plain',
+            text: 'Be brief.',
+          },
+        },
+      },
+    ]);
+  });
+
+  it('lists its arguments', async () => {
+    const mcp = await connect();
+
+    expect(await mcp.listPrompts()).toEqual([
+      expect.objectContaining({
+        name: 'summarize',
+        arguments: [
+          { name: 'topic', description: 'What to summarize', required: true },
+          {
+            name: 'audience',
+            description: 'Who the summary is for',
+            required: false,
+          },
+          {
+            name: 'notes',
+            description: 'Notes resource to follow',
+            required: false,
+          },
+        ],
+      }),
+    ]);
+  });
+
+  it.each([
+    ['missing', { notes: 'general' }],
+    ['invalid', { topic: '', notes: 'general' }],
+  ])('rejects %s arguments', async (_case, args) => {
+    const mcp = await connect();
+
+    const error = await mcp
+      .getPrompt('summarize', args)
+      .catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+  });
+
+  it('reports errors thrown by prepare', async () => {
+    const mcp = await connect();
+
+    const error = await mcp
+      .getPrompt('summarize', { topic: 'secrets', notes: 'general' })
+      .catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).message).toContain('Topic not allowed');
+  });
+
+  it('fails when an embedded resource does not exist', async () => {
+    const mcp = await connect();
+
+    const error = await mcp
+      .getPrompt('summarize', { topic: 'tides', notes: 'missing' })
+      .catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).message).toContain(
+      'Resource not found: test://notes/missing'
+    );
+  });
+});
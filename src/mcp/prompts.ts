@@ -0,0 +1,126 @@
+import type {
+  GetPromptResult,
+  PromptMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ZodTypeAny, z } from 'zod';
+import { ERROR_MESSAGES } from '../config/constants.js';
+import { NotFoundError } from '../utils/errorHandler.js';
+import type {
+  PromptArgsShape,
+  PromptContext,
+  PromptDefinition,
+} from './plugin.js';
+
+type Role = PromptMessage['role'];
+
+/**
+ * One message of a prompt template
+ * `text` and `resource` may contain `{{name}}` placeholders; a resource
+ * message is replaced by the contents of the resource it names
+ */
+export type PromptMessageTemplate =
+  | { role: Role; text: string }
+  | { role: Role; resource: string };
+
+export type TemplateValues = Record<string, string | number | undefined>;
+
+export interface TemplatePromptOptions<Args extends PromptArgsShape> {
+  name: string;
+  title?: string;
+  description?: string;
+  argsSchema: Args;
+  messages: PromptMessageTemplate[];
+  /**
+   * Derives extra template values from the validated arguments and can
+   * apply cross-field validation; throw to reject the request
+   */
+  prepare?(
+    args: z.objectOutputType<Args, ZodTypeAny>
+  ): TemplateValues | Promise<TemplateValues>;
+}
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Renders `{{name}}` placeholders
+ * `{{#name}}...{{/name}}` sections are only kept when `name` has a value
+ */
+export function renderTemplate(
+  template: string,
+  values: TemplateValues
+): string {
+  const hasValue = (key: string) =>
+    values[key] !== undefined && values[key] !== '';
+
+  return template
+    .replace(SECTION_PATTERN, (_match, key: string, body: string) =>
+      hasValue(key) ? body : ''
+    )
+    .replace(PLACEHOLDER_PATTERN, (_match, key: string) =>
+      hasValue(key) ? String(values[key]) : ''
+    );
+}
+
+/**
+ * Expands message templates into MCP prompt messages, reading any
+ * embedded resources through the prompt context
+ */
+export async function renderPromptMessages(
+  templates: PromptMessageTemplate[],
+  values: TemplateValues,
+  context: PromptContext
+): Promise<PromptMessage[]> {
+  const messages: PromptMessage[] = [];
+
+  for (const template of templates) {
+    if ('text' in template) {
+      messages.push({
+        role: template.role,
+        content: { type: 'text', text: renderTemplate(template.text, values) },
+      });
+      continue;
+    }
+
+    const uri = renderTemplate(template.resource, values);
+    const result = await context.readResource(uri);
+    if (!result) {
+      throw new NotFoundError(`${ERROR_MESSAGES.RESOURCE_NOT_FOUND}: ${uri}`);
+    }
+
+    for (const resource of result.contents) {
+      messages.push({
+        role: template.role,
+        content: { type: 'resource', resource },
+      });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Builds a prompt whose messages are rendered from templates
+ * Arguments are validated by the SDK against argsSchema before the
+ * handler runs, so prepare always receives parsed values
+ */
+export function templatePrompt<Args extends PromptArgsShape>(
+  options: TemplatePromptOptions<Args>
+): PromptDefinition<Args> {
+  const { messages, prepare, ...definition } = options;
+
+  return {
+    ...definition,
+    handler: async (args, context): Promise<GetPromptResult> => {
+      const values: TemplateValues = {
+        ...(args as TemplateValues),
+        ...(prepare ? await prepare(args) : {}),
+      };
+
+      return {
+        ...(definition.description && { description: definition.description }),
+        messages: await renderPromptMessages(messages, values, context),
+      };
+    },
+  };
+}
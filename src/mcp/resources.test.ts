@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLogger } from '../utils/logger.js';
+import {
+  definePlugin,
+  defineResource,
+  type StaticResourceDefinition,
+} from './plugin.js';
+import { ResourceSubscriptionManager } from './resources.js';
+
+const POLL_INTERVAL = 1000;
+
+let manager: ResourceSubscriptionManager | undefined;
+
+/** Subscribes to a resource whose contents the test controls */
+async function subscribeTo(
+  options: Partial<Pick<StaticResourceDefinition, 'poll'>> = {}
+) {
+  const state = {
+    text: 'v1',
+    reads: 0,
+    fail: false,
+    sessions: [] as (string | undefined)[],
+  };
+  const resource = defineResource({
+    name: 'counter',
+    uri: 'test://counter',
+    metadata: { title: 'Counter', mimeType: 'text/plain' },
+    ...options,
+    read: async (uri, context) => {
+      state.reads++;
+      state.sessions.push(context.sessionId);
+      if (state.fail) {
+        throw new Error('upstream down');
+      }
+      return {
+        contents: [{ uri: uri.href, text: state.text }],
+      };
+    },
+  });
+
+  manager = new ResourceSubscriptionManager({
+    plugins: [
+      definePlugin({ name: 'test', version: '1.0.0', resources: [resource] }),
+    ],
+    pollInterval: POLL_INTERVAL,
+    logger: createLogger({ level: 'silent', pretty: false, enabled: false }),
+  });
+  const listener = vi.fn<(uri: string) => Promise<void>>(async () => {});
+  await manager.subscribe('test://counter', 'subscriber-1', listener, {
+    sessionId: 'session-1',
+  });
+
+  return { manager, state, listener };
+}
+
+afterEach(() => {
+  manager?.close();
+  manager = undefined;
+});
+
+describe('ResourceSubscriptionManager', () => {
+  it('notifies subscribers when the contents change', async () => {
+    const { manager, state, listener } = await subscribeTo();
+
+    await manager.poll(Date.now() + POLL_INTERVAL);
+    expect(listener).not.toHaveBeenCalled();
+
+    state.text = 'v2';
+    await manager.poll(Date.now() + 2 * POLL_INTERVAL);
+    expect(listener).toHaveBeenCalledExactlyOnceWith('test://counter');
+  });
+
+  it('re-reads as the longest-standing subscriber', async () => {
+    const { manager, state } = await subscribeTo();
+    await manager.subscribe('test://counter', 'subscriber-2', async () => {}, {
+      sessionId: 'session-2',
+    });
+
+    await manager.poll(Date.now() + POLL_INTERVAL);
+    manager.unsubscribe('test://counter', 'subscriber-1');
+    await manager.poll(Date.now() + 2 * POLL_INTERVAL);
+    expect(state.sessions).toEqual(['session-1', 'session-1', 'session-2']);
+  });
+
+  it('waits for the interval of a resource with costly reads', async () => {
+    const { manager, state, listener } = await subscribeTo({
+      poll: 10 * POLL_INTERVAL,
+    });
+    state.text = 'v2';
+
+    await manager.poll(Date.now() + POLL_INTERVAL);
+    expect(state.reads).toBe(1);
+    expect(listener).not.toHaveBeenCalled();
+
+    await manager.poll(Date.now() + 10 * POLL_INTERVAL);
+    expect(state.reads).toBe(2);
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it('never re-reads resources that opt out of polling', async () => {
+    const { manager, state, listener } = await subscribeTo({ poll: false });
+    state.text = 'v2';
+
+    await manager.poll(Date.now() + 100 * POLL_INTERVAL);
+    expect(state.reads).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+
+    await manager.notifyUpdated('test://counter');
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it('does not report a failed read as a change', async () => {
+    const { manager, state, listener } = await subscribeTo();
+
+    state.fail = true;
+    await manager.poll(Date.now() + POLL_INTERVAL);
+    state.fail = false;
+    await manager.poll(Date.now() + 2 * POLL_INTERVAL);
+    expect(state.reads).toBe(3);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('stops notifying after unsubscribe', async () => {
+    const { manager, state, listener } = await subscribeTo();
+    manager.unsubscribe('test://counter', 'subscriber-1');
+
+    state.text = 'v2';
+    await manager.poll(Date.now() + POLL_INTERVAL);
+    expect(state.reads).toBe(1);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,273 @@
+import { createHash } from 'node:crypto';
+import type { FastifyBaseLogger } from 'fastify';
+import {
+  UriTemplate,
+  type Variables,
+} from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { AccessPolicy } from '../auth/policy.js';
+import type {
+  HandlerContext,
+  McpPlugin,
+  ResourceContext,
+  ResourceDefinition,
+} from './plugin.js';
+import { createToolCaller, type ToolGuards } from './toolExecutor.js';
+
+export interface ResolvedResource {
+  definition: ResourceDefinition;
+  variables: Variables;
+}
+
+/**
+ * Finds the plugin resource serving a URI
+ * Fixed URIs win over templates; templates are tried in plugin order
+ */
+export function findResource(
+  plugins: readonly McpPlugin[],
+  uri: string
+): ResolvedResource | undefined {
+  const resources = plugins.flatMap(plugin => plugin.resources ?? []);
+
+  for (const definition of resources) {
+    if ('uri' in definition && definition.uri === uri) {
+      return { definition, variables: {} };
+    }
+  }
+
+  for (const definition of resources) {
+    if ('template' in definition) {
+      const variables = new UriTemplate(definition.template).match(uri);
+      if (variables) {
+        return { definition, variables };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads a resource outside of an MCP request (e.g. to detect changes)
+ * @returns The resource contents, or undefined when no plugin serves the URI
+ */
+export async function readResource(
+  plugins: readonly McpPlugin[],
+  uri: string,
+  context: ResourceContext
+): Promise<ReadResourceResult | undefined> {
+  const resolved = findResource(plugins, uri);
+  if (!resolved) {
+    return undefined;
+  }
+
+  const { definition, variables } = resolved;
+  return 'template' in definition
+    ? definition.read(new URL(uri), variables, context)
+    : definition.read(new URL(uri), context);
+}
+
+export interface ResourceSubscriptionOptions {
+  plugins: readonly McpPlugin[];
+  /** How often subscribed resources are re-read to detect changes (ms) */
+  pollInterval: number;
+  /** Applied to the tool calls re-reads make; unrestricted when omitted */
+  guards?: ToolGuards | undefined;
+  logger: FastifyBaseLogger;
+}
+
+type UpdateListener = (uri: string) => Promise<void>;
+
+/** Who subscribed, so re-reads run as that caller */
+export type SubscriberContext = Pick<HandlerContext, 'sessionId' | 'principal'>;
+
+interface Subscriber {
+  listener: UpdateListener;
+  context: SubscriberContext;
+}
+
+interface Subscription {
+  subscribers: Map<string, Subscriber>;
+  /** Hash of the last contents seen, used to detect changes */
+  digest?: string | undefined;
+  /** When the resource was last re-read (ms since epoch) */
+  readAt: number;
+}
+
+/**
+ * Tracks `resources/subscribe` requests across all sessions
+ * Subscribed resources are re-read periodically and every subscriber gets
+ * `notifications/resources/updated` when their contents change. Re-reads
+ * run as the longest-standing subscriber, so tools they call are checked and
+ * charged like that caller's own reads; resources with costly reads set a
+ * slower interval of their own. Plugins can also announce changes directly
+ * through notifyUpdated, the only source of updates for resources that opt
+ * out of polling
+ */
+export class ResourceSubscriptionManager {
+  private readonly subscriptions = new Map<string, Subscription>();
+  private readonly pollTimer: ReturnType<typeof setInterval>;
+  private readonly plugins: readonly McpPlugin[];
+  private readonly guards: ToolGuards;
+  private readonly logger: FastifyBaseLogger;
+  private readonly defaultInterval: number;
+  private polling = false;
+
+  constructor(options: ResourceSubscriptionOptions) {
+    this.plugins = options.plugins;
+    this.guards = options.guards ?? { policy: new AccessPolicy() };
+    this.logger = options.logger;
+    this.defaultInterval = options.pollInterval;
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, options.pollInterval);
+    this.pollTimer.unref();
+  }
+
+  /** Whether any plugin serves this URI */
+  has(uri: string): boolean {
+    return findResource(this.plugins, uri) !== undefined;
+  }
+
+  /**
+   * Adds a subscriber for a URI
+   * @param subscriberId - Stable ID of the subscribing server instance
+   * @param listener - Sends the update notification to that subscriber
+   * @param context - Caller re-reads run as while this subscriber is the
+   * longest-standing one
+   */
+  async subscribe(
+    uri: string,
+    subscriberId: string,
+    listener: UpdateListener,
+    context: SubscriberContext = {}
+  ): Promise<void> {
+    let subscription = this.subscriptions.get(uri);
+    if (!subscription) {
+      subscription = { subscribers: new Map(), readAt: Date.now() };
+      this.subscriptions.set(uri, subscription);
+      // Record a baseline so the first poll only reports real changes
+      if (this.pollInterval(uri) !== undefined) {
+        subscription.digest = await this.digest(uri, context);
+      }
+    }
+    subscription.subscribers.set(subscriberId, { listener, context });
+  }
+
+  unsubscribe(uri: string, subscriberId: string): void {
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription) {
+      return;
+    }
+
+    subscription.subscribers.delete(subscriberId);
+    if (subscription.subscribers.size === 0) {
+      this.subscriptions.delete(uri);
+    }
+  }
+
+  /** Drops every subscription held by a subscriber (e.g. on session close) */
+  unsubscribeAll(subscriberId: string): void {
+    for (const uri of [...this.subscriptions.keys()]) {
+      this.unsubscribe(uri, subscriberId);
+    }
+  }
+
+  /** Notifies every subscriber of a URI that it changed */
+  async notifyUpdated(uri: string): Promise<void> {
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription) {
+      return;
+    }
+
+    await Promise.all(
+      [...subscription.subscribers.entries()].map(
+        async ([subscriberId, { listener }]) => {
+          try {
+            await listener(uri);
+          } catch (error) {
+            this.logger.warn(
+              {
+                uri,
+                subscriberId,
+                error: error instanceof Error ? error.message : error,
+              },
+              'Failed to send resource update'
+            );
+          }
+        }
+      )
+    );
+  }
+
+  /**
+   * Re-reads every subscribed resource that is due and notifies on changes
+   * A failed read changes nothing; the next one tries again
+   */
+  async poll(now: number = Date.now()): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      for (const [uri, subscription] of [...this.subscriptions.entries()]) {
+        const interval = this.pollInterval(uri);
+        const [subscriber] = subscription.subscribers.values();
+        if (
+          interval === undefined ||
+          !subscriber ||
+          now - subscription.readAt < interval
+        ) {
+          continue;
+        }
+
+        subscription.readAt = now;
+        const digest = await this.digest(uri, subscriber.context);
+        if (digest !== undefined && digest !== subscription.digest) {
+          subscription.digest = digest;
+          await this.notifyUpdated(uri);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  close(): void {
+    clearInterval(this.pollTimer);
+    this.subscriptions.clear();
+  }
+
+  /** Milliseconds between re-reads, or undefined when not polled */
+  private pollInterval(uri: string): number | undefined {
+    const poll = findResource(this.plugins, uri)?.definition.poll ?? true;
+    if (poll === false) {
+      return undefined;
+    }
+    return typeof poll === 'number'
+      ? Math.max(poll, this.defaultInterval)
+      : this.defaultInterval;
+  }
+
+  private async digest(
+    uri: string,
+    context: SubscriberContext
+  ): Promise<string | undefined> {
+    try {
+      const result = await readResource(this.plugins, uri, {
+        ...context,
+        callTool: createToolCaller(context, this.guards),
+      });
+      return result
+        ? createHash('sha256').update(JSON.stringify(result)).digest('hex')
+        : undefined;
+    } catch (error) {
+      this.logger.warn(
+        { uri, error: error instanceof Error ? error.message : error },
+        'Failed to read subscribed resource'
+      );
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import Fastify from 'fastify';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AuditLog } from '../audit/auditLog.js';
+import type { AuditRecord } from '../audit/types.js';
+import { AccessPolicy } from '../auth/policy.js';
+import type { Principal } from '../auth/types.js';
+import mathPlugin from '../plugins/mathPlugin.js';
+import { handleError } from '../utils/errorHandler.js';
+import toolBridge from './restBridge.js';
+import { collectTools } from './toolExecutor.js';
+
+let fastify: ReturnType<typeof Fastify> | undefined;
+
+/** Serves the bridge for the math tools as the given caller */
+async function serve(principal?: Principal) {
+  const records: AuditRecord[] = [];
+  const server = Fastify();
+  fastify = server;
+  server.setErrorHandler(handleError);
+  server.decorateRequest('principal', undefined);
+  server.addHook('onRequest', async request => {
+    request.principal = principal;
+  });
+
+  await server.register(toolBridge, {
+    tools: collectTools([mathPlugin]),
+    guards: {
+      policy: new AccessPolicy({
+        roles: { analyst: { tools: ['evaluate'], scopes: ['math'] } },
+        defaultRoles: ['analyst'],
+      }),
+      audit: new AuditLog({
+        store: {
+          append: async record => {
+            records.push(record);
+          },
+          query: async () => records,
+          close: async () => {},
+        },
+        redact: value => value,
+      }),
+    },
+  });
+
+  const call = (name: string, payload: object) =>
+    server.inject({ method: 'POST', url: `/tools/${name}`, payload });
+  return { server, records, call };
+}
+
+afterEach(async () => {
+  await fastify?.close();
+  fastify = undefined;
+});
+
+describe('GET /tools', () => {
+  it('lists the tools with their schemas', async () => {
+    const { server } = await serve();
+
+    const response = await server.inject({ method: 'GET', url: '/tools' });
+    expect(response.statusCode).toBe(200);
+    const { tools } = response.json<{ tools: { name: string }[] }>();
+    expect(tools.map(tool => tool.name)).toEqual(['calculate', 'evaluate']);
+    expect(tools[0]).toMatchObject({
+      inputSchema: { type: 'object', required: ['a', 'b', 'operation'] },
+      outputSchema: { type: 'object' },
+    });
+  });
+
+  it('leaves out tools the caller may not use', async () => {
+    const { server } = await serve({
+      subject: 'bob',
+      kind: 'api-key',
+      clientId: 'bob',
+      scopes: [],
+    });
+
+    const response = await server.inject({ method: 'GET', url: '/tools' });
+    expect(
+      response.json<{ tools: { name: string }[] }>().tools.map(t => t.name)
+    ).toEqual(['evaluate']);
+  });
+});
+
+describe('POST /tools/:name', () => {
+  it('returns the result an MCP client would get', async () => {
+    const { call, records } = await serve();
+
+    const response = await call('calculate', { a: 2, b: 3, operation: 'add' });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      content: [{ type: 'text', text: '2 add 3 = 5' }],
+      structuredContent: { operation: 'add', a: 2, b: 3, result: 5 },
+    });
+    expect(records).toMatchObject([
+      { tool: 'calculate', client: 'ip:127.0.0.1', outcome: 'success' },
+    ]);
+  });
+
+  it('answers a failed call with the error result and its status', async () => {
+    const { call } = await serve();
+
+    const response = await call('calculate', {
+      a: 1,
+      b: 0,
+      operation: 'divide',
+    });
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({
+      isError: true,
+      content: [
+        {
+          type: 'text',
+          text: '[VALIDATION_ERROR] Division by zero is not allowed',
+        },
+      ],
+    });
+  });
+
+  it('rejects invalid arguments', async () => {
+    const { call } = await serve();
+
+    const response = await call('calculate', { a: 'two', operation: 'add' });
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({
+      error: 'Bad Request',
+      code: 'VALIDATION_ERROR',
+    });
+  });
+
+  it('rejects tools the caller may not use', async () => {
+    const { call, records } = await serve({
+      subject: 'bob',
+      kind: 'api-key',
+      clientId: 'bob',
+      scopes: [],
+    });
+
+    const response = await call('calculate', { a: 2, b: 3, operation: 'add' });
+    expect(response.statusCode).toBe(403);
+    expect(records).toMatchObject([
+      { tool: 'calculate', client: 'api-key:bob', outcome: 'denied' },
+    ]);
+  });
+
+  it('answers 404 for unknown tools', async () => {
+    const { call } = await serve();
+
+    const response = await call('missing', {});
+    expect(response.statusCode).toBe(404);
+    expect(response.json()).toMatchObject({
+      error: 'Not Found',
+      code: 'NOT_FOUND',
+      message: 'Tool not found: missing',
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ZodRawShape } from 'zod';
+import { API_ENDPOINTS, ERROR_MESSAGES } from '../config/constants.js';
+import { clientKey } from '../rateLimit/rateLimiter.js';
+import {
+  NotFoundError,
+  sendError,
+  ToolExecutionError,
+  toToolErrorResult,
+} from '../utils/errorHandler.js';
+import type { PluginRouteOptions, ToolDefinition } from './plugin.js';
+import {
+  callTool,
+  describeTool,
+  structuredContentOf,
+  type ToolGuards,
+  type ToolRegistry,
+} from './toolExecutor.js';
+
+export interface ToolBridgeOptions {
+  tools: ToolRegistry;
+  /** Access policy, rate limits and audit, applied exactly as over MCP */
+  guards: ToolGuards;
+}
+
+/**
+ * Calls a tool for an HTTP request with the same guards as an MCP call
+ * Closing the connection before the response cancels the call, and
+ * `Cache-Control: no-cache` bypasses cached results
+ * @throws The guard's error when the call is rejected, ToolExecutionError
+ * when the tool fails
+ */
+export async function callToolForRequest(
+  tool: ToolDefinition,
+  args: unknown,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  guards: ToolGuards
+): Promise<CallToolResult> {
+  const controller = new AbortController();
+  reply.raw.once('close', () => {
+    if (!reply.raw.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  return callTool(
+    tool,
+    args,
+    {
+      principal: request.principal,
+      signal: controller.signal,
+      bypassCache: /\bno-cache\b/.test(request.headers['cache-control'] ?? ''),
+    },
+    guards,
+    clientKey(request.principal, `ip:${request.ip}`)
+  );
+}
+
+/**
+ * Builds the `callTool` plugin routes use to serve data through tools
+ */
+export function createRouteToolCaller(
+  guards: ToolGuards
+): PluginRouteOptions['callTool'] {
+  return async <Output extends ZodRawShape>(
+    tool: ToolDefinition<ZodRawShape, Output>,
+    args: unknown,
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) =>
+    structuredContentOf(
+      tool,
+      await callToolForRequest(tool, args, request, reply, guards)
+    );
+}
+
+/**
+ * Fastify plugin exposing every registered MCP tool over plain HTTP
+ * `GET /tools` lists tools and `POST /tools/:name` calls one with the JSON
+ * body as its arguments, returning the same result an MCP client would get
+ */
+const toolBridge: FastifyPluginAsync<ToolBridgeOptions> = async (
+  fastify,
+  { tools, guards }
+) => {
+  fastify.get(
+    API_ENDPOINTS.TOOLS,
+    { schema: { tags: ['tools'], summary: 'List registered tools' } },
+    async request => ({
+      tools: [...tools.values()]
+        .filter(tool => guards.policy.canUse(tool, request.principal))
+        .map(describeTool),
+    })
+  );
+
+  fastify.post<{ Params: { name: string } }>(
+    API_ENDPOINTS.TOOL_CALL,
+    // Each tool is documented as its own operation by the OpenAPI module
+    { schema: { hide: true } },
+    async (request, reply) => {
+      const tool = tools.get(request.params.name);
+      if (!tool) {
+        return sendError(
+          reply,
+          new NotFoundError(
+            `${ERROR_MESSAGES.TOOL_NOT_FOUND}: ${request.params.name}`
+          )
+        );
+      }
+
+      try {
+        return await callToolForRequest(
+          tool,
+          request.body,
+          request,
+          reply,
+          guards
+        );
+      } catch (error) {
+        if (error instanceof ToolExecutionError) {
+          // Mirror the MCP error result, with a status code for HTTP clients
+          return reply.status(error.statusCode).send(toToolErrorResult(error));
+        }
+        // Rejected calls (policy, limits, arguments) are plain HTTP errors
+        return sendError(reply, error);
+      }
+    }
+  );
+};
+
+export default toolBridge;
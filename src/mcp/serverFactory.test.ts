@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  ErrorCode,
+  McpError,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AccessPolicy } from '../auth/policy.js';
+import type { Principal } from '../auth/types.js';
+import mathPlugin from '../plugins/mathPlugin.js';
+import { createTestClient, type TestClient } from '../testing/index.js';
+
+const clients: TestClient[] = [];
+
+async function connect(principal?: Principal) {
+  const client = await createTestClient({
+    plugins: [mathPlugin],
+    principal,
+    guards: {
+      policy: new AccessPolicy({
+        roles: { analyst: { tools: ['evaluate'], scopes: ['math'] } },
+        defaultRoles: ['analyst'],
+      }),
+    },
+  });
+  clients.push(client);
+  return client;
+}
+
+async function toolNames(client: TestClient) {
+  return (await client.listTools()).map(tool => tool.name).sort();
+}
+
+afterEach(async () => {
+  for (const client of clients.splice(0)) {
+    await client.close();
+  }
+});
+
+describe('SessionState.tools', () => {
+  it('hides and refuses tools disabled for the session', async () => {
+    const mcp = await connect();
+    expect(await toolNames(mcp)).toEqual(['calculate', 'evaluate']);
+
+    mcp.session.tools.disable('calculate');
+    expect(await toolNames(mcp)).toEqual(['evaluate']);
+    const error = await mcp
+      .callTool('calculate', { a: 2, b: 3, operation: 'add' })
+      .catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    expect((error as McpError).message).toContain(
+      'Tool disabled for this session: calculate'
+    );
+
+    mcp.session.tools.enable('calculate');
+    expect(await toolNames(mcp)).toEqual(['calculate', 'evaluate']);
+  });
+
+  it('notifies the client when the tool list changes', async () => {
+    const mcp = await connect();
+    let changes = 0;
+    mcp.client.setNotificationHandler(
+      ToolListChangedNotificationSchema,
+      async () => {
+        changes++;
+      }
+    );
+
+    mcp.session.tools.disable('calculate');
+    mcp.session.tools.disable('calculate');
+    mcp.session.tools.enable('calculate');
+    await expect.poll(() => changes).toBe(2);
+  });
+
+  it('only affects its own session', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    first.session.tools.disable('evaluate');
+    expect(await toolNames(first)).toEqual(['calculate']);
+    expect(await toolNames(second)).toEqual(['calculate', 'evaluate']);
+  });
+
+  it('applies on top of the access policy', async () => {
+    const mcp = await connect({
+      subject: 'user-1',
+      kind: 'api-key',
+      clientId: 'user-1',
+      scopes: [],
+    });
+    expect(await toolNames(mcp)).toEqual(['evaluate']);
+
+    mcp.session.tools.enable('calculate');
+    expect(await toolNames(mcp)).toEqual(['evaluate']);
+    mcp.session.tools.disable('evaluate');
+    expect(await toolNames(mcp)).toEqual([]);
+  });
+
+  it('rejects tools no plugin provides', async () => {
+    const mcp = await connect();
+
+    expect(() => mcp.session.tools.disable('missing')).toThrow(
+      'Tool not found: missing'
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { randomUUID } from 'node:crypto';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ClientCapabilities,
+  type Implementation,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { FastifyBaseLogger } from 'fastify';
+import { ERROR_MESSAGES, SERVER_CONFIG } from '../config/constants.js';
+import { NotFoundError, toMcpError } from '../utils/errorHandler.js';
+import { createHandlerContext, type McpPlugin } from './plugin.js';
+import { registerPluginCapabilities } from './pluginLoader.js';
+import type { ResourceSubscriptionManager } from './resources.js';
+import type { SessionTools, ToolGuards } from './toolExecutor.js';
+
+/**
+ * State owned by a single MCP server instance (one per HTTP session)
+ */
+export interface SessionState {
+  /** Client name/version sent during initialization */
+  clientInfo?: Implementation | undefined;
+  /** Capabilities the client negotiated during initialization */
+  clientCapabilities?: ClientCapabilities | undefined;
+  /** Tools this session may list and call, within the access policy */
+  tools: SessionTools;
+}
+
+export interface SessionServer {
+  server: McpServer;
+  state: SessionState;
+}
+
+export interface CreateServerOptions {
+  /** Shared subscription registry; enables `resources/subscribe` when set */
+  subscriptions?: ResourceSubscriptionManager;
+  /** Tool access policy and rate limits; unrestricted when omitted */
+  guards?: ToolGuards;
+  /** Receives resource and prompt failures, whose messages clients do not see */
+  logger?: FastifyBaseLogger;
+}
+
+/**
+ * Creates and configures the MCP Server with tools and resources
+ * Using current SDK version compatible methods with official best practices
+ * Each call returns an isolated server, so every session gets its own
+ * protocol state and client capabilities
+ * @param plugins - Loaded plugins whose tools, resources and prompts to register
+ * @returns Configured MCP Server instance and its session state
+ */
+export function createMCPServer(
+  plugins: McpPlugin[],
+  options: CreateServerOptions = {}
+): SessionServer {
+  const server = new McpServer({
+    name: SERVER_CONFIG.NAME,
+    version: SERVER_CONFIG.VERSION,
+  });
+
+  const state: SessionState = {
+    tools: registerPluginCapabilities(
+      server,
+      plugins,
+      options.guards,
+      options.logger
+    ),
+  };
+
+  // Capture client details once the initialize handshake completes
+  server.server.oninitialized = () => {
+    state.clientInfo = server.server.getClientVersion();
+    state.clientCapabilities = server.server.getClientCapabilities();
+  };
+
+  if (options.subscriptions) {
+    registerSubscriptionHandlers(server, options.subscriptions);
+  }
+
+  return { server, state };
+}
+
+/**
+ * Wires `resources/subscribe` and `resources/unsubscribe` to the shared
+ * subscription registry, forwarding updates to this server's client
+ */
+function registerSubscriptionHandlers(
+  server: McpServer,
+  subscriptions: ResourceSubscriptionManager
+) {
+  // Sessions get their ID late, so subscribers are keyed by server instance
+  const subscriberId = randomUUID();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(
+    SubscribeRequestSchema,
+    async (request, extra) => {
+      const { uri } = request.params;
+      if (!subscriptions.has(uri)) {
+        throw toMcpError(
+          new NotFoundError(`${ERROR_MESSAGES.RESOURCE_NOT_FOUND}: ${uri}`)
+        );
+      }
+
+      // Re-reads for this subscription are charged to the subscriber
+      const { sessionId, principal } = createHandlerContext(extra);
+      await subscriptions.subscribe(
+        uri,
+        subscriberId,
+        updatedUri => server.server.sendResourceUpdated({ uri: updatedUri }),
+        { sessionId, principal }
+      );
+      return {};
+    }
+  );
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.unsubscribe(request.params.uri, subscriberId);
+    return {};
+  });
+
+  server.server.onclose = () => subscriptions.unsubscribeAll(subscriberId);
+}
@@ -0,0 +1,127 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import helloPlugin from '../plugins/helloPlugin.js';
+import { createLogger } from '../utils/logger.js';
+import { createMCPServer } from './serverFactory.js';
+import { SessionManager } from './sessionManager.js';
+
+const IDLE_TIMEOUT = 60_000;
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+  },
+};
+
+let sessions: SessionManager | undefined;
+let http: Server | undefined;
+
+/**
+ * Serves Streamable HTTP sessions the way the /mcp route does: requests
+ * without a session ID open one, others go to their session's transport
+ */
+async function listen() {
+  const manager = new SessionManager({
+    createServer: () => createMCPServer([helloPlugin]),
+    idleTimeout: IDLE_TIMEOUT,
+    logger: createLogger({ level: 'silent', pretty: false, enabled: false }),
+  });
+  sessions = manager;
+
+  http = createServer(async (request, response) => {
+    const sessionId = request.headers['mcp-session-id'];
+    const transport =
+      typeof sessionId === 'string'
+        ? manager.get(sessionId)?.transport
+        : await manager.create();
+    if (!(transport instanceof StreamableHTTPServerTransport)) {
+      response.writeHead(404).end();
+      return;
+    }
+    await transport.handleRequest(request, response);
+  });
+  await new Promise<void>(resolve => http?.listen(0, '127.0.0.1', resolve));
+  const { port } = http.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}/mcp`;
+
+  const send = (method: string, sessionId?: string, body?: unknown) =>
+    fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'MCP-Protocol-Version': '2025-06-18',
+        ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+  const initialize = async () => {
+    const response = await send('POST', undefined, INITIALIZE);
+    await response.text();
+    const sessionId = response.headers.get('mcp-session-id');
+    if (!sessionId) {
+      throw new Error(`initialize failed with HTTP ${response.status}`);
+    }
+    return sessionId;
+  };
+
+  return { manager, send, initialize };
+}
+
+afterEach(async () => {
+  await sessions?.closeAll();
+  sessions = undefined;
+  await new Promise(resolve => http?.close(resolve));
+  http = undefined;
+});
+
+describe('SessionManager', () => {
+  it('stores a session once initialize assigns its ID', async () => {
+    const { manager, initialize } = await listen();
+
+    const sessionId = await initialize();
+    expect(manager.size).toBe(1);
+    expect(manager.get(sessionId)?.transport).toBeInstanceOf(
+      StreamableHTTPServerTransport
+    );
+  });
+
+  it('terminates a session on DELETE', async () => {
+    const { manager, send, initialize } = await listen();
+    const sessionId = await initialize();
+
+    const response = await send('DELETE', sessionId);
+    expect(response.status).toBe(200);
+    expect(manager.get(sessionId)).toBeUndefined();
+    expect((await send('DELETE', sessionId)).status).toBe(404);
+  });
+
+  it('closes sessions that stay idle past the timeout', async () => {
+    const { manager, initialize } = await listen();
+    const sessionId = await initialize();
+
+    await manager.sweep(Date.now() + IDLE_TIMEOUT / 2);
+    expect(manager.get(sessionId)).toBeDefined();
+
+    await manager.sweep(Date.now() + IDLE_TIMEOUT + 1);
+    expect(manager.get(sessionId)).toBeUndefined();
+    expect(manager.size).toBe(0);
+  });
+
+  it('counts lookups as activity', async () => {
+    const { manager, initialize } = await listen();
+    const sessionId = await initialize();
+    const createdAt = manager.get(sessionId)?.createdAt ?? 0;
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(manager.get(sessionId)?.lastActivity).toBeGreaterThan(createdAt);
+  });
+});
@@ -0,0 +1,277 @@
+import { randomUUID } from 'node:crypto';
+import type { ServerResponse } from 'node:http';
+import type { FastifyBaseLogger } from 'fastify';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { WebSocket } from 'ws';
+import { SUCCESS_MESSAGES } from '../config/constants.js';
+import type { Principal } from '../auth/types.js';
+import { metrics } from '../metrics/metrics.js';
+import { countMessages } from '../metrics/transportMetrics.js';
+import { traceTransport } from '../tracing/mcpTracing.js';
+import type { SessionServer, SessionState } from './serverFactory.js';
+import {
+  WebSocketServerTransport,
+  type WebSocketServerTransportOptions,
+} from './websocketServerTransport.js';
+
+export interface SessionManagerOptions {
+  /** Builds a fresh MCP server for every new session */
+  createServer: () => SessionServer;
+  /** Milliseconds of inactivity after which a session is closed */
+  idleTimeout: number;
+  /** How often idle sessions are swept (defaults to a quarter of idleTimeout, max 60s) */
+  sweepInterval?: number;
+  logger: FastifyBaseLogger;
+}
+
+/**
+ * A live MCP session: its own protocol server, transport and state
+ */
+export interface McpSession {
+  id: string;
+  server: McpServer;
+  /** Streamable HTTP, WebSocket, or the deprecated HTTP+SSE transport */
+  transport:
+    | StreamableHTTPServerTransport
+    | SSEServerTransport
+    | WebSocketServerTransport;
+  state: SessionState;
+  /** Caller that opened the session, when the transport is authenticated */
+  principal?: Principal | undefined;
+  createdAt: number;
+  lastActivity: number;
+}
+
+/**
+ * Tracks MCP sessions by session ID
+ * Streamable HTTP sessions only come into existence through an `initialize`
+ * request, WebSocket and legacy SSE sessions when their connection opens.
+ * Sessions are removed when the client sends DELETE, the transport closes or
+ * they go idle
+ */
+export class SessionManager {
+  private readonly sessions = new Map<string, McpSession>();
+  private readonly sweepTimer: ReturnType<typeof setInterval>;
+  private readonly createServer: () => SessionServer;
+  private readonly logger: FastifyBaseLogger;
+  private readonly idleTimeout: number;
+
+  constructor(options: SessionManagerOptions) {
+    this.createServer = options.createServer;
+    this.logger = options.logger;
+    this.idleTimeout = options.idleTimeout;
+
+    const sweepInterval =
+      options.sweepInterval ?? Math.min(options.idleTimeout / 4, 60_000);
+    this.sweepTimer = setInterval(() => {
+      void this.sweep();
+    }, sweepInterval);
+    // Never keep the process alive just to sweep sessions
+    this.sweepTimer.unref();
+  }
+
+  /** Number of currently open sessions */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Looks up a session and marks it as active
+   * @returns The session, or undefined when it is unknown or expired
+   */
+  get(sessionId: string): McpSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  /**
+   * Creates a server and transport pair for a new session
+   * The session is only stored once the transport has processed the
+   * `initialize` request and assigned the session ID
+   * @param principal Caller that owns the session, when authenticated
+   */
+  async create(
+    principal?: Principal | undefined
+  ): Promise<StreamableHTTPServerTransport> {
+    const { server, state } = this.createServer();
+    const createdAt = Date.now();
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        this.register({
+          id: sessionId,
+          server,
+          transport,
+          state,
+          principal,
+          createdAt,
+          lastActivity: Date.now(),
+        });
+      },
+    });
+
+    // Set before connecting so the MCP server chains its own close handler
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.forget(transport.sessionId, 'closed');
+      }
+    };
+
+    await server.connect(transport);
+    this.instrument(transport);
+    return transport;
+  }
+
+  /**
+   * Opens a legacy HTTP+SSE session on a GET response
+   * The session exists as soon as the event stream announces its message
+   * endpoint, before the client initializes
+   * @param endpoint Path the client POSTs its messages to
+   * @param response Response the event stream is written to
+   * @param principal Caller that owns the session, when authenticated
+   */
+  async createSse(
+    endpoint: string,
+    response: ServerResponse,
+    principal?: Principal | undefined
+  ): Promise<SSEServerTransport> {
+    const { server, state } = this.createServer();
+    const transport = new SSEServerTransport(endpoint, response);
+    transport.onclose = () => this.forget(transport.sessionId, 'closed');
+
+    this.register({
+      id: transport.sessionId,
+      server,
+      transport,
+      state,
+      principal,
+      createdAt: Date.now(),
+      lastActivity: Date.now(),
+    });
+    try {
+      // Connecting starts the event stream
+      await server.connect(transport);
+    } catch (error) {
+      this.forget(transport.sessionId, 'failed');
+      throw error;
+    }
+    this.instrument(transport);
+    return transport;
+  }
+
+  /**
+   * Opens a session on an accepted WebSocket, with its own MCP server
+   * Messages and keepalive pongs count as activity, so an open connection
+   * only expires once its client stops answering
+   * @param principal Caller that owns the session, when authenticated
+   */
+  async createWebSocket(
+    socket: WebSocket,
+    options: WebSocketServerTransportOptions,
+    principal?: Principal | undefined
+  ): Promise<WebSocketServerTransport> {
+    const { server, state } = this.createServer();
+    const transport = new WebSocketServerTransport(socket, options);
+    transport.onclose = () => this.forget(transport.sessionId, 'closed');
+    transport.onactivity = () => {
+      // Looking the session up marks it active
+      this.get(transport.sessionId);
+    };
+
+    this.register({
+      id: transport.sessionId,
+      server,
+      transport,
+      state,
+      principal,
+      createdAt: Date.now(),
+      lastActivity: Date.now(),
+    });
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      this.forget(transport.sessionId, 'failed');
+      throw error;
+    }
+    this.instrument(transport);
+    return transport;
+  }
+
+  /**
+   * Closes a session, tearing down its server and transport together
+   * @returns false when the session did not exist
+   */
+  async close(sessionId: string, reason = 'closed'): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    this.forget(sessionId, reason);
+    try {
+      // Closing the server also closes its transport
+      await session.server.close();
+    } catch (error) {
+      this.logger.warn(
+        { sessionId, error: error instanceof Error ? error.message : error },
+        'Failed to close MCP session'
+      );
+    }
+    return true;
+  }
+
+  /** Closes every session that has been idle for longer than the timeout */
+  async sweep(now: number = Date.now()): Promise<void> {
+    const expired = [...this.sessions.values()]
+      .filter(session => now - session.lastActivity > this.idleTimeout)
+      .map(session => session.id);
+
+    await Promise.all(
+      expired.map(sessionId => this.close(sessionId, 'expired'))
+    );
+  }
+
+  /** Stops the sweeper and closes all open sessions */
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    await Promise.all(
+      [...this.sessions.keys()].map(sessionId =>
+        this.close(sessionId, 'shutdown')
+      )
+    );
+  }
+
+  /** Traces and counts the messages of a connected transport */
+  private instrument(transport: McpSession['transport']) {
+    traceTransport(transport);
+    countMessages(transport);
+  }
+
+  private register(session: McpSession) {
+    this.sessions.set(session.id, session);
+    metrics.activeSessions.inc();
+    this.logger.info(
+      { sessionId: session.id },
+      SUCCESS_MESSAGES.SESSION_CREATED
+    );
+  }
+
+  private forget(sessionId: string, reason: string) {
+    if (this.sessions.delete(sessionId)) {
+      metrics.activeSessions.dec();
+      metrics.closedSessions.inc({ reason });
+      this.logger.info(
+        { sessionId, reason },
+        SUCCESS_MESSAGES.SESSION_DESTROYED
+      );
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import Fastify from 'fastify';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ERROR_MESSAGES } from '../config/constants.js';
+import helloPlugin from '../plugins/helloPlugin.js';
+import { createLogger } from '../utils/logger.js';
+import { createMCPServer } from './serverFactory.js';
+import { SessionManager } from './sessionManager.js';
+import sseTransport from './sseTransport.js';
+
+const IDLE_TIMEOUT = 60_000;
+const KEEPALIVE_INTERVAL = 20;
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2024-11-05',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+  },
+};
+
+let fastify: ReturnType<typeof Fastify> | undefined;
+let sessions: SessionManager | undefined;
+const streams: ReadableStreamDefaultReader<Uint8Array>[] = [];
+
+/** Serves the legacy SSE routes on a real port, as streams need one */
+async function listen(keepaliveInterval = KEEPALIVE_INTERVAL) {
+  const manager = new SessionManager({
+    createServer: () => createMCPServer([helloPlugin]),
+    idleTimeout: IDLE_TIMEOUT,
+    logger: createLogger({ level: 'silent', pretty: false, enabled: false }),
+  });
+  sessions = manager;
+
+  // Streams never go idle, so closing must not wait for them
+  const server = Fastify({ forceCloseConnections: true });
+  fastify = server;
+  server.decorateRequest('principal', undefined);
+  await server.register(sseTransport, {
+    sessions: manager,
+    keepaliveInterval,
+  });
+  await server.listen({ port: 0, host: '127.0.0.1' });
+  const { port } = server.server.address() as AddressInfo;
+  const base = `http://127.0.0.1:${port}`;
+
+  /** Opens a stream and waits for the event naming the message endpoint */
+  const open = async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${base}/sse`, { signal: controller.signal });
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    streams.push(reader);
+
+    const decoder = new TextDecoder();
+    let received = '';
+    /** Reads the stream until it contains the text */
+    const waitFor = async (text: string) => {
+      while (!received.includes(text)) {
+        const { value, done } = await reader.read();
+        if (done) {
+          throw new Error(`Stream ended before "${text}"`);
+        }
+        received += decoder.decode(value, { stream: true });
+      }
+      return received;
+    };
+
+    const endpoint = /data: (\S+)/.exec(await waitFor('\n\n'))?.[1] ?? '';
+    const sessionId = new URL(endpoint, base).searchParams.get('sessionId');
+    return {
+      response,
+      waitFor,
+      endpoint,
+      sessionId: sessionId ?? '',
+      disconnect: () => controller.abort(),
+    };
+  };
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${base}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  return { manager, open, post };
+}
+
+afterEach(async () => {
+  for (const reader of streams.splice(0)) {
+    await reader.cancel().catch(() => {});
+  }
+  await sessions?.closeAll();
+  sessions = undefined;
+  await fastify?.close();
+  fastify = undefined;
+  vi.restoreAllMocks();
+});
+
+describe('legacy HTTP+SSE transport', () => {
+  it('opens a session and answers messages on the stream', async () => {
+    const { manager, open, post } = await listen();
+
+    const { response, waitFor, endpoint, sessionId } = await open();
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    expect(endpoint).toBe(`/messages?sessionId=${sessionId}`);
+    expect(manager.get(sessionId)).toBeDefined();
+
+    expect((await post(endpoint, INITIALIZE)).status).toBe(202);
+    expect(await waitFor('"serverInfo"')).toContain('event: message');
+  });
+
+  it('sends keepalive comments that mark the session active', async () => {
+    const { manager, open } = await listen();
+    const { waitFor, sessionId } = await open();
+    const lookups = vi.spyOn(manager, 'get');
+
+    expect(await waitFor(': keepalive\n\n')).toMatch(/^event: endpoint/);
+    expect(lookups).toHaveBeenCalledWith(sessionId);
+  });
+
+  it('sends no keepalive comments when disabled', async () => {
+    const { manager, open } = await listen(0);
+    const { sessionId } = await open();
+    const lookups = vi.spyOn(manager, 'get');
+
+    await new Promise(resolve => setTimeout(resolve, 3 * KEEPALIVE_INTERVAL));
+    expect(lookups).not.toHaveBeenCalled();
+    expect(manager.get(sessionId)).toBeDefined();
+  });
+
+  it('closes the session when the client disconnects', async () => {
+    const { manager, open } = await listen();
+    const { disconnect, sessionId } = await open();
+
+    disconnect();
+    await expect.poll(() => manager.size).toBe(0);
+    expect(manager.get(sessionId)).toBeUndefined();
+  });
+
+  it('requires a known session for messages', async () => {
+    const { post } = await listen();
+
+    expect((await post('/messages', INITIALIZE)).status).toBe(400);
+    const unknown = await post('/messages?sessionId=missing', INITIALIZE);
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toMatchObject({
+      jsonrpc: '2.0',
+      error: { message: ERROR_MESSAGES.SESSION_NOT_FOUND },
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  API_ENDPOINTS,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+} from '../config/constants.js';
+import { createJsonRpcError } from '../utils/errorHandler.js';
+import type { SessionManager } from './sessionManager.js';
+
+export interface SseTransportOptions {
+  sessions: SessionManager;
+  /** Milliseconds between keepalive comments on a stream; 0 disables them */
+  keepaliveInterval: number;
+}
+
+/** SSE comment line, ignored by clients */
+const KEEPALIVE_COMMENT = ': keepalive\n\n';
+
+/**
+ * Fastify plugin serving the deprecated HTTP+SSE transport for clients that
+ * predate Streamable HTTP
+ * `GET /sse` opens a session and streams server messages as events, the
+ * first of which names the message endpoint; the client POSTs its messages
+ * to `/messages?sessionId=...` and receives the responses on the stream.
+ * Keepalive comments stop proxies from closing a quiet stream, and each one
+ * marks the session active, so a listening client does not expire.
+ */
+const sseTransport: FastifyPluginAsync<SseTransportOptions> = async (
+  fastify,
+  { sessions, keepaliveInterval }
+) => {
+  fastify.get(
+    API_ENDPOINTS.SSE,
+    // Event streams are described by the MCP specification, not OpenAPI
+    { schema: { hide: true } },
+    async (request, reply) => {
+      // The transport writes the event stream to the raw response
+      reply.hijack();
+      try {
+        const transport = await sessions.createSse(
+          API_ENDPOINTS.MESSAGES,
+          reply.raw,
+          request.principal
+        );
+        request.log.info(
+          { sessionId: transport.sessionId },
+          'Legacy SSE stream opened'
+        );
+
+        if (keepaliveInterval > 0) {
+          const stream = reply.raw;
+          const timer = setInterval(() => {
+            if (!stream.writableEnded) {
+              stream.write(KEEPALIVE_COMMENT);
+              // Looking the session up marks it active
+              sessions.get(transport.sessionId);
+            }
+          }, keepaliveInterval);
+          timer.unref();
+          stream.once('close', () => clearInterval(timer));
+        }
+      } catch (error) {
+        fastify.log.error({ error }, 'SSE connection error');
+        if (!reply.raw.headersSent) {
+          reply.raw.writeHead(HTTP_STATUS.INTERNAL_SERVER_ERROR).end();
+        }
+      }
+    }
+  );
+
+  fastify.post<{ Querystring: { sessionId?: string } }>(
+    API_ENDPOINTS.MESSAGES,
+    { schema: { hide: true } },
+    async (request, reply) => {
+      const { sessionId } = request.query;
+      if (!sessionId) {
+        return reply
+          .status(HTTP_STATUS.BAD_REQUEST)
+          .send(
+            createJsonRpcError(
+              ErrorCode.ConnectionClosed,
+              ERROR_MESSAGES.SSE_SESSION_REQUIRED
+            )
+          );
+      }
+
+      const session = sessions.get(sessionId);
+      // Sessions are bound to their creator and to the transport that
+      // opened them; anything else is an unknown session
+      if (
+        !(session?.transport instanceof SSEServerTransport) ||
+        session.principal?.subject !== request.principal?.subject
+      ) {
+        return reply
+          .status(HTTP_STATUS.NOT_FOUND)
+          .send(
+            createJsonRpcError(
+              ErrorCode.ConnectionClosed,
+              ERROR_MESSAGES.SESSION_NOT_FOUND
+            )
+          );
+      }
+
+      // The transport acknowledges with 202 and answers on the event stream
+      reply.hijack();
+      try {
+        await session.transport.handlePostMessage(
+          request.raw,
+          reply.raw,
+          request.body
+        );
+      } catch (error) {
+        // The transport has already sent the error status
+        fastify.log.error({ error, sessionId }, 'SSE message error');
+      }
+    }
+  );
+};
+
+export default sseTransport;
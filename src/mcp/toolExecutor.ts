@@ -0,0 +1,374 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z, type ZodRawShape, type ZodTypeAny } from 'zod';
+import type { AuditLog } from '../audit/auditLog.js';
+import type { AuditOutcome } from '../audit/types.js';
+import type { AccessPolicy } from '../auth/policy.js';
+import { ERROR_MESSAGES } from '../config/constants.js';
+import { toJsonSchema } from '../schemas/jsonSchema.js';
+import { clientKey, type RateLimiter } from '../rateLimit/rateLimiter.js';
+import {
+  AppError,
+  ForbiddenError,
+  logMessage,
+  NotFoundError,
+  RateLimitError,
+  toAppError,
+  toMcpError,
+  ToolExecutionError,
+  toToolErrorResult,
+  ValidationError,
+} from '../utils/errorHandler.js';
+import {
+  createHandlerContext,
+  type HandlerContext,
+  type McpPlugin,
+  type ToolCaller,
+  type ToolDefinition,
+  type ToolMiddleware,
+} from './plugin.js';
+import { runToolMiddleware } from './toolMiddleware.js';
+
+/**
+ * Single place where tools are run, shared by the MCP server and the REST
+ * bridge so both paths behave identically
+ */
+
+export type ToolRegistry = ReadonlyMap<string, ToolDefinition>;
+
+/**
+ * Collects every plugin tool by name
+ * @throws When two plugins register the same tool name
+ */
+export function collectTools(plugins: readonly McpPlugin[]): ToolRegistry {
+  const tools = new Map<string, ToolDefinition>();
+  for (const plugin of plugins) {
+    for (const tool of plugin.tools ?? []) {
+      if (tools.has(tool.name)) {
+        throw new Error(
+          `Tool "${tool.name}" from plugin "${plugin.name}" is already registered`
+        );
+      }
+      tools.set(tool.name, tool);
+    }
+  }
+  return tools;
+}
+
+/**
+ * Validates raw arguments against a tool's input schema
+ * @throws ValidationError listing every invalid field
+ */
+export function parseToolArgs(
+  tool: ToolDefinition,
+  args: unknown
+): z.objectOutputType<ToolDefinition['inputSchema'], ZodTypeAny> {
+  const result = z.object(tool.inputSchema).safeParse(args ?? {});
+  if (!result.success) {
+    const messages = result.error.errors
+      .map(err => `${err.path.join('.')}: ${err.message}`)
+      .join(', ');
+    throw new ValidationError(
+      `Invalid arguments for tool ${tool.name}: ${messages}`,
+      result.error.errors
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Access checks and middleware applied to every tool call, over MCP and the
+ * REST bridge
+ */
+export interface ToolGuards {
+  policy: AccessPolicy;
+  /** Per-client tool rate limits and quotas; unlimited when omitted */
+  limiter?: RateLimiter | undefined;
+  /** Records every call attempt, allowed or not */
+  audit?: AuditLog | undefined;
+  /** Runs around every tool handler, outside each tool's own middleware */
+  middleware?: readonly ToolMiddleware[] | undefined;
+}
+
+/**
+ * Checks that the caller may run the tool right now
+ * @param client - Rate limit key; defaults to the principal, then the session
+ * @throws ForbiddenError or RateLimitError
+ */
+export async function checkToolCall(
+  tool: ToolDefinition,
+  context: HandlerContext,
+  { policy, limiter }: ToolGuards,
+  client: string = clientKey(context.principal, context.sessionId ?? 'local')
+): Promise<void> {
+  policy.authorize(tool, context.principal);
+  await limiter?.checkTool(tool, client);
+}
+
+/**
+ * Runs a tool with already-validated arguments through its middleware chain
+ * @param toolCaller - Gives the handler a `callTool` for nested tool calls
+ * @throws ToolExecutionError when the handler or a middleware throws
+ */
+export function executeTool(
+  tool: ToolDefinition,
+  args: z.objectOutputType<ToolDefinition['inputSchema'], ZodTypeAny>,
+  context: HandlerContext,
+  middleware: readonly ToolMiddleware[] = [],
+  toolCaller?: (context: HandlerContext) => ToolCaller
+): Promise<CallToolResult> {
+  return runToolMiddleware({ tool, args, context }, middleware, toolCaller);
+}
+
+function auditOutcome(error: unknown): AuditOutcome {
+  if (error instanceof ForbiddenError) {
+    return 'denied';
+  }
+  if (error instanceof RateLimitError) {
+    return 'rate_limited';
+  }
+  if (error instanceof ValidationError) {
+    return 'invalid_arguments';
+  }
+  switch (toAppError(error).code) {
+    case 'TIMEOUT':
+      return 'timeout';
+    case 'CANCELLED':
+      return 'cancelled';
+    default:
+      return 'error';
+  }
+}
+
+/**
+ * Runs a complete tool call: access checks, argument validation, execution
+ * and the audit record, in that order
+ * Tools the handler calls through `context.callTool` run the same way, as
+ * the same caller
+ * @param client - Rate limit key; defaults to the principal, then the session
+ * @throws ForbiddenError, RateLimitError or ValidationError when the call is
+ * rejected, ToolExecutionError when the handler or a middleware throws
+ */
+export async function callTool(
+  tool: ToolDefinition,
+  rawArgs: unknown,
+  context: HandlerContext,
+  guards: ToolGuards,
+  client: string = clientKey(context.principal, context.sessionId ?? 'local')
+): Promise<CallToolResult> {
+  const startedAt = Date.now();
+  let result: CallToolResult | undefined;
+  let failure: unknown;
+
+  try {
+    await checkToolCall(tool, context, guards, client);
+    const args = parseToolArgs(tool, rawArgs);
+    result = await executeTool(
+      tool,
+      args,
+      context,
+      guards.middleware,
+      handlerContext => createToolCaller(handlerContext, guards, client)
+    );
+    return result;
+  } catch (error) {
+    failure = error;
+    throw error;
+  } finally {
+    await guards.audit?.record({
+      timestamp: new Date(startedAt).toISOString(),
+      tool: tool.name,
+      sessionId: context.sessionId,
+      principal: context.principal && {
+        subject: context.principal.subject,
+        kind: context.principal.kind,
+        clientId: context.principal.clientId,
+      },
+      client,
+      arguments: rawArgs ?? {},
+      durationMs: Date.now() - startedAt,
+      outcome: result
+        ? result.isError
+          ? 'tool_error'
+          : 'success'
+        : auditOutcome(failure),
+      ...(failure !== undefined && {
+        error: logMessage(failure),
+      }),
+      ...(result && {
+        resultSize: Buffer.byteLength(JSON.stringify(result)),
+      }),
+    });
+  }
+}
+
+/**
+ * Reads the structured content of a successful tool result
+ * @throws ToolExecutionError when the result is an error or has no
+ * structured content
+ */
+export function structuredContentOf<Output extends ZodRawShape>(
+  tool: ToolDefinition<ZodRawShape, Output>,
+  result: CallToolResult
+): z.objectOutputType<Output, ZodTypeAny> {
+  if (result.isError || !result.structuredContent) {
+    const text = result.content.find(block => block.type === 'text');
+    throw new ToolExecutionError(
+      tool.name,
+      new AppError(
+        text?.type === 'text'
+          ? text.text
+          : `Tool ${tool.name} returned no structured content`
+      )
+    );
+  }
+  // Output middleware has validated it against the tool's schema
+  return result.structuredContent as z.objectOutputType<Output, ZodTypeAny>;
+}
+
+/**
+ * Builds the `callTool` of a handler, resource or prompt context: tools run
+ * as the context's caller, under the same guards as MCP tool calls
+ * @param client - Rate limit key; defaults to the principal, then the session
+ */
+export function createToolCaller(
+  context: HandlerContext,
+  guards: ToolGuards,
+  client?: string
+): ToolCaller {
+  return async (tool, args) =>
+    structuredContentOf(
+      tool,
+      await callTool(tool, args, context, guards, client)
+    );
+}
+
+/**
+ * Describes a tool the same way `tools/list` does, with JSON Schemas for its
+ * input and, when declared, its structured output
+ */
+export function describeTool(tool: ToolDefinition): Tool {
+  return {
+    name: tool.name,
+    ...(tool.title && { title: tool.title }),
+    description: tool.description,
+    inputSchema: toJsonSchema(
+      z.object(tool.inputSchema)
+    ) as Tool['inputSchema'],
+    ...(tool.outputSchema && {
+      outputSchema: toJsonSchema(
+        z.object(tool.outputSchema)
+      ) as Tool['outputSchema'],
+    }),
+  };
+}
+
+/**
+ * Tools enabled on one session's server, on top of the access policy
+ * Every tool starts enabled; toggling one tells the client to refetch the
+ * tool list with `notifications/tools/list_changed`
+ */
+export class SessionTools {
+  private readonly disabled = new Set<string>();
+
+  constructor(
+    private readonly server: McpServer,
+    private readonly tools: ToolRegistry
+  ) {}
+
+  isEnabled(name: string): boolean {
+    return this.tools.has(name) && !this.disabled.has(name);
+  }
+
+  /** @throws NotFoundError when no plugin provides the tool */
+  enable(name: string): void {
+    this.requireTool(name);
+    if (this.disabled.delete(name)) {
+      this.server.sendToolListChanged();
+    }
+  }
+
+  /** @throws NotFoundError when no plugin provides the tool */
+  disable(name: string): void {
+    this.requireTool(name);
+    if (!this.disabled.has(name)) {
+      this.disabled.add(name);
+      this.server.sendToolListChanged();
+    }
+  }
+
+  private requireTool(name: string): void {
+    if (!this.tools.has(name)) {
+      throw new NotFoundError(`${ERROR_MESSAGES.TOOL_NOT_FOUND}: ${name}`);
+    }
+  }
+}
+
+/**
+ * Serves `tools/list` and `tools/call` from the registry
+ * Each caller only lists the tools the policy lets them use and the session
+ * has enabled; calling a tool outside the policy is rejected with a
+ * FORBIDDEN JSON-RPC error, and calls over a rate limit or quota with
+ * RATE_LIMITED. A handler that throws produces an error result instead,
+ * coded by the error it threw
+ * @returns The session's tool switches
+ */
+export function registerToolHandlers(
+  server: McpServer,
+  tools: ToolRegistry,
+  guards: ToolGuards
+): SessionTools {
+  const sessionTools = new SessionTools(server, tools);
+  server.server.registerCapabilities({ tools: { listChanged: true } });
+
+  server.server.setRequestHandler(ListToolsRequestSchema, (_request, extra) => {
+    const { principal } = createHandlerContext(extra);
+    return {
+      tools: [...tools.values()]
+        .filter(
+          tool =>
+            sessionTools.isEnabled(tool.name) &&
+            guards.policy.canUse(tool, principal)
+        )
+        .map(describeTool),
+    };
+  });
+
+  server.server.setRequestHandler(
+    CallToolRequestSchema,
+    async (request, extra) => {
+      const { name, arguments: rawArgs } = request.params;
+      const tool = tools.get(name);
+      if (!tool || !sessionTools.isEnabled(name)) {
+        // The MCP specification reports unknown tools as invalid params
+        throw toMcpError(
+          new ValidationError(
+            `${tool ? ERROR_MESSAGES.TOOL_DISABLED : ERROR_MESSAGES.TOOL_NOT_FOUND}: ${name}`
+          )
+        );
+      }
+
+      try {
+        return await callTool(
+          tool,
+          rawArgs,
+          createHandlerContext(extra),
+          guards
+        );
+      } catch (error) {
+        // Tool failures are results the model can see, not protocol errors
+        if (error instanceof ToolExecutionError) {
+          return toToolErrorResult(error);
+        }
+        throw toMcpError(error);
+      }
+    }
+  );
+
+  return sessionTools;
+}
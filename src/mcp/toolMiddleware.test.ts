@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { AccessPolicy } from '../auth/policy.js';
+import { createTestClient, type TestClient } from '../testing/index.js';
+import {
+  definePlugin,
+  defineTool,
+  type ToolDefinition,
+  type ToolResult,
+} from './plugin.js';
+import { enforceTimeouts } from './toolMiddleware.js';
+
+const OutputSchema = z.object({ total: z.number().int() });
+
+let client: TestClient | undefined;
+
+async function connect(tool: ToolDefinition) {
+  client = await createTestClient({
+    plugins: [definePlugin({ name: 'test', version: '1.0.0', tools: [tool] })],
+    guards: { policy: new AccessPolicy(), middleware: [enforceTimeouts(0)] },
+  });
+  return client;
+}
+
+/** A tool with an output schema that returns whatever the test gives it */
+function returning(result: ToolResult) {
+  return defineTool({
+    name: 'total',
+    description: 'Returns a total',
+    inputSchema: {},
+    outputSchema: OutputSchema.shape,
+    // Deliberately unchecked, so tests can return content that does not match
+    handler: async () => result as ToolResult<typeof OutputSchema.shape>,
+  });
+}
+
+afterEach(async () => {
+  await client?.close();
+  client = undefined;
+});
+
+describe('validateOutput', () => {
+  it('passes structured content that matches the output schema', async () => {
+    const mcp = await connect(
+      returning({
+        content: [{ type: 'text', text: 'Total: 3' }],
+        structuredContent: { total: 3 },
+      })
+    );
+
+    const result = await mcp.callTool('total');
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual({ total: 3 });
+  });
+
+  it.each([
+    ['mismatched', { total: 2.5 }],
+    ['missing', undefined],
+  ])('fails a result with %s structured content', async (_case, content) => {
+    const mcp = await connect(
+      returning({
+        content: [{ type: 'text', text: 'Total' }],
+        ...(content && { structuredContent: content }),
+      })
+    );
+
+    const result = await mcp.callTool('total');
+    expect(result.isError).toBe(true);
+    expect(result._meta?.['error']).toMatchObject({
+      code: 'INTERNAL_ERROR',
+      retryable: false,
+    });
+    expect(result._meta?.['error']).not.toHaveProperty('details');
+    // The schema errors describe the tool's own bug, so only logs see them
+    expect(result.content).toEqual([
+      { type: 'text', text: '[INTERNAL_ERROR] Internal server error' },
+    ]);
+  });
+
+  it('leaves error results unchecked', async () => {
+    const mcp = await connect(
+      returning({
+        content: [{ type: 'text', text: 'No total' }],
+        isError: true,
+      })
+    );
+
+    const result = await mcp.callTool('total');
+    expect(result.content).toEqual([{ type: 'text', text: 'No total' }]);
+  });
+});
+
+describe('enforceTimeouts', () => {
+  it('fails a call that outlives its tool timeout', async () => {
+    const mcp = await connect(
+      defineTool({
+        name: 'hang',
+        description: 'Never answers on its own',
+        inputSchema: {},
+        timeout: 20,
+        handler: (_args, { signal }) =>
+          new Promise((_resolve, reject) =>
+            signal?.addEventListener('abort', () => reject(signal.reason))
+          ),
+      })
+    );
+
+    const result = await mcp.callTool('hang');
+    expect(result._meta?.['error']).toMatchObject({
+      code: 'TIMEOUT',
+      retryable: true,
+    });
+  });
+});
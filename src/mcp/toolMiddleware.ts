@@ -0,0 +1,263 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { cacheInfo } from '../cache/toolCache.js';
+import { metrics, type ServerMetrics } from '../metrics/metrics.js';
+import { withSpan } from '../tracing/tracer.js';
+import {
+  AppError,
+  CancelledError,
+  logDetails,
+  logMessage,
+  TimeoutError,
+  toAppError,
+  ToolExecutionError,
+} from '../utils/errorHandler.js';
+import type {
+  HandlerContext,
+  ToolCall,
+  ToolCaller,
+  ToolMiddleware,
+} from './plugin.js';
+
+/**
+ * Middleware chains around tool handlers, plus the built-in middleware
+ * Chains run outermost first: the built-ins, then the global middleware,
+ * then the tool's own, then the handler
+ */
+
+type ToolCallHandler = (call: ToolCall) => Promise<CallToolResult>;
+
+/**
+ * Chains middleware around a handler, the first entry outermost
+ * @throws When a middleware calls `next` more than once
+ */
+export function composeMiddleware(
+  middleware: readonly ToolMiddleware[],
+  handler: ToolCallHandler
+): ToolCallHandler {
+  return middleware.reduceRight<ToolCallHandler>(
+    (next, current) => call => {
+      let called = false;
+      return current(call, (nextCall = call) => {
+        if (called) {
+          throw new Error(
+            `Tool middleware for ${call.tool.name} called next() twice`
+          );
+        }
+        called = true;
+        return next(nextCall);
+      });
+    },
+    handler
+  );
+}
+
+/**
+ * Wraps anything thrown further down the chain in a ToolExecutionError, so
+ * middleware failures are reported like handler failures
+ */
+export function normalizeErrors(): ToolMiddleware {
+  return async (call, next) => {
+    try {
+      return await next();
+    } catch (error) {
+      throw error instanceof ToolExecutionError
+        ? error
+        : new ToolExecutionError(call.tool.name, error);
+    }
+  };
+}
+
+/**
+ * Runs the rest of the chain inside a span, recording its latency and
+ * whether it failed
+ */
+export function timeCalls(
+  serverMetrics: ServerMetrics = metrics
+): ToolMiddleware {
+  return (call, next) => {
+    const labels = { tool: call.tool.name };
+    const endTimer = serverMetrics.toolDuration.startTimer(labels);
+    serverMetrics.toolCalls.inc(labels);
+
+    return withSpan(
+      `tool ${call.tool.name}`,
+      {
+        attributes: {
+          'mcp.tool.name': call.tool.name,
+          ...(call.context.sessionId && {
+            'mcp.session.id': call.context.sessionId,
+          }),
+        },
+      },
+      async span => {
+        try {
+          const result = await next();
+          if (result.isError) {
+            serverMetrics.toolErrors.inc(labels);
+          }
+          span.setAttribute(
+            'mcp.outcome',
+            result.isError ? 'tool_error' : 'success'
+          );
+          return result;
+        } catch (error) {
+          serverMetrics.toolErrors.inc(labels);
+          throw error;
+        } finally {
+          endTimer();
+        }
+      }
+    );
+  };
+}
+
+/**
+ * Checks successful results of tools with an output schema, which must
+ * carry matching `structuredContent`
+ * A mismatch is a bug in the tool, so it fails as an internal error rather
+ * than reaching clients that rely on the schema
+ */
+export function validateOutput(): ToolMiddleware {
+  return async (call, next) => {
+    const result = await next();
+    const { outputSchema } = call.tool;
+    if (!outputSchema || result.isError) {
+      return result;
+    }
+
+    const parsed = z.object(outputSchema).safeParse(result.structuredContent);
+    if (!parsed.success) {
+      throw new AppError(
+        `Tool ${call.tool.name} returned a result that does not match its output schema: ${parsed.error.errors
+          .map(
+            err =>
+              `${err.path.join('.') || 'structuredContent'}: ${err.message}`
+          )
+          .join(', ')}`,
+        parsed.error.errors
+      );
+    }
+    return { ...result, structuredContent: parsed.data };
+  };
+}
+
+/**
+ * Logs every call with its caller, duration and outcome
+ * Arguments are left out; the audit log keeps them, redacted
+ */
+export function logCalls(logger: FastifyBaseLogger): ToolMiddleware {
+  return async (call, next) => {
+    const startedAt = Date.now();
+    const fields = {
+      tool: call.tool.name,
+      sessionId: call.context.sessionId,
+      subject: call.context.principal?.subject,
+    };
+
+    try {
+      const result = await next();
+      logger.info(
+        {
+          ...fields,
+          durationMs: Date.now() - startedAt,
+          isError: result.isError === true,
+          cache: cacheInfo(result)?.status,
+        },
+        'Tool call completed'
+      );
+      return result;
+    } catch (error) {
+      logger.warn(
+        {
+          ...fields,
+          durationMs: Date.now() - startedAt,
+          code: toAppError(error).code,
+          error: logMessage(error),
+          details: logDetails(error),
+        },
+        'Tool call failed'
+      );
+      throw error;
+    }
+  };
+}
+
+/**
+ * Stops waiting for a call when the client cancels it or it runs past the
+ * tool's `timeout` (the default otherwise; 0 for none)
+ * Handlers get a signal aborted with the same CancelledError or TimeoutError
+ * the call fails with, so they and their outbound requests can stop early
+ */
+export function enforceTimeouts(defaultTimeout: number): ToolMiddleware {
+  return async (call, next) => {
+    const { name } = call.tool;
+    const timeout = call.tool.timeout ?? defaultTimeout;
+    const clientSignal = call.context.signal;
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const cancelled = () =>
+      new CancelledError(`Tool ${name} was cancelled by the client`);
+    if (clientSignal?.aborted) {
+      throw cancelled();
+    }
+
+    const cancel = () => controller.abort(cancelled());
+    clientSignal?.addEventListener('abort', cancel, { once: true });
+    const timer =
+      timeout > 0
+        ? setTimeout(
+            () =>
+              controller.abort(
+                new TimeoutError(
+                  `Tool ${name} did not finish within ${timeout}ms`,
+                  { timeout }
+                )
+              ),
+            timeout
+          )
+        : undefined;
+    const aborted = new Promise<never>((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), {
+        once: true,
+      });
+    });
+
+    try {
+      return await Promise.race([
+        next({ ...call, context: { ...call.context, signal } }),
+        aborted,
+      ]);
+    } finally {
+      clearTimeout(timer);
+      clientSignal?.removeEventListener('abort', cancel);
+    }
+  };
+}
+
+// Always applied, so every call is traced, counted, reports typed errors and
+// honors its output schema
+const BUILT_IN_MIDDLEWARE = [normalizeErrors(), timeCalls(), validateOutput()];
+
+/**
+ * Runs a call through the built-in, global and per-tool middleware, then
+ * the tool handler
+ * @param toolCaller - Builds the handler's `callTool` from the context it
+ * runs with, so nested calls see the signal middleware gave it
+ */
+export function runToolMiddleware(
+  call: ToolCall,
+  middleware: readonly ToolMiddleware[] = [],
+  toolCaller?: (context: HandlerContext) => ToolCaller
+): Promise<CallToolResult> {
+  return composeMiddleware(
+    [...BUILT_IN_MIDDLEWARE, ...middleware, ...(call.tool.middleware ?? [])],
+    ({ tool, args, context }) =>
+      tool.handler(
+        args,
+        toolCaller ? { ...context, callTool: toolCaller(context) } : context
+      )
+  )(call);
+}
@@ -0,0 +1,157 @@
+import { EventEmitter } from 'node:events';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { WebSocket } from 'ws';
+import { MCP_ERROR_CODES } from '../config/constants.js';
+import helloPlugin from '../plugins/helloPlugin.js';
+import { RateLimitError } from '../utils/errorHandler.js';
+import { createLogger } from '../utils/logger.js';
+import { createMCPServer } from './serverFactory.js';
+import { SessionManager } from './sessionManager.js';
+import {
+  WS_CLOSE_CODES,
+  type WebSocketServerTransportOptions,
+} from './websocketServerTransport.js';
+
+const IDLE_TIMEOUT = 60_000;
+
+/** The parts of a `ws` socket the transport uses, recording what is sent */
+class FakeSocket extends EventEmitter {
+  readonly OPEN = 1;
+  readyState = this.OPEN;
+  bufferedAmount = 0;
+  readonly sent: JSONRPCMessage[] = [];
+  closeCode: number | undefined;
+
+  send(data: string, callback?: (error?: Error) => void) {
+    this.sent.push(JSON.parse(data));
+    callback?.();
+  }
+
+  /** Delivers a client message */
+  receive(message: unknown) {
+    this.emit('message', Buffer.from(JSON.stringify(message)), false);
+  }
+
+  ping() {}
+
+  close(code?: number) {
+    if (this.readyState === this.OPEN) {
+      this.closeCode = code;
+      this.readyState = 3;
+      this.emit('close');
+    }
+  }
+
+  terminate() {
+    this.close();
+  }
+}
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+  },
+};
+
+let sessions: SessionManager | undefined;
+
+function createSessions() {
+  sessions = new SessionManager({
+    createServer: () => createMCPServer([helloPlugin]),
+    idleTimeout: IDLE_TIMEOUT,
+    logger: createLogger({ level: 'silent', pretty: false, enabled: false }),
+  });
+  return sessions;
+}
+
+async function open(
+  manager: SessionManager,
+  options: Partial<WebSocketServerTransportOptions> = {}
+) {
+  const socket = new FakeSocket();
+  const transport = await manager.createWebSocket(
+    socket as unknown as WebSocket,
+    { pingInterval: 0, maxBufferedBytes: 1024 * 1024, ...options }
+  );
+  return { socket, sessionId: transport.sessionId };
+}
+
+afterEach(async () => {
+  await sessions?.closeAll();
+  sessions = undefined;
+});
+
+describe('WebSocketServerTransport', () => {
+  it('serves MCP requests on a WebSocket session', async () => {
+    const manager = createSessions();
+    const { socket, sessionId } = await open(manager);
+
+    expect(manager.get(sessionId)).toBeDefined();
+    socket.receive(INITIALIZE);
+    await expect.poll(() => socket.sent).toHaveLength(1);
+    expect(socket.sent[0]).toMatchObject({
+      id: 1,
+      result: { serverInfo: { name: expect.any(String) } },
+    });
+  });
+
+  it('forgets a session when its connection closes', async () => {
+    const manager = createSessions();
+    const { socket, sessionId } = await open(manager);
+
+    socket.close();
+    expect(manager.get(sessionId)).toBeUndefined();
+    expect(manager.size).toBe(0);
+  });
+
+  it('closes the socket normally when the session expires', async () => {
+    const manager = createSessions();
+    const { socket } = await open(manager);
+
+    await manager.sweep(Date.now() + IDLE_TIMEOUT + 1);
+    expect(socket.closeCode).toBe(WS_CLOSE_CODES.NORMAL);
+  });
+
+  it('counts pongs as activity', async () => {
+    const manager = createSessions();
+    const { socket, sessionId } = await open(manager);
+    const openedAt = manager.get(sessionId)?.lastActivity ?? 0;
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    socket.emit('pong');
+    expect(manager.get(sessionId)?.lastActivity).toBeGreaterThan(openedAt);
+  });
+
+  it('answers requests refused by the admission check with its error', async () => {
+    const manager = createSessions();
+    let admitted = 0;
+    const { socket } = await open(manager, {
+      admit: async () => {
+        if (++admitted > 1) {
+          throw new RateLimitError('Rate limit exceeded (session limit)', 5);
+        }
+      },
+    });
+
+    socket.receive(INITIALIZE);
+    socket.receive({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    socket.receive({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    await expect.poll(() => socket.sent).toHaveLength(2);
+    expect(socket.sent[1]).toEqual({
+      jsonrpc: '2.0',
+      id: 2,
+      error: {
+        code: MCP_ERROR_CODES.RATE_LIMITED,
+        message: 'Rate limit exceeded (session limit)',
+        data: { code: 'RATE_LIMITED', retryable: true, retryAfter: 5 },
+      },
+    });
+  });
+});
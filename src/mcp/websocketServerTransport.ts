@@ -0,0 +1,200 @@
+import { randomUUID } from 'node:crypto';
+import type { IncomingHttpHeaders } from 'node:http';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ErrorCode,
+  JSONRPCMessageSchema,
+  type JSONRPCMessage,
+  type MessageExtraInfo,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { RawData, WebSocket } from 'ws';
+import {
+  createJsonRpcError,
+  describeError,
+  toAppError,
+} from '../utils/errorHandler.js';
+
+/** WebSocket close codes (RFC 6455 §7.4.1) */
+export const WS_CLOSE_CODES = {
+  NORMAL: 1000,
+  UNSUPPORTED_DATA: 1003,
+  INTERNAL_ERROR: 1011,
+  TRY_AGAIN_LATER: 1013,
+} as const;
+
+export interface WebSocketServerTransportOptions {
+  /** Milliseconds between keepalive pings; 0 disables them */
+  pingInterval: number;
+  /** Bytes that may wait unsent before a slow client is disconnected */
+  maxBufferedBytes: number;
+  /** Caller authenticated during the upgrade; handlers see it as authInfo */
+  authInfo?: AuthInfo | undefined;
+  /** Headers of the upgrade request, passed to handlers as request info */
+  headers?: IncomingHttpHeaders | undefined;
+  /**
+   * Runs before each request or notification is handled, e.g. to apply rate
+   * limits; a rejection answers a request with the error and drops a
+   * notification
+   */
+  admit?: ((sessionId: string) => Promise<void>) | undefined;
+}
+
+function toText(data: RawData): string {
+  if (Array.isArray(data)) {
+    return Buffer.concat(data).toString('utf8');
+  }
+  return Buffer.from(data).toString('utf8');
+}
+
+/**
+ * MCP transport carrying JSON-RPC messages in both directions over one
+ * WebSocket, one message per text frame
+ * Keepalive pings detect dead peers: a connection that misses a pong is
+ * terminated. Each send waits until its frame is flushed, so a slow reader
+ * slows down its own server instead of growing the queue; one that still
+ * falls more than `maxBufferedBytes` behind is disconnected.
+ */
+export class WebSocketServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+  /** Called whenever the client shows it is alive: messages and pongs */
+  onactivity?: () => void;
+
+  private pingTimer: ReturnType<typeof setInterval> | undefined;
+  /** Admission checks are asynchronous; this keeps messages in order */
+  private delivery: Promise<void> = Promise.resolve();
+  private awaitingPong = false;
+  private closed = false;
+
+  constructor(
+    private readonly socket: WebSocket,
+    private readonly options: WebSocketServerTransportOptions
+  ) {}
+
+  async start(): Promise<void> {
+    this.socket.on('message', (data, isBinary) => {
+      this.receive(data, isBinary);
+    });
+    this.socket.on('pong', () => {
+      this.awaitingPong = false;
+      this.onactivity?.();
+    });
+    this.socket.on('error', error => this.onerror?.(error));
+    this.socket.on('close', () => this.finish());
+
+    if (this.options.pingInterval > 0) {
+      this.pingTimer = setInterval(
+        () => this.ping(),
+        this.options.pingInterval
+      );
+      this.pingTimer.unref();
+    }
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed || this.socket.readyState !== this.socket.OPEN) {
+      throw new Error('Not connected');
+    }
+    if (this.socket.bufferedAmount > this.options.maxBufferedBytes) {
+      this.socket.close(
+        WS_CLOSE_CODES.TRY_AGAIN_LATER,
+        'Client is not reading messages fast enough'
+      );
+      throw new Error(
+        `WebSocket client fell more than ${this.options.maxBufferedBytes} bytes behind`
+      );
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.socket.send(JSON.stringify(message), error =>
+        error ? reject(error) : resolve()
+      );
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.socket.readyState === this.socket.OPEN) {
+      this.socket.close(WS_CLOSE_CODES.NORMAL);
+    }
+    this.finish();
+  }
+
+  private receive(data: RawData, isBinary: boolean): void {
+    this.onactivity?.();
+    if (isBinary) {
+      this.socket.close(
+        WS_CLOSE_CODES.UNSUPPORTED_DATA,
+        'MCP messages must be sent as text frames'
+      );
+      return;
+    }
+
+    let message: JSONRPCMessage;
+    try {
+      message = JSONRPCMessageSchema.parse(JSON.parse(toText(data)));
+    } catch (error) {
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      // Without a readable ID the error cannot be tied to a request
+      this.socket.send(
+        JSON.stringify(
+          createJsonRpcError(
+            ErrorCode.ParseError,
+            'Parse error: expected one JSON-RPC message per text frame'
+          )
+        )
+      );
+      return;
+    }
+
+    this.delivery = this.delivery.then(() => this.deliver(message));
+  }
+
+  private async deliver(message: JSONRPCMessage): Promise<void> {
+    const { admit } = this.options;
+    // Responses answer the server's own requests and are never refused
+    if (admit && 'method' in message) {
+      try {
+        await admit(this.sessionId);
+      } catch (error) {
+        if ('id' in message && !this.closed) {
+          const { message: text, ...data } = describeError(error);
+          await this.send({
+            jsonrpc: '2.0',
+            id: message.id,
+            error: { code: toAppError(error).jsonRpcCode, message: text, data },
+          }).catch(error => this.onerror?.(error));
+        }
+        return;
+      }
+    }
+
+    this.onmessage?.(message, {
+      ...(this.options.authInfo && { authInfo: this.options.authInfo }),
+      ...(this.options.headers && {
+        requestInfo: { headers: this.options.headers },
+      }),
+    });
+  }
+
+  private ping(): void {
+    if (this.awaitingPong) {
+      // No pong since the last ping: the client or network is gone
+      this.socket.terminate();
+      return;
+    }
+    this.awaitingPong = true;
+    this.socket.ping();
+  }
+
+  private finish(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    clearInterval(this.pingTimer);
+    this.onclose?.();
+  }
+}
@@ -0,0 +1,94 @@
+import type { IncomingMessage } from 'node:http';
+import type { FastifyPluginAsync } from 'fastify';
+import websocket from '@fastify/websocket';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { API_ENDPOINTS } from '../config/constants.js';
+import { clientKey, type RateLimiter } from '../rateLimit/rateLimiter.js';
+import { RateLimitError } from '../utils/errorHandler.js';
+import type { SessionManager } from './sessionManager.js';
+import { WS_CLOSE_CODES } from './websocketServerTransport.js';
+
+/** Subprotocol clients offer, and the server selects, on `/ws` */
+export const MCP_WS_SUBPROTOCOL = 'mcp';
+
+/** Largest message a client may send, matching the HTTP transports */
+const MAX_MESSAGE_BYTES = 4 * 1024 * 1024;
+
+export interface WebSocketTransportOptions {
+  sessions: SessionManager;
+  /** Milliseconds between keepalive pings; 0 disables them */
+  pingInterval: number;
+  /** Bytes a slow client may fall behind before it is disconnected */
+  maxBufferedBytes: number;
+  /** Limits each message like an HTTP request; unlimited when omitted */
+  limiter?: RateLimiter | undefined;
+}
+
+/**
+ * Fastify plugin serving MCP over a WebSocket at `/ws`
+ * Each connection is one session with its own MCP server; JSON-RPC messages
+ * flow both ways as text frames, so notifications need no second stream.
+ * Authentication and rate limits run on the upgrade request like any HTTP
+ * request, and rate limits again on every message, which counts as one
+ * request of the client and the session.
+ */
+const websocketTransport: FastifyPluginAsync<
+  WebSocketTransportOptions
+> = async (fastify, { sessions, pingInterval, maxBufferedBytes, limiter }) => {
+  await fastify.register(websocket, {
+    options: {
+      maxPayload: MAX_MESSAGE_BYTES,
+      // Browsers require the server to select one of the offered protocols
+      handleProtocols: protocols =>
+        protocols.has(MCP_WS_SUBPROTOCOL) ? MCP_WS_SUBPROTOCOL : false,
+    },
+  });
+
+  fastify.get(
+    API_ENDPOINTS.WS,
+    // WebSocket messages are described by the MCP specification, not OpenAPI
+    { websocket: true, schema: { hide: true } },
+    async (socket, request) => {
+      const client = clientKey(request.principal, `ip:${request.ip}`);
+      const admit =
+        limiter &&
+        (async (sessionId: string) => {
+          try {
+            await limiter.checkRequest(client, sessionId);
+          } catch (error) {
+            if (error instanceof RateLimitError) {
+              request.log.warn(
+                { sessionId, ...error.details },
+                'Rate limit exceeded'
+              );
+            }
+            throw error;
+          }
+        });
+
+      try {
+        const transport = await sessions.createWebSocket(
+          socket,
+          {
+            pingInterval,
+            maxBufferedBytes,
+            authInfo: (request.raw as IncomingMessage & { auth?: AuthInfo })
+              .auth,
+            headers: request.headers,
+            admit,
+          },
+          request.principal
+        );
+        request.log.info(
+          { sessionId: transport.sessionId },
+          'WebSocket connection opened'
+        );
+      } catch (error) {
+        fastify.log.error({ error }, 'WebSocket connection error');
+        socket.close(WS_CLOSE_CODES.INTERNAL_ERROR);
+      }
+    }
+  );
+};
+
+export default websocketTransport;
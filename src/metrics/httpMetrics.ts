@@ -0,0 +1,40 @@
+import type { FastifyInstance } from 'fastify';
+import { API_ENDPOINTS } from '../config/constants.js';
+import { metrics as defaultMetrics, type ServerMetrics } from './metrics.js';
+
+export interface HttpMetricsOptions {
+  metrics?: ServerMetrics | undefined;
+}
+
+/**
+ * Records HTTP route latency and serves `/metrics` in the Prometheus text
+ * format; MCP methods are counted by the session transports
+ * Routes are labelled by their pattern (`/tools/:name`), never the raw URL,
+ * to keep label cardinality bounded
+ */
+export async function registerMetrics(
+  fastify: FastifyInstance,
+  { metrics = defaultMetrics }: HttpMetricsOptions = {}
+): Promise<void> {
+  fastify.addHook('onResponse', async (request, reply) => {
+    metrics.httpDuration.observe(
+      {
+        method: request.method,
+        route: request.routeOptions.url ?? 'unmatched',
+        status_code: reply.statusCode,
+      },
+      reply.elapsedTime / 1000
+    );
+  });
+
+  fastify.get(
+    API_ENDPOINTS.METRICS,
+    {
+      schema: { tags: ['monitoring'], summary: 'Prometheus metrics' },
+    },
+    async (_request, reply) =>
+      reply
+        .type(metrics.registry.contentType)
+        .send(await metrics.registry.metrics())
+  );
+}
@@ -0,0 +1,3 @@
+export { metrics, methodLabel, ServerMetrics } from './metrics.js';
+export { registerMetrics, type HttpMetricsOptions } from './httpMetrics.js';
+export { countMessages } from './transportMetrics.js';
@@ -0,0 +1,119 @@
+import Fastify from 'fastify';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { afterEach, describe, expect, it } from 'vitest';
+import { defineTool, type ToolDefinition } from '../mcp/plugin.js';
+import { composeMiddleware, timeCalls } from '../mcp/toolMiddleware.js';
+import { registerMetrics } from './httpMetrics.js';
+import { methodLabel, ServerMetrics } from './metrics.js';
+import { countMessages } from './transportMetrics.js';
+
+const tool = defineTool({
+  name: 'total',
+  description: 'Returns a total',
+  inputSchema: {},
+  handler: async () => ({ content: [] }),
+}) as ToolDefinition;
+
+/** Label sets and values a counter or histogram count has recorded */
+async function samples(
+  metric: { get(): Promise<{ values: { labels: object; value: number }[] }> },
+  name?: string
+) {
+  const { values } = await metric.get();
+  return values
+    .filter(
+      value => !name || (value as { metricName?: string }).metricName === name
+    )
+    .map(({ labels, value }) => ({ labels, value }));
+}
+
+let fastify: ReturnType<typeof Fastify> | undefined;
+
+afterEach(async () => {
+  await fastify?.close();
+  fastify = undefined;
+});
+
+describe('registerMetrics', () => {
+  it('times routes by pattern and serves the Prometheus text format', async () => {
+    const metrics = new ServerMetrics();
+    const server = Fastify();
+    fastify = server;
+    await registerMetrics(server, { metrics });
+    server.get('/items/:id', async () => ({ ok: true }));
+
+    await server.inject({ method: 'GET', url: '/items/1' });
+    await server.inject({ method: 'GET', url: '/items/2' });
+    await server.inject({ method: 'GET', url: '/missing' });
+
+    const response = await server.inject({ method: 'GET', url: '/metrics' });
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(response.body).toContain(
+      'http_request_duration_seconds_count{method="GET",route="/items/:id",status_code="200"} 2'
+    );
+    expect(response.body).toContain(
+      'http_request_duration_seconds_count{method="GET",route="unmatched",status_code="404"} 1'
+    );
+    expect(response.body).toContain('process_cpu_seconds_total');
+  });
+});
+
+describe('timeCalls', () => {
+  it('counts calls, failures and their latency per tool', async () => {
+    const metrics = new ServerMetrics();
+    const outcomes = [
+      async () => ({ content: [] }),
+      async () => ({ content: [], isError: true }),
+      async () => {
+        throw new Error('boom');
+      },
+    ];
+
+    for (const outcome of outcomes) {
+      const call = composeMiddleware([timeCalls(metrics)], outcome);
+      await call({ tool, args: {}, context: {} }).catch(() => undefined);
+    }
+
+    expect(await samples(metrics.toolCalls)).toEqual([
+      { labels: { tool: 'total' }, value: 3 },
+    ]);
+    expect(await samples(metrics.toolErrors)).toEqual([
+      { labels: { tool: 'total' }, value: 2 },
+    ]);
+    expect(
+      await samples(
+        metrics.toolDuration,
+        'mcp_tool_call_duration_seconds_count'
+      )
+    ).toEqual([{ labels: { tool: 'total' }, value: 3 }]);
+  });
+});
+
+describe('countMessages', () => {
+  it('counts received requests and notifications by method', async () => {
+    const metrics = new ServerMetrics();
+    const received: unknown[] = [];
+    const transport = {
+      onmessage: (message: unknown) => received.push(message),
+    } as unknown as Transport;
+
+    countMessages(transport, metrics);
+    transport.onmessage?.({ jsonrpc: '2.0', id: 1, method: 'tools/call' });
+    transport.onmessage?.({ jsonrpc: '2.0', method: 'custom/ping' });
+    transport.onmessage?.({ jsonrpc: '2.0', id: 1, result: {} });
+
+    expect(received).toHaveLength(3);
+    expect(await samples(metrics.mcpRequests)).toEqual([
+      { labels: { method: 'tools/call' }, value: 1 },
+      { labels: { method: 'other' }, value: 1 },
+    ]);
+  });
+});
+
+describe('methodLabel', () => {
+  it('bounds the label values to known methods', () => {
+    expect(methodLabel('initialize')).toBe('initialize');
+    expect(methodLabel('x'.repeat(100))).toBe('other');
+  });
+});
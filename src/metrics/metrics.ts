@@ -0,0 +1,103 @@
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+import { MCP_METHODS } from '../config/constants.js';
+
+/**
+ * Prometheus instruments for tool calls, sessions, MCP traffic, HTTP routes
+ * and the weather upstream, collected in one registry served at `/metrics`
+ */
+export class ServerMetrics {
+  readonly registry = new Registry();
+
+  readonly toolCalls = new Counter({
+    name: 'mcp_tool_calls_total',
+    help: 'Tool calls executed, over MCP and the REST bridge',
+    labelNames: ['tool'] as const,
+    registers: [this.registry],
+  });
+
+  readonly toolErrors = new Counter({
+    name: 'mcp_tool_errors_total',
+    help: 'Tool calls that threw or returned an error result',
+    labelNames: ['tool'] as const,
+    registers: [this.registry],
+  });
+
+  readonly toolDuration = new Histogram({
+    name: 'mcp_tool_call_duration_seconds',
+    help: 'Tool handler latency',
+    labelNames: ['tool'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  readonly toolCacheLookups = new Counter({
+    name: 'mcp_tool_cache_lookups_total',
+    help: 'Result cache lookups for cacheable tools, by status (hit, stale, miss, bypass)',
+    labelNames: ['tool', 'status'] as const,
+    registers: [this.registry],
+  });
+
+  readonly activeSessions = new Gauge({
+    name: 'mcp_sessions_active',
+    help: 'Open MCP sessions',
+    registers: [this.registry],
+  });
+
+  readonly closedSessions = new Counter({
+    name: 'mcp_sessions_closed_total',
+    help: 'MCP sessions closed, by reason (closed, expired, shutdown)',
+    labelNames: ['reason'] as const,
+    registers: [this.registry],
+  });
+
+  readonly mcpRequests = new Counter({
+    name: 'mcp_requests_total',
+    help: 'JSON-RPC requests and notifications received by sessions, by method',
+    labelNames: ['method'] as const,
+    registers: [this.registry],
+  });
+
+  readonly httpDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency by route pattern',
+    labelNames: ['method', 'route', 'status_code'] as const,
+    registers: [this.registry],
+  });
+
+  readonly upstreamDuration = new Histogram({
+    name: 'weather_upstream_request_duration_seconds',
+    help: 'Weather provider latency, failures included',
+    labelNames: ['provider', 'operation'] as const,
+    registers: [this.registry],
+  });
+
+  readonly upstreamFailures = new Counter({
+    name: 'weather_upstream_failures_total',
+    help: 'Failed weather provider calls, by error code',
+    labelNames: ['provider', 'operation', 'code'] as const,
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+}
+
+const KNOWN_METHODS = new Set<string>(Object.values(MCP_METHODS));
+
+/**
+ * Maps a JSON-RPC method to a bounded label value
+ * Anything outside `MCP_METHODS` is counted as "other"
+ */
+export function methodLabel(method: string): string {
+  return KNOWN_METHODS.has(method) ? method : 'other';
+}
+
+/** Process-wide metrics, shared like the default logger */
+export const metrics = new ServerMetrics();
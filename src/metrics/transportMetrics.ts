@@ -0,0 +1,26 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  methodLabel,
+  metrics as defaultMetrics,
+  type ServerMetrics,
+} from './metrics.js';
+
+/**
+ * Counts every JSON-RPC request and notification a connected transport
+ * receives, by method
+ * Counting at the transport covers Streamable HTTP batches, legacy SSE
+ * posts and WebSocket frames alike
+ * Call after the server has connected to the transport
+ */
+export function countMessages(
+  transport: Transport,
+  metrics: ServerMetrics = defaultMetrics
+): void {
+  const onmessage = transport.onmessage;
+  transport.onmessage = (message, extra) => {
+    if ('method' in message) {
+      metrics.mcpRequests.inc({ method: methodLabel(message.method) });
+    }
+    onmessage?.(message, extra);
+  };
+}
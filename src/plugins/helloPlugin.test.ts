@@ -0,0 +1,72 @@
+import Fastify from 'fastify';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AuditLog } from '../audit/auditLog.js';
+import type { AuditRecord } from '../audit/types.js';
+import { AccessPolicy } from '../auth/policy.js';
+import type { Principal } from '../auth/types.js';
+import { registerPluginRoutes } from '../mcp/pluginLoader.js';
+import { createRouteToolCaller } from '../mcp/restBridge.js';
+import { handleError } from '../utils/errorHandler.js';
+import helloPlugin from './helloPlugin.js';
+
+let fastify: ReturnType<typeof Fastify> | undefined;
+
+/** Serves the plugin's routes as the given caller, auditing tool calls */
+async function serve(principal?: Principal) {
+  const records: AuditRecord[] = [];
+  const server = Fastify();
+  fastify = server;
+  server.setErrorHandler(handleError);
+  server.decorateRequest('principal', undefined);
+  server.addHook('onRequest', async request => {
+    request.principal = principal;
+  });
+
+  await registerPluginRoutes(server, [helloPlugin], {
+    callTool: createRouteToolCaller({
+      policy: new AccessPolicy(),
+      audit: new AuditLog({
+        store: {
+          append: async record => {
+            records.push(record);
+          },
+          query: async () => records,
+          close: async () => {},
+        },
+        redact: value => value,
+      }),
+    }),
+  });
+  return { server, records };
+}
+
+afterEach(async () => {
+  await fastify?.close();
+  fastify = undefined;
+});
+
+describe('GET /hello/:name', () => {
+  it('greets through the audited sayHello tool', async () => {
+    const { server, records } = await serve();
+
+    const response = await server.inject({ method: 'GET', url: '/hello/Ada' });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ greeting: 'Hello, Ada!' });
+    expect(records).toMatchObject([
+      { tool: 'sayHello', arguments: { name: 'Ada' }, outcome: 'success' },
+    ]);
+  });
+
+  it('requires the sayHello scope', async () => {
+    const { server, records } = await serve({
+      subject: 'bob',
+      kind: 'api-key',
+      clientId: 'bob',
+      scopes: [],
+    });
+
+    const response = await server.inject({ method: 'GET', url: '/hello/Ada' });
+    expect(response.statusCode).toBe(403);
+    expect(records).toMatchObject([{ tool: 'sayHello', outcome: 'denied' }]);
+  });
+});
@@ -1,50 +1,96 @@
 import { FastifyPluginAsync } from 'fastify';
+import {
+  definePlugin,
+  defineResource,
+  defineTool,
+  structuredResult,
+  type PluginRouteOptions,
+} from '../mcp/plugin.js';
+import { NameSchema } from '../schemas/commonSchemas.js';
+import { MCP_URIS, SERVER_CONFIG } from '../config/constants.js';
+import { toJsonSchema } from '../schemas/jsonSchema.js';
+import {
+  GreetingResponseSchema,
+  HelloParamsSchema,
+  type HelloParams,
+} from '../schemas/routeSchemas.js';
 
-// Type for route parameters
-type HelloParams = {
-  name: string;
-};
+/**
+ * MCP tool that greets a person by name
+ */
+const sayHello = defineTool({
+  name: 'sayHello',
+  title: 'Say Hello',
+  description: 'Says hello to a person by name',
+  scopes: ['hello'],
+  inputSchema: {
+    name: NameSchema,
+  },
+  outputSchema: GreetingResponseSchema.shape,
+  handler: async ({ name }) => {
+    const greeting = `Hello, ${name}!`;
+    return structuredResult({ greeting }, greeting);
+  },
+});
 
 /**
  * Fastify plugin that provides a simple hello endpoint
- * Returns a greeting message for the provided name parameter
+ * Returns a greeting message for the provided name parameter; the greeting
+ * comes from the sayHello tool, so its scope, rate limits and audit log
+ * apply as they do over MCP
  */
-const helloPlugin: FastifyPluginAsync = async fastify => {
+const helloRoutes: FastifyPluginAsync<PluginRouteOptions> = async (
+  fastify,
+  { callTool }
+) => {
   // Register the GET /hello/:name route
   fastify.get<{ Params: HelloParams }>(
     '/hello/:name',
     {
       schema: {
-        params: {
-          type: 'object',
-          properties: {
-            name: {
-              type: 'string',
-              minLength: 1,
-            },
-          },
-          required: ['name'],
-        },
+        tags: ['hello'],
+        summary: 'Greet a person by name',
+        params: toJsonSchema(HelloParamsSchema),
         response: {
-          200: {
-            type: 'object',
-            properties: {
-              greeting: { type: 'string' },
-            },
-            required: ['greeting'],
-          },
+          200: toJsonSchema(GreetingResponseSchema),
         },
       },
     },
-    async request => {
-      const { name } = request.params;
-
-      // Return greeting response
-      return {
-        greeting: `Hi, ${name}!`,
-      };
+    async (request, reply) => {
+      const { greeting } = await callTool(
+        sayHello,
+        request.params,
+        request,
+        reply
+      );
+      return { greeting };
     }
   );
 };
 
-export default helloPlugin;
+export default definePlugin({
+  name: 'hello',
+  version: '1.0.0',
+  tools: [sayHello],
+  resources: [
+    defineResource({
+      name: 'hello-message',
+      uri: MCP_URIS.HELLO_MESSAGE,
+      metadata: {
+        title: 'Hello Message',
+        description: 'Example resource with greeting content',
+        mimeType: 'text/plain',
+      },
+      read: async uri => ({
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'text/plain',
+            text: `Hello from ${SERVER_CONFIG.NAME}! Call the sayHello tool to greet someone by name.`,
+          },
+        ],
+      }),
+    }),
+  ],
+  routes: helloRoutes,
+});
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  CalculateOutputSchema,
+  EvaluateOutputSchema,
+} from '../schemas/toolSchemas.js';
+import { createTestClient, type TestClient } from '../testing/index.js';
+import mathPlugin from './mathPlugin.js';
+
+let client: TestClient | undefined;
+
+async function connect() {
+  client = await createTestClient({ plugins: [mathPlugin] });
+  return client;
+}
+
+afterEach(async () => {
+  await client?.close();
+  client = undefined;
+});
+
+describe('calculate', () => {
+  it('returns structured content matching its output schema', async () => {
+    const mcp = await connect();
+
+    const result = await mcp.callTool('calculate', {
+      a: 7,
+      b: 2,
+      operation: 'divide',
+    });
+    expect(CalculateOutputSchema.parse(result.structuredContent)).toEqual({
+      operation: 'divide',
+      a: 7,
+      b: 2,
+      result: 3.5,
+    });
+  });
+
+  it.each([
+    [{ a: 1, b: 0, operation: 'divide' }, 'Division by zero is not allowed'],
+    [
+      { a: 1e308, b: 10, operation: 'multiply' },
+      'Result is not a finite number',
+    ],
+  ])('reports %o as a validation error', async (args, message) => {
+    const mcp = await connect();
+
+    const result = await mcp.callTool('calculate', args);
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      { type: 'text', text: `[VALIDATION_ERROR] ${message}` },
+    ]);
+  });
+});
+
+describe('evaluate', () => {
+  it('returns the value, unit and steps', async () => {
+    const mcp = await connect();
+
+    const result = await mcp.callTool('evaluate', {
+      expression: '2 km to m',
+      explain: true,
+    });
+    expect(EvaluateOutputSchema.parse(result.structuredContent)).toMatchObject({
+      value: 2000,
+      unit: 'm',
+      result: '2000 m',
+      steps: expect.any(Array),
+    });
+  });
+});
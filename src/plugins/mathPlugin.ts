@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import { definePlugin, defineTool, structuredResult } from '../mcp/plugin.js';
+import { templatePrompt } from '../mcp/prompts.js';
+import { NumericStringSchema } from '../schemas/commonSchemas.js';
+import {
+  CalculateOutputSchema,
+  EvaluateOutputSchema,
+  EvaluateSchema,
+} from '../schemas/toolSchemas.js';
+import {
+  evaluateExpression,
+  formatResult,
+} from '../services/expression/index.js';
+import { ValidationError } from '../utils/errorHandler.js';
+
+export type Operation = 'add' | 'subtract' | 'multiply' | 'divide';
+
+const OPERATION_SYMBOLS: Record<Operation, string> = {
+  add: '+',
+  subtract: '-',
+  multiply: '×',
+  divide: '÷',
+};
+
+/**
+ * Applies one of the four basic operations
+ * @throws ValidationError when dividing by zero or when the result overflows
+ */
+export function performCalculation(
+  operation: Operation,
+  a: number,
+  b: number
+): number {
+  const result = applyOperation(operation, a, b);
+  if (!Number.isFinite(result)) {
+    throw new ValidationError('Result is not a finite number', {
+      operation,
+      a,
+      b,
+    });
+  }
+  return result;
+}
+
+function applyOperation(operation: Operation, a: number, b: number): number {
+  switch (operation) {
+    case 'add':
+      return a + b;
+    case 'subtract':
+      return a - b;
+    case 'multiply':
+      return a * b;
+    case 'divide':
+      if (b === 0) {
+        throw new ValidationError('Division by zero is not allowed');
+      }
+      return a / b;
+    default:
+      throw new ValidationError(
+        `Unknown operation: ${operation}. Supported: add, subtract, multiply, divide`
+      );
+  }
+}
+
+/**
+ * MCP tool for basic arithmetic on two numbers
+ */
+const calculate = defineTool({
+  name: 'calculate',
+  title: 'Calculate',
+  description:
+    'Performs basic arithmetic calculations (add, subtract, multiply, divide)',
+  scopes: ['math'],
+  inputSchema: {
+    a: z.number(),
+    b: z.number(),
+    operation: z.enum(['add', 'subtract', 'multiply', 'divide']),
+  },
+  outputSchema: CalculateOutputSchema.shape,
+  handler: async ({ operation, a, b }) => {
+    const result = performCalculation(operation, a, b);
+
+    return structuredResult(
+      { operation, a, b, result },
+      `${a} ${operation} ${b} = ${result}`
+    );
+  },
+});
+
+/**
+ * MCP tool evaluating whole expressions, so multi-step arithmetic takes one
+ * call instead of a chain of `calculate` calls
+ */
+const evaluate = defineTool({
+  name: 'evaluate',
+  title: 'Evaluate Expression',
+  description:
+    'Evaluates an arithmetic expression with precedence, parentheses, ^, functions (sqrt, log, ln, sin, cos, tan, min, max, round, ...), variables and unit conversions (e.g. "5 km to mi"). Set explain to get each step',
+  scopes: ['math'],
+  inputSchema: EvaluateSchema.shape,
+  outputSchema: EvaluateOutputSchema.shape,
+  handler: async ({ expression, variables, precision, explain }) => {
+    const { value, unit, steps } = evaluateExpression(expression, {
+      variables,
+      explain,
+    });
+    const formatted = formatResult({ value, unit, steps }, precision);
+    const text = `${expression} = ${formatted}`;
+
+    return structuredResult(
+      {
+        expression,
+        value,
+        ...(unit && { unit }),
+        result: formatted,
+        ...(explain && { steps }),
+      },
+      explain
+        ? `${text}\n\nSteps:\n${steps.map((step, index) => `${index + 1}. ${step}`).join('\n')}`
+        : text
+    );
+  },
+});
+
+/**
+ * Prompt asking the model to walk through a calculation step by step
+ */
+const explainCalculation = templatePrompt({
+  name: 'explain-calculation',
+  title: 'Explain This Calculation',
+  description:
+    'Explains step by step how a basic arithmetic result is obtained',
+  argsSchema: {
+    operation: z
+      .enum(['add', 'subtract', 'multiply', 'divide'])
+      .describe('The arithmetic operation to explain'),
+    a: NumericStringSchema.describe('First number for the calculation'),
+    b: NumericStringSchema.describe('Second number for the calculation'),
+  },
+  prepare: ({ operation, a, b }) => ({
+    symbol: OPERATION_SYMBOLS[operation],
+    result: performCalculation(operation, Number(a), Number(b)),
+  }),
+  messages: [
+    {
+      role: 'user',
+      text: 'Please explain this calculation step by step: {{a}} {{symbol}} {{b}}',
+    },
+    {
+      role: 'assistant',
+      text: 'The calculate tool reports that {{a}} {{symbol}} {{b}} = {{result}}.',
+    },
+    {
+      role: 'user',
+      text: 'Walk me through how that result is reached, as you would for a student. Mention any pitfalls such as sign handling or floating-point rounding.',
+    },
+  ],
+});
+
+export default definePlugin({
+  name: 'math',
+  version: '1.0.0',
+  tools: [calculate, evaluate],
+  prompts: [explainCalculation],
+});
@@ -0,0 +1,55 @@
+import {
+  definePlugin,
+  defineResource,
+  type PluginContext,
+} from '../mcp/plugin.js';
+import { MCP_URIS, SERVER_CONFIG } from '../config/constants.js';
+
+// Captured during setup so the resource can describe the running server
+let context: PluginContext | undefined;
+const startedAt = new Date().toISOString();
+
+/**
+ * Core plugin exposing server metadata as an MCP resource
+ */
+export default definePlugin({
+  name: 'server',
+  version: SERVER_CONFIG.VERSION,
+  setup: pluginContext => {
+    context = pluginContext;
+  },
+  resources: [
+    defineResource({
+      name: 'server-info',
+      uri: MCP_URIS.SERVER_INFO,
+      metadata: {
+        title: 'Server Information',
+        description: 'Server metadata, capabilities and loaded plugins',
+        mimeType: 'application/json',
+      },
+      read: async uri => ({
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(
+              {
+                name: SERVER_CONFIG.NAME,
+                version: SERVER_CONFIG.VERSION,
+                mode: context?.mode,
+                startedAt,
+                capabilities: ['tools', 'resources', 'prompts'],
+                plugins: context?.plugins.map(({ name, version }) => ({
+                  name,
+                  version,
+                })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      }),
+    }),
+  ],
+});
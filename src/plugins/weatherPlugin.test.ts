@@ -0,0 +1,207 @@
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, it } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AuditLog } from '../audit/auditLog.js';
+import type { AuditRecord } from '../audit/types.js';
+import { AccessPolicy } from '../auth/policy.js';
+import { MCP_ERROR_CODES } from '../config/constants.js';
+import { RateLimiter } from '../rateLimit/rateLimiter.js';
+import { MemoryRateLimitStore } from '../rateLimit/store.js';
+import {
+  WeatherAlertsOutputSchema,
+  WeatherForecastOutputSchema,
+} from '../schemas/toolSchemas.js';
+import {
+  createTestClient,
+  createTestClock,
+  matchToolSnapshot,
+  type TestClient,
+  type TestClientOptions,
+} from '../testing/index.js';
+import { createWeatherPlugin } from './weatherPlugin.js';
+
+function snapshot(name: string): string {
+  return fileURLToPath(new URL(`./__snapshots__/${name}`, import.meta.url));
+}
+
+const clients: TestClient[] = [];
+let limiter: RateLimiter | undefined;
+
+/** Connects to a weather plugin instance of its own */
+async function connect(
+  options: Pick<TestClientOptions, 'seed' | 'config'> = {}
+) {
+  const client = await createTestClient({
+    ...options,
+    plugins: [createWeatherPlugin()],
+    clock: createTestClock('2025-06-01T08:30:00Z'),
+  });
+  clients.push(client);
+  return client;
+}
+
+/** Connects with the weather tools' rate limits and an in-memory audit log */
+async function connectGuarded() {
+  const records: AuditRecord[] = [];
+  limiter = new RateLimiter({
+    store: new MemoryRateLimitStore(),
+    client: { capacity: 100, refillPerSecond: 1 },
+    session: { capacity: 100, refillPerSecond: 1 },
+    tool: { capacity: 100, refillPerSecond: 1 },
+    dailyQuota: 0,
+  });
+  const client = await createTestClient({
+    plugins: [createWeatherPlugin()],
+    clock: createTestClock('2025-06-01T08:30:00Z'),
+    guards: {
+      policy: new AccessPolicy(),
+      limiter,
+      audit: new AuditLog({
+        store: {
+          append: async record => {
+            records.push(record);
+          },
+          query: async () => records,
+          close: async () => {},
+        },
+        redact: value => value,
+      }),
+    },
+  });
+  clients.push(client);
+  return { mcp: client, records };
+}
+
+afterEach(async () => {
+  for (const client of clients.splice(0)) {
+    await client.close();
+  }
+  limiter?.close();
+  limiter = undefined;
+});
+
+describe('weather plugin', () => {
+  it('renders the same forecast for the same time and place', async () => {
+    const mcp = await connect();
+
+    const result = await mcp.callTool('getWeatherForecast', {
+      latitude: 40.7128,
+      longitude: -74.006,
+    });
+    expect(
+      WeatherForecastOutputSchema.parse(result.structuredContent).location
+    ).toMatchObject({ latitude: 40.71, longitude: -74.01 });
+    await matchToolSnapshot(result, snapshot('forecast.snap'));
+  });
+
+  it('reports the same weather for the same seed', async () => {
+    const forecast = async (seed: string) =>
+      (
+        await (
+          await connect({ seed })
+        ).callTool('getWeatherForecast', { latitude: 51.5, longitude: -0.12 })
+      ).structuredContent;
+
+    expect(await forecast('a')).toEqual(await forecast('a'));
+    expect(await forecast('a')).not.toEqual(await forecast('b'));
+  });
+
+  it('keeps the settings of each plugin instance apart', async () => {
+    const coarse = await connect({
+      config: { weather: { coordinatePrecision: 0 } },
+    });
+    const fine = await connect();
+
+    const location = async (mcp: TestClient) =>
+      WeatherForecastOutputSchema.parse(
+        (
+          await mcp.callTool('getWeatherForecast', {
+            latitude: 40.7128,
+            longitude: -74.006,
+          })
+        ).structuredContent
+      ).location;
+    expect(await location(coarse)).toEqual({ latitude: 41, longitude: -74 });
+    expect(await location(fine)).toEqual({
+      latitude: 40.71,
+      longitude: -74.01,
+    });
+  });
+
+  it('renders alerts with UTC times', async () => {
+    const mcp = await connect();
+
+    const result = await mcp.callTool('getWeatherAlerts', { state: 'KS' });
+    WeatherAlertsOutputSchema.parse(result.structuredContent);
+    await matchToolSnapshot(result, snapshot('alerts.snap'));
+  });
+
+  it('reads resources through the rate-limited, audited tools', async () => {
+    const { mcp, records } = await connectGuarded();
+    const uri = 'weather://forecast/40.71/-74.01';
+
+    for (let read = 0; read < 10; read++) {
+      await mcp.readResource(uri);
+    }
+    const error = await mcp
+      .readResource(uri)
+      .catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(MCP_ERROR_CODES.RATE_LIMITED);
+
+    expect(records).toHaveLength(11);
+    expect(records[0]).toMatchObject({
+      tool: 'getWeatherForecast',
+      arguments: { latitude: 40.71, longitude: -74.01 },
+      outcome: 'success',
+    });
+    expect(records[10]?.outcome).toBe('rate_limited');
+  });
+
+  it('fetches the alerts of a briefing prompt through the alerts tool', async () => {
+    const { mcp, records } = await connectGuarded();
+
+    const prompt = await mcp.getPrompt('weather-briefing', { state: 'KS' });
+    expect(prompt.messages).toHaveLength(3);
+    expect(records).toEqual([
+      expect.objectContaining({
+        tool: 'getWeatherAlerts',
+        arguments: { state: 'KS' },
+        outcome: 'success',
+      }),
+    ]);
+  });
+
+  it('charges every report location as a forecast call', async () => {
+    const { mcp, records } = await connectGuarded();
+    const locations = Array.from({ length: 10 }, (_, index) => ({
+      latitude: 40 + index,
+      longitude: -74,
+    }));
+
+    const report = await mcp.callTool('getWeatherReport', { locations });
+    expect(report.isError).toBeUndefined();
+    expect(records.map(record => record.tool)).toEqual([
+      ...locations.map(() => 'getWeatherForecast'),
+      'getWeatherReport',
+    ]);
+
+    const rejected = await mcp.callTool('getWeatherReport', {
+      locations: [{ latitude: 30, longitude: -90 }],
+    });
+    expect(rejected._meta?.['error']).toMatchObject({ code: 'RATE_LIMITED' });
+  });
+
+  it('rejects an inverted time window', async () => {
+    const mcp = await connect();
+
+    const result = await mcp.callTool('getWeatherAlerts', {
+      state: 'CA',
+      activeFrom: '2025-06-02T00:00:00Z',
+      activeUntil: '2025-06-01T00:00:00Z',
+    });
+    expect(result._meta?.['error']).toMatchObject({
+      code: 'VALIDATION_ERROR',
+    });
+  });
+});
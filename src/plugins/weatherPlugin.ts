@@ -1,193 +1,461 @@
 import { FastifyPluginAsync } from 'fastify';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import {
-  WeatherForecastSchema,
+  definePlugin,
+  defineTool,
+  defineResourceTemplate,
+  structuredResult,
+  type McpPlugin,
+  type PluginRouteOptions,
+  type ResourceDefinition,
+  type ToolMiddleware,
+} from '../mcp/plugin.js';
+import { templatePrompt } from '../mcp/prompts.js';
+import { MCP_URIS } from '../config/constants.js';
+import {
+  applyAlertFilter,
+  createWeatherProvider,
+  formatAlerts,
+  formatForecast,
+  type WeatherAlerts,
+  type WeatherForecast,
+  type WeatherProvider,
+  type WeatherRequestOptions,
+} from '../services/weather/index.js';
+import { AppError, ValidationError } from '../utils/errorHandler.js';
+import {
   WeatherAlertsSchema,
-  validateToolArgs,
-  type WeatherForecastArgs,
+  WeatherAlertsOutputSchema,
+  WeatherForecastOutputSchema,
+  WeatherReportSchema,
+  WeatherReportOutputSchema,
   type WeatherAlertsArgs,
 } from '../schemas/toolSchemas.js';
-import { LatitudeSchema, LongitudeSchema } from '@/schemas/commonSchemas.js';
+import { toJsonSchema } from '../schemas/jsonSchema.js';
+import {
+  AlertsParamsSchema,
+  AlertsQuerySchema,
+  AlertsResponseSchema,
+  ForecastQuerySchema,
+  ForecastResponseSchema,
+  type AlertsParams,
+  type AlertsQuery,
+  type ForecastQuery,
+} from '../schemas/routeSchemas.js';
+import {
+  CitySchema,
+  DateRangeSchema,
+  DateSchema,
+  LatitudeSchema,
+  LongitudeSchema,
+  StateSchema,
+} from '../schemas/commonSchemas.js';
 
 /**
- * Weather plugin demonstrating Zod validation for larger MCP projects
- * Shows how to organize tools by domain/plugin
+ * State of one plugin instance, filled in by its setup hook from the
+ * weather config section and the server's clock
  */
-export function registerWeatherTools(server: McpServer) {
-  // Weather forecast tool with proper parameter schema
-  server.registerTool(
-    'getWeatherForecast',
-    {
-      title: 'Get Weather Forecast',
-      description:
-        'Get weather forecast for a specific location using coordinates',
-      inputSchema: {
-        latitude: LatitudeSchema,
-        longitude: LongitudeSchema,
-      },
-    },
-    async ({ latitude, longitude }) => {
-      const forecast = await simulateWeatherAPI(latitude, longitude);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Weather forecast for coordinates (${latitude}, ${longitude}):\n${forecast}`,
-          },
-        ],
-      };
-    }
-  );
+interface WeatherState {
+  provider?: WeatherProvider | undefined;
+  coordinatePrecision: number;
+  now: () => number;
+}
+
+function getProvider(state: WeatherState): WeatherProvider {
+  if (!state.provider) {
+    throw new Error('Weather plugin has not been set up');
+  }
+  return state.provider;
 }
 
 /**
- * Simulate weather API call
- * In a real implementation, this would call an actual weather service
+ * Rounds coordinates to the configured precision (about 1 km by default,
+ * the scale of forecast grids), so near-identical requests read the same
+ * location and share a cache entry
  */
-async function simulateWeatherAPI(
-  latitude: number,
-  longitude: number
-): Promise<string> {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 100));
-
-  // Generate mock forecast based on coordinates
-  const temperature = Math.round(
-    20 + latitude * 0.5 + (Math.random() * 10 - 5)
-  );
-  const conditions = ['Sunny', 'Cloudy', 'Rainy', 'Partly Cloudy'];
-  const condition = conditions[Math.floor(Math.random() * conditions.length)];
-
-  return `
-🌤️  Current Conditions: ${condition}
-🌡️  Temperature: ${temperature}°C
-🌍 Location: ${latitude.toFixed(4)}, ${longitude.toFixed(4)}
-⏰ Updated: ${new Date().toLocaleString()}
-`.trim();
+function roundedCoordinates(
+  args: Record<string, unknown>,
+  coordinatePrecision: number
+) {
+  const factor = 10 ** coordinatePrecision;
+  const round = (value: unknown) => Math.round(Number(value) * factor) / factor;
+  return {
+    latitude: round(args['latitude']),
+    longitude: round(args['longitude']),
+  };
 }
 
 /**
- * Simulate weather alerts API call
- * In a real implementation, this would call an actual alerts service
+ * Fetches alerts for a state and applies severity and time-window filters
+ * @throws ValidationError when the time window is inverted
  */
-async function simulateAlertsAPI(): Promise<string> {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 100));
-
-  // Generate mock alerts based on state
-  const alerts = [
-    'Severe Thunderstorm Warning',
-    'Flash Flood Watch',
-    'Heat Advisory',
-    'Winter Weather Advisory',
-  ];
+async function fetchAlerts(
+  provider: WeatherProvider,
+  { state, ...filter }: WeatherAlertsArgs,
+  options?: WeatherRequestOptions
+): Promise<WeatherAlerts> {
+  if (
+    filter.activeFrom &&
+    filter.activeUntil &&
+    Date.parse(filter.activeFrom) > Date.parse(filter.activeUntil)
+  ) {
+    throw new ValidationError(
+      'activeFrom must be before or equal to activeUntil'
+    );
+  }
 
-  const hasAlerts = Math.random() > 0.5;
+  return applyAlertFilter(await provider.getAlerts(state, options), filter);
+}
 
-  if (!hasAlerts) {
-    return '✅ No active weather alerts for this state.';
-  }
+/**
+ * The weather tools of one plugin instance
+ */
+function createWeatherTools(weather: WeatherState) {
+  const roundCoordinates: ToolMiddleware = (call, next) =>
+    next({
+      ...call,
+      args: {
+        ...call.args,
+        ...roundedCoordinates(call.args, weather.coordinatePrecision),
+      },
+    });
 
-  const activeAlerts = alerts.filter(() => Math.random() > 0.7).slice(0, 2);
+  /**
+   * Weather forecast tool demonstrating Zod validation for larger MCP projects
+   * Shows how to organize tools by domain/plugin
+   */
+  const getWeatherForecast = defineTool({
+    name: 'getWeatherForecast',
+    title: 'Get Weather Forecast',
+    description:
+      'Get weather forecast for a specific location using coordinates',
+    scopes: ['weather:read'],
+    // Upstream calls are billed: 10 per minute and 1000 per day per client
+    rateLimit: { capacity: 10, refillPerSecond: 10 / 60 },
+    dailyQuota: 1000,
+    inputSchema: {
+      latitude: LatitudeSchema,
+      longitude: LongitudeSchema,
+    },
+    // Forecasts change slowly; stale ones are fine while a refresh runs
+    cache: {
+      ttl: 10 * 60_000,
+      staleWhileRevalidate: 30 * 60_000,
+      key: args => roundedCoordinates(args, weather.coordinatePrecision),
+    },
+    outputSchema: WeatherForecastOutputSchema.shape,
+    middleware: [roundCoordinates],
+    handler: async ({ latitude, longitude }, { signal }) => {
+      const forecast = await getProvider(weather).getForecast(
+        { latitude, longitude },
+        { signal }
+      );
+      return structuredResult(
+        forecast,
+        `Weather forecast for coordinates (${latitude}, ${longitude}):\n${formatForecast(forecast)}`
+      );
+    },
+  });
 
-  if (activeAlerts.length === 0) {
-    return '✅ No active weather alerts for this state.';
-  }
+  /**
+   * Weather alerts tool with severity and active-window filtering
+   */
+  const getWeatherAlerts = defineTool({
+    name: 'getWeatherAlerts',
+    title: 'Get Weather Alerts',
+    description:
+      'Get active weather alerts for a US state, optionally filtered by minimum severity and an active time window',
+    scopes: ['weather:read'],
+    // Upstream calls are billed: 10 per minute and 1000 per day per client
+    rateLimit: { capacity: 10, refillPerSecond: 10 / 60 },
+    dailyQuota: 1000,
+    // Alerts are time-critical, so they are only briefly reused
+    cache: { ttl: 60_000, staleWhileRevalidate: 60_000 },
+    inputSchema: WeatherAlertsSchema.shape,
+    outputSchema: WeatherAlertsOutputSchema.shape,
+    handler: async (args, { signal }) => {
+      const result = await fetchAlerts(getProvider(weather), args, {
+        signal,
+      });
+      return structuredResult(
+        result,
+        `Weather alerts for ${result.state} (${result.alerts.length}):\n${formatAlerts(result)}`
+      );
+    },
+  });
+
+  /**
+   * Forecasts for several locations in one call
+   * Each location is a getWeatherForecast call, so it is charged against that
+   * tool's rate limit and quota, served from its cache and audited; a location
+   * that is rejected fails the report without charging the ones after it.
+   * Locations are fetched one at a time with a progress notification after
+   * each; cancelling the call or hitting its timeout stops the pending fetch
+   */
+  const getWeatherReport = defineTool({
+    name: 'getWeatherReport',
+    title: 'Get Weather Report',
+    description:
+      'Get current forecasts for up to 10 locations in one call; reports progress per location',
+    scopes: ['weather:read'],
+    timeout: 120_000,
+    inputSchema: WeatherReportSchema.shape,
+    outputSchema: WeatherReportOutputSchema.shape,
+    handler: async ({ locations }, context) => {
+      const { callTool } = context;
+      if (!callTool) {
+        throw new AppError('getWeatherReport can only run inside the server');
+      }
+
+      const reports: {
+        name?: string | undefined;
+        forecast: WeatherForecast;
+      }[] = [];
+      const sections: string[] = [];
+      for (const [
+        index,
+        { name, latitude, longitude },
+      ] of locations.entries()) {
+        const label = name ?? `(${latitude}, ${longitude})`;
+        const forecast = await callTool(getWeatherForecast, {
+          latitude,
+          longitude,
+        });
+        reports.push({ name, forecast });
+        sections.push(`${label}:\n${formatForecast(forecast)}`);
+        await context.reportProgress?.(
+          index + 1,
+          locations.length,
+          `Fetched ${label}`
+        );
+      }
 
-  return activeAlerts.map(alert => `⚠️  ${alert}`).join('\n');
+      return structuredResult(
+        { locations: reports },
+        `Weather report for ${locations.length} location(s):\n\n${sections.join('\n\n')}`
+      );
+    },
+  });
+
+  return { getWeatherForecast, getWeatherAlerts, getWeatherReport };
 }
 
+type WeatherTools = ReturnType<typeof createWeatherTools>;
+
 /**
  * Fastify plugin for weather-related REST endpoints
- * Demonstrates how to expose weather data via traditional REST API
+ * Demonstrates how to expose weather data via traditional REST API; data is
+ * fetched through the tools, so scopes, rate limits, quotas, caching and the
+ * audit log apply as they do over MCP
  */
-const weatherPlugin: FastifyPluginAsync = async fastify => {
-  // GET /weather/forecast?lat=40.7128&lng=-74.0060
-  fastify.get(
-    '/weather/forecast',
-    {
-      schema: {
-        querystring: {
-          type: 'object',
-          properties: {
-            lat: { type: 'number', minimum: -90, maximum: 90 },
-            lng: { type: 'number', minimum: -180, maximum: 180 },
+function createWeatherRoutes(
+  weather: WeatherState,
+  { getWeatherForecast, getWeatherAlerts }: WeatherTools
+): FastifyPluginAsync<PluginRouteOptions> {
+  return async (fastify, { callTool }) => {
+    // GET /weather/forecast?lat=40.7128&lng=-74.0060
+    fastify.get<{ Querystring: ForecastQuery }>(
+      '/weather/forecast',
+      {
+        schema: {
+          tags: ['weather'],
+          summary: 'Current forecast for a latitude/longitude pair',
+          querystring: toJsonSchema(ForecastQuerySchema),
+          response: {
+            200: toJsonSchema(ForecastResponseSchema),
           },
-          required: ['lat', 'lng'],
         },
       },
-    },
-    async (request, reply) => {
-      const { lat, lng } = request.query as { lat: number; lng: number };
-
-      try {
-        // Use the same validation as the MCP tool
-        const args = { latitude: lat, longitude: lng };
-        const { latitude, longitude }: WeatherForecastArgs = validateToolArgs(
-          WeatherForecastSchema,
-          args
-        );
+      async (request, reply) => {
+        // The query is validated against the same Zod schemas as the MCP tool
+        const { lat, lng } = request.query;
+        const coordinates = { latitude: lat, longitude: lng };
 
-        const forecast = await simulateWeatherAPI(latitude, longitude);
+        // Rejections and provider errors carry their own status code for the
+        // error handler
+        const forecast = await callTool(
+          getWeatherForecast,
+          coordinates,
+          request,
+          reply
+        );
 
         return {
           forecast,
-          coordinates: { latitude, longitude },
-          timestamp: new Date().toISOString(),
+          coordinates,
+          timestamp: new Date(weather.now()).toISOString(),
         };
-      } catch (error) {
-        return reply.status(400).send({
-          error: 'Invalid coordinates',
-          message: error instanceof Error ? error.message : 'Unknown error',
-        });
       }
-    }
-  );
+    );
 
-  // GET /weather/alerts/:state
-  fastify.get<{ Params: { state: string } }>(
-    '/weather/alerts/:state',
-    {
-      schema: {
-        params: {
-          type: 'object',
-          properties: {
-            state: {
-              type: 'string',
-              pattern: '^[A-Z]{2}$',
-              description: 'Two-letter US state code',
-            },
+    // GET /weather/alerts/:state?minSeverity=Severe&activeFrom=...&activeUntil=...
+    fastify.get<{ Params: AlertsParams; Querystring: AlertsQuery }>(
+      '/weather/alerts/:state',
+      {
+        schema: {
+          tags: ['weather'],
+          summary: 'Active weather alerts for a US state',
+          params: toJsonSchema(AlertsParamsSchema),
+          querystring: toJsonSchema(AlertsQuerySchema),
+          response: {
+            200: toJsonSchema(AlertsResponseSchema),
           },
-          required: ['state'],
         },
       },
-    },
-    async (request, reply) => {
-      const { state } = request.params;
-
-      try {
-        // Use the same validation as the MCP tool
-        const args = { state };
-        const { state: validatedState }: WeatherAlertsArgs = validateToolArgs(
-          WeatherAlertsSchema,
-          args
+      async (request, reply) => {
+        // An inverted time window is a ValidationError, answered with 400
+        const { state, alerts, updatedAt, source } = await callTool(
+          getWeatherAlerts,
+          { ...request.query, ...request.params },
+          request,
+          reply
         );
 
-        const alerts = await simulateAlertsAPI();
-
         return {
           alerts,
-          state: validatedState,
-          timestamp: new Date().toISOString(),
+          state,
+          updatedAt,
+          source,
+          timestamp: new Date(weather.now()).toISOString(),
         };
-      } catch (error) {
-        return reply.status(400).send({
-          error: 'Invalid state code',
-          message: error instanceof Error ? error.message : 'Unknown error',
-        });
       }
+    );
+  };
+}
+
+/**
+ * Weather resources, so clients can pin forecasts and alerts as context
+ * Reads go through the tools, so they count against the same scopes, rate
+ * limits and quotas, share their cache and are audited
+ */
+function createWeatherResources({
+  getWeatherForecast,
+  getWeatherAlerts,
+}: WeatherTools): ResourceDefinition[] {
+  return [
+    defineResourceTemplate({
+      name: 'weather-forecast',
+      template: MCP_URIS.WEATHER_FORECAST,
+      metadata: {
+        title: 'Weather Forecast',
+        description: 'Current forecast for a latitude/longitude pair',
+        mimeType: 'text/plain',
+      },
+      // Every read is a billed upstream call, and forecasts change slowly
+      poll: 10 * 60_000,
+      read: async (uri, { lat, lng }, { callTool }) => {
+        const forecast = await callTool(getWeatherForecast, {
+          latitude: Number(lat),
+          longitude: Number(lng),
+        });
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'text/plain',
+              text: formatForecast(forecast),
+            },
+          ],
+        };
+      },
+    }),
+    defineResourceTemplate({
+      name: 'weather-alerts',
+      template: MCP_URIS.WEATHER_ALERTS,
+      metadata: {
+        title: 'Weather Alerts',
+        description: 'Active weather alerts for a US state',
+        mimeType: 'text/plain',
+      },
+      poll: 60_000,
+      read: async (uri, { state }, { callTool }) => {
+        const alerts = await callTool(getWeatherAlerts, { state });
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'text/plain',
+              text: formatAlerts(alerts),
+            },
+          ],
+        };
+      },
+    }),
+  ];
+}
+
+/**
+ * Prompt producing a state weather briefing from the live alerts resource,
+ * whose read is a guarded getWeatherAlerts call
+ */
+const weatherBriefing = templatePrompt({
+  name: 'weather-briefing',
+  title: 'Weather Briefing for a State',
+  description:
+    'Summarizes active weather alerts for a US state, optionally focused on a city and date range',
+  argsSchema: {
+    state: StateSchema,
+    city: CitySchema.optional(),
+    startDate: DateSchema.optional(),
+    endDate: DateSchema.optional(),
+  },
+  prepare: ({ startDate, endDate }) => {
+    if (startDate === undefined && endDate === undefined) {
+      return {};
+    }
+
+    const range = DateRangeSchema.safeParse({ startDate, endDate });
+    if (!range.success) {
+      throw new ValidationError(
+        `Invalid date range: ${range.error.errors
+          .map(err => `${err.path.join('.')}: ${err.message}`)
+          .join(', ')}`
+      );
     }
-  );
-};
+    return {};
+  },
+  messages: [
+    {
+      role: 'user',
+      text: 'Prepare a weather briefing for {{state}}{{#city}}, focusing on {{city}}{{/city}}.{{#startDate}} The briefing covers {{startDate}} to {{endDate}}.{{/startDate}} These are the current alerts:',
+    },
+    { role: 'user', resource: 'weather://alerts/{{state}}' },
+    {
+      role: 'user',
+      text: 'Summarize the alerts by severity, say who is affected and what they should do. If there are no alerts, say so in one sentence.',
+    },
+  ],
+});
+
+/**
+ * Creates a weather plugin whose provider, coordinate precision and clock
+ * belong to it alone, so several instances can be set up side by side
+ */
+export function createWeatherPlugin(): McpPlugin {
+  const weather: WeatherState = { coordinatePrecision: 2, now: Date.now };
+  const tools = createWeatherTools(weather);
+
+  return definePlugin({
+    name: 'weather',
+    version: '1.0.0',
+    setup: ({ config, logger, now, random }) => {
+      const provider = createWeatherProvider(config.weather, { now, random });
+      weather.provider = provider;
+      weather.coordinatePrecision = config.weather.coordinatePrecision;
+      weather.now = now;
+      logger.info({ provider: provider.name }, 'Weather provider selected');
+    },
+    teardown: () => {
+      weather.provider = undefined;
+    },
+    tools: [
+      tools.getWeatherForecast,
+      tools.getWeatherAlerts,
+      tools.getWeatherReport,
+    ],
+    resources: createWeatherResources(tools),
+    prompts: [weatherBriefing],
+    routes: createWeatherRoutes(weather, tools),
+  });
+}
 
-export default weatherPlugin;
+export default createWeatherPlugin();
@@ -0,0 +1,67 @@
+import type { FastifyInstance } from 'fastify';
+import { API_ENDPOINTS } from '../config/constants.js';
+import {
+  createJsonRpcError,
+  describeError,
+  RateLimitError,
+  sendError,
+} from '../utils/errorHandler.js';
+import { clientKey, type RateLimiter } from './rateLimiter.js';
+
+export interface HttpRateLimitOptions {
+  limiter: RateLimiter;
+  /** Route URLs, as registered, that are never limited, with their subpaths */
+  exemptRoutes: readonly string[];
+}
+
+/**
+ * Limits HTTP requests per client and per MCP session
+ * Rejections are 429s with `Retry-After`; on the MCP endpoint the body is a
+ * JSON-RPC error carrying `retryAfter` in its data
+ * Must be registered after authentication so callers are identified
+ */
+export async function registerRateLimit(
+  fastify: FastifyInstance,
+  { limiter, exemptRoutes }: HttpRateLimitOptions
+): Promise<void> {
+  const isExempt = (route: string) =>
+    exemptRoutes.some(
+      exempt => route === exempt || route.startsWith(`${exempt}/`)
+    );
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    const route = request.routeOptions.url;
+    if (route === undefined || isExempt(route)) {
+      return;
+    }
+
+    // Legacy SSE clients name their session in the query string
+    const sessionId =
+      route === API_ENDPOINTS.MESSAGES
+        ? (request.query as { sessionId?: unknown }).sessionId
+        : request.headers['mcp-session-id'];
+    try {
+      await limiter.checkRequest(
+        clientKey(request.principal, `ip:${request.ip}`),
+        typeof sessionId === 'string' ? sessionId : undefined
+      );
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) {
+        throw error;
+      }
+
+      request.log.warn(
+        { url: request.url, ...error.details },
+        'Rate limit exceeded'
+      );
+      if (route !== API_ENDPOINTS.MCP) {
+        return sendError(reply, error);
+      }
+      const { message, ...data } = describeError(error);
+      return reply
+        .status(error.statusCode)
+        .header('Retry-After', error.retryAfter)
+        .send(createJsonRpcError(error.jsonRpcCode, message, null, data));
+    }
+  });
+}
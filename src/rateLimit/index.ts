@@ -0,0 +1,12 @@
+export * from './store.js';
+export {
+  clientKey,
+  createRateLimiter,
+  RateLimiter,
+  type RateLimitConfig,
+  type RateLimiterOptions,
+} from './rateLimiter.js';
+export {
+  registerRateLimit,
+  type HttpRateLimitOptions,
+} from './httpRateLimit.js';
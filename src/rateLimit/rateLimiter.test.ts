@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { ToolDefinition } from '../mcp/plugin.js';
+import { createTestClock } from '../testing/index.js';
+import { RateLimitError } from '../utils/errorHandler.js';
+import { RateLimiter, type RateLimiterOptions } from './rateLimiter.js';
+import { MemoryRateLimitStore } from './store.js';
+
+const clock = createTestClock('2025-01-01T23:59:00Z');
+const limiters: RateLimiter[] = [];
+
+function createLimiter(options: Partial<RateLimiterOptions> = {}) {
+  const limiter = new RateLimiter({
+    store: new MemoryRateLimitStore(),
+    client: { capacity: 2, refillPerSecond: 1 },
+    session: { capacity: 5, refillPerSecond: 1 },
+    tool: { capacity: 3, refillPerSecond: 1 },
+    dailyQuota: 0,
+    now: clock.now,
+    ...options,
+  });
+  limiters.push(limiter);
+  return limiter;
+}
+
+function tool(overrides: Partial<ToolDefinition> = {}): ToolDefinition {
+  return {
+    name: 'lookup',
+    description: 'Test tool',
+    inputSchema: {},
+    handler: async () => ({ content: [] }),
+    ...overrides,
+  };
+}
+
+async function rejection(check: Promise<void>): Promise<RateLimitError> {
+  const error = await check.then(
+    () => undefined,
+    (reason: unknown) => reason
+  );
+  expect(error).toBeInstanceOf(RateLimitError);
+  return error as RateLimitError;
+}
+
+afterEach(() => {
+  limiters.splice(0).forEach(limiter => limiter.close());
+  clock.set('2025-01-01T23:59:00Z');
+});
+
+describe('RateLimiter', () => {
+  it('limits requests per client and refills over time', async () => {
+    const limiter = createLimiter();
+    await limiter.checkRequest('ip:1');
+    await limiter.checkRequest('ip:1');
+
+    const error = await rejection(limiter.checkRequest('ip:1'));
+    expect(error.details).toEqual({ scope: 'client' });
+    expect(error.retryAfter).toBe(1);
+
+    clock.advance(1000);
+    await limiter.checkRequest('ip:1');
+  });
+
+  it('does not charge the client when the session is over its limit', async () => {
+    const limiter = createLimiter({
+      client: { capacity: 10, refillPerSecond: 1 },
+      session: { capacity: 1, refillPerSecond: 0.001 },
+    });
+    await limiter.checkRequest('ip:1', 'session-1');
+    for (let attempt = 0; attempt < 20; attempt++) {
+      await rejection(limiter.checkRequest('ip:1', 'session-1'));
+    }
+
+    // Nine tokens are left for requests outside the session
+    for (let request = 0; request < 9; request++) {
+      await limiter.checkRequest('ip:1');
+    }
+    await rejection(limiter.checkRequest('ip:1'));
+  });
+
+  it('applies a tool rule before the default one', async () => {
+    const limiter = createLimiter();
+    const billed = tool({ rateLimit: { capacity: 1, refillPerSecond: 0.1 } });
+    await limiter.checkTool(billed, 'api-key:cron');
+
+    const error = await rejection(limiter.checkTool(billed, 'api-key:cron'));
+    expect(error.details).toEqual({ scope: 'tool', tool: 'lookup' });
+    expect(error.retryAfter).toBe(10);
+    // Other clients have their own buckets
+    await limiter.checkTool(billed, 'api-key:dashboard');
+  });
+
+  it('resets daily quotas at UTC midnight', async () => {
+    const limiter = createLimiter({ dailyQuota: 1 });
+    await limiter.checkTool(tool(), 'api-key:cron');
+
+    const error = await rejection(limiter.checkTool(tool(), 'api-key:cron'));
+    expect(error.details).toEqual({ scope: 'daily quota' });
+    expect(error.retryAfter).toBe(60);
+
+    clock.advance(60_000);
+    await limiter.checkTool(tool(), 'api-key:cron');
+  });
+
+  it('refunds the tool bucket and quota when the daily quota denies', async () => {
+    const limiter = createLimiter({ dailyQuota: 1 });
+    const limited = tool({
+      rateLimit: { capacity: 2, refillPerSecond: 0.001 },
+      dailyQuota: 2,
+    });
+    await limiter.checkTool(limited, 'api-key:cron');
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const error = await rejection(limiter.checkTool(limited, 'api-key:cron'));
+      expect(error.details).toEqual({ scope: 'daily quota' });
+    }
+
+    // A new day resets only the quotas; the bucket still holds one token
+    clock.advance(60_000);
+    await limiter.checkTool(limited, 'api-key:cron');
+    const error = await rejection(limiter.checkTool(limited, 'api-key:cron'));
+    expect(error.details).toEqual({ scope: 'tool', tool: 'lookup' });
+  });
+});
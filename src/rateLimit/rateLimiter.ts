@@ -0,0 +1,213 @@
+import type { AppConfig } from '../config/config.js';
+import type { Principal } from '../auth/types.js';
+import type { ToolDefinition } from '../mcp/plugin.js';
+import { RateLimitError } from '../utils/errorHandler.js';
+import {
+  MemoryRateLimitStore,
+  type LimitResult,
+  type RateLimitStore,
+  type TokenBucketRule,
+} from './store.js';
+
+export interface RateLimiterOptions {
+  store: RateLimitStore;
+  /** HTTP requests per client */
+  client: TokenBucketRule;
+  /** HTTP requests per MCP session */
+  session: TokenBucketRule;
+  /** Calls per client per tool, for tools without their own rule */
+  tool: TokenBucketRule;
+  /** Tool calls per client per UTC day across all tools; 0 disables */
+  dailyQuota: number;
+  now?: () => number;
+}
+
+export type RateLimitConfig = Omit<AppConfig['rateLimit'], 'enabled'>;
+
+/** One limit a request or call counts against */
+interface Limit {
+  scope: string;
+  tool?: string | undefined;
+  consume(): Promise<LimitResult>;
+  /** Undoes `consume` when a later limit denies the call */
+  refund(): Promise<void>;
+}
+
+/**
+ * Identifies the caller for rate limiting: the authenticated principal,
+ * otherwise the fallback (client IP over HTTP, session or "local" in stdio)
+ */
+export function clientKey(
+  principal: Principal | undefined,
+  fallback: string
+): string {
+  return principal ? `${principal.kind}:${principal.subject}` : fallback;
+}
+
+/** Start of the next UTC day, when daily quotas reset */
+function nextUtcMidnight(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate() + 1
+  );
+}
+
+/**
+ * Applies token-bucket limits and daily quotas
+ * HTTP requests are limited per client and per session; tool calls per
+ * client and tool, with a daily quota per client and optionally per tool
+ */
+export class RateLimiter {
+  private readonly options: RateLimiterOptions;
+  private readonly now: () => number;
+
+  constructor(options: RateLimiterOptions) {
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Counts an HTTP request
+   * @throws RateLimitError when the client or session is over its limit
+   */
+  async checkRequest(client: string, sessionId?: string): Promise<void> {
+    const now = this.now();
+    const limits = [
+      this.bucket('client', `client:${client}`, this.options.client, now),
+    ];
+    if (sessionId) {
+      limits.push(
+        this.bucket(
+          'session',
+          `session:${sessionId}`,
+          this.options.session,
+          now
+        )
+      );
+    }
+    await this.enforceAll(limits);
+  }
+
+  /**
+   * Counts a tool call
+   * @throws RateLimitError when the client is over the tool's rate or a quota
+   */
+  async checkTool(tool: ToolDefinition, client: string): Promise<void> {
+    const now = this.now();
+    const resetAt = nextUtcMidnight(now);
+
+    const limits = [
+      this.bucket(
+        'tool',
+        `tool:${tool.name}:${client}`,
+        tool.rateLimit ?? this.options.tool,
+        now,
+        tool.name
+      ),
+    ];
+    if (tool.dailyQuota) {
+      limits.push(
+        this.counter(
+          'tool quota',
+          `quota:${tool.name}:${client}`,
+          tool.dailyQuota,
+          resetAt,
+          now,
+          tool.name
+        )
+      );
+    }
+    if (this.options.dailyQuota > 0) {
+      limits.push(
+        this.counter(
+          'daily quota',
+          `quota:${client}`,
+          this.options.dailyQuota,
+          resetAt,
+          now
+        )
+      );
+    }
+    await this.enforceAll(limits);
+  }
+
+  close(): void {
+    this.options.store.close();
+  }
+
+  private bucket(
+    scope: string,
+    key: string,
+    rule: TokenBucketRule,
+    now: number,
+    tool?: string
+  ): Limit {
+    const { store } = this.options;
+    return {
+      scope,
+      tool,
+      consume: () => store.consumeToken(key, rule, now),
+      refund: () => store.refundToken(key, rule, now),
+    };
+  }
+
+  private counter(
+    scope: string,
+    key: string,
+    limit: number,
+    resetAt: number,
+    now: number,
+    tool?: string
+  ): Limit {
+    const { store } = this.options;
+    return {
+      scope,
+      tool,
+      consume: () => store.incrementCounter(key, limit, resetAt, now),
+      refund: () => store.decrementCounter(key, now),
+    };
+  }
+
+  /**
+   * Counts against every limit in order; when one denies, the limits
+   * already counted are refunded, so a rejected call costs nothing
+   * @throws RateLimitError for the first limit that denies
+   */
+  private async enforceAll(limits: Limit[]): Promise<void> {
+    const counted: Limit[] = [];
+    for (const limit of limits) {
+      const result = await limit.consume();
+      if (!result.allowed) {
+        await Promise.all(counted.map(previous => previous.refund()));
+        this.enforce(limit.scope, result, limit.tool);
+      }
+      counted.push(limit);
+    }
+  }
+
+  private enforce(scope: string, result: LimitResult, tool?: string): void {
+    if (result.allowed) {
+      return;
+    }
+
+    const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+    const subject = tool ? `${scope} limit for ${tool}` : `${scope} limit`;
+    throw new RateLimitError(
+      `Rate limit exceeded (${subject}); retry after ${retryAfter}s`,
+      retryAfter,
+      { scope, ...(tool && { tool }) }
+    );
+  }
+}
+
+/**
+ * Creates the rate limiter described by configuration, backed by memory
+ */
+export function createRateLimiter(
+  { client, session, tool, dailyQuota }: RateLimitConfig,
+  store: RateLimitStore = new MemoryRateLimitStore()
+): RateLimiter {
+  return new RateLimiter({ store, client, session, tool, dailyQuota });
+}
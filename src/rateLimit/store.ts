@@ -0,0 +1,180 @@
+/**
+ * Storage for rate limit state
+ * Operations are whole algorithm steps so a shared store (e.g. Redis with a
+ * script) can apply them atomically across server instances
+ */
+
+export interface TokenBucketRule {
+  /** Maximum burst size */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+}
+
+export interface LimitResult {
+  allowed: boolean;
+  /** Calls left in the bucket or window after this one */
+  remaining: number;
+  /** Milliseconds until the call would be allowed; 0 when allowed */
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  /** Takes one token from the bucket at `key` */
+  consumeToken(
+    key: string,
+    rule: TokenBucketRule,
+    now: number
+  ): Promise<LimitResult>;
+  /** Counts one call against `limit` for the window ending at `resetAt` */
+  incrementCounter(
+    key: string,
+    limit: number,
+    resetAt: number,
+    now: number
+  ): Promise<LimitResult>;
+  /** Returns a token taken by `consumeToken` for a call that was denied */
+  refundToken(key: string, rule: TokenBucketRule, now: number): Promise<void>;
+  /** Uncounts a call counted by `incrementCounter` that was denied */
+  decrementCounter(key: string, now: number): Promise<void>;
+  close(): void;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  /** When the bucket is full again and can be dropped */
+  expiresAt: number;
+}
+
+interface Counter {
+  count: number;
+  expiresAt: number;
+}
+
+/**
+ * In-process store; counters reset when the server restarts
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly counters = new Map<string, Counter>();
+  private readonly sweepTimer: ReturnType<typeof setInterval>;
+
+  constructor(sweepInterval = 60_000) {
+    this.sweepTimer = setInterval(() => this.sweep(), sweepInterval);
+    // Never keep the process alive just to sweep counters
+    this.sweepTimer.unref();
+  }
+
+  async consumeToken(
+    key: string,
+    { capacity, refillPerSecond }: TokenBucketRule,
+    now: number
+  ): Promise<LimitResult> {
+    const bucket = this.buckets.get(key);
+    const elapsed = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+    const tokens = bucket
+      ? Math.min(capacity, bucket.tokens + elapsed * refillPerSecond)
+      : capacity;
+
+    if (tokens < 1) {
+      this.buckets.set(
+        key,
+        this.refilled(tokens, capacity, refillPerSecond, now)
+      );
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: Math.ceil(((1 - tokens) / refillPerSecond) * 1000),
+      };
+    }
+
+    this.buckets.set(
+      key,
+      this.refilled(tokens - 1, capacity, refillPerSecond, now)
+    );
+    return {
+      allowed: true,
+      remaining: Math.floor(tokens - 1),
+      retryAfterMs: 0,
+    };
+  }
+
+  async incrementCounter(
+    key: string,
+    limit: number,
+    resetAt: number,
+    now: number
+  ): Promise<LimitResult> {
+    const current = this.counters.get(key);
+    const count = current && current.expiresAt > now ? current.count : 0;
+
+    if (count >= limit) {
+      return { allowed: false, remaining: 0, retryAfterMs: resetAt - now };
+    }
+
+    this.counters.set(key, { count: count + 1, expiresAt: resetAt });
+    return { allowed: true, remaining: limit - count - 1, retryAfterMs: 0 };
+  }
+
+  async refundToken(
+    key: string,
+    { capacity, refillPerSecond }: TokenBucketRule,
+    now: number
+  ): Promise<void> {
+    const bucket = this.buckets.get(key);
+    // A swept bucket is already full
+    if (!bucket) {
+      return;
+    }
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    const tokens = Math.min(
+      capacity,
+      bucket.tokens + elapsed * refillPerSecond + 1
+    );
+    this.buckets.set(
+      key,
+      this.refilled(tokens, capacity, refillPerSecond, now)
+    );
+  }
+
+  async decrementCounter(key: string, now: number): Promise<void> {
+    const current = this.counters.get(key);
+    if (current && current.expiresAt > now && current.count > 0) {
+      this.counters.set(key, { ...current, count: current.count - 1 });
+    }
+  }
+
+  close(): void {
+    clearInterval(this.sweepTimer);
+    this.buckets.clear();
+    this.counters.clear();
+  }
+
+  private refilled(
+    tokens: number,
+    capacity: number,
+    refillPerSecond: number,
+    now: number
+  ): Bucket {
+    return {
+      tokens,
+      updatedAt: now,
+      expiresAt: now + ((capacity - tokens) / refillPerSecond) * 1000,
+    };
+  }
+
+  /** Drops full buckets and finished windows, which hold no information */
+  private sweep(now: number = Date.now()) {
+    for (const [key, { expiresAt }] of this.buckets) {
+      if (expiresAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+    for (const [key, { expiresAt }] of this.counters) {
+      if (expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
@@ -134,6 +134,12 @@ export const NameSchema = z
   .max(100, 'Name cannot exceed 100 characters')
   .describe("Person's name");
 
+// Numbers passed as strings (e.g. MCP prompt arguments, which are always strings)
+export const NumericStringSchema = z
+  .string()
+  .regex(/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/, 'Must be a valid number')
+  .describe('A number written as a string');
+
 // Type exports
 export type DateRange = z.infer<typeof DateRangeSchema>;
 export type Pagination = z.infer<typeof PaginationSchema>;
@@ -0,0 +1,19 @@
+import type { ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+/**
+ * Converts Zod schemas to JSON Schema for Fastify validation and OpenAPI
+ * The Zod schemas stay the single source of truth; constraints and
+ * `.describe()` text carry over to the generated document
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const jsonSchema: JsonSchema = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+  });
+  // The draft marker is meaningless inside Fastify routes and invalid in OpenAPI
+  delete jsonSchema['$schema'];
+  return jsonSchema;
+}
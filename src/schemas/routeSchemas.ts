@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import {
+  DateSchema,
+  LatitudeSchema,
+  LongitudeSchema,
+  NameSchema,
+} from './commonSchemas.js';
+import {
+  WeatherAlertsOutputSchema,
+  WeatherAlertsSchema,
+  WeatherForecastOutputSchema,
+} from './toolSchemas.js';
+import { AUDIT_OUTCOMES } from '../audit/types.js';
+
+/**
+ * Zod schemas for REST routes
+ * Converted with toJsonSchema for Fastify validation and the OpenAPI document
+ */
+
+// GET /hello/:name
+export const HelloParamsSchema = z.object({
+  name: NameSchema,
+});
+
+export const GreetingResponseSchema = z.object({
+  greeting: z.string().describe('Greeting for the requested name'),
+});
+
+// GET /weather/forecast?lat=..&lng=..
+export const ForecastQuerySchema = z.object({
+  lat: LatitudeSchema,
+  lng: LongitudeSchema,
+});
+
+// The forecast is the getWeatherForecast tool's structured output
+export const ForecastResponseSchema = z.object({
+  forecast: WeatherForecastOutputSchema,
+  coordinates: z.object({
+    latitude: LatitudeSchema,
+    longitude: LongitudeSchema,
+  }),
+  timestamp: DateSchema.describe('Time the response was generated'),
+});
+
+// GET /weather/alerts/:state?minSeverity=..&activeFrom=..&activeUntil=..
+export const AlertsParamsSchema = WeatherAlertsSchema.pick({ state: true });
+
+export const AlertsQuerySchema = WeatherAlertsSchema.omit({ state: true });
+
+export const AlertsResponseSchema = WeatherAlertsOutputSchema.extend({
+  timestamp: DateSchema.describe('Time the response was generated'),
+});
+
+// GET /admin/audit?tool=..&subject=..&since=..
+export const AuditQueryParamsSchema = z.object({
+  tool: z.string().optional().describe('Tool name'),
+  subject: z.string().optional().describe('Principal subject'),
+  sessionId: z.string().optional().describe('MCP session ID'),
+  outcome: z.enum(AUDIT_OUTCOMES).optional(),
+  since: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('Earliest call start, inclusive (ISO 8601)'),
+  until: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('Latest call start, exclusive (ISO 8601)'),
+  limit: z.number().int().min(1).max(1000).default(100),
+});
+
+export const AuditResponseSchema = z.object({
+  records: z
+    .array(
+      z.object({
+        timestamp: z.string(),
+        tool: z.string(),
+        sessionId: z.string().optional(),
+        principal: z
+          .object({
+            subject: z.string(),
+            kind: z.string(),
+            clientId: z.string(),
+          })
+          .optional(),
+        client: z.string(),
+        arguments: z.unknown().describe('Arguments after redaction'),
+        durationMs: z.number(),
+        outcome: z.enum(AUDIT_OUTCOMES),
+        error: z.string().optional(),
+        resultSize: z.number().optional().describe('Result size in bytes'),
+      })
+    )
+    .describe('Newest first'),
+});
+
+// Error body of every REST route, built by `sendError`
+export const ErrorResponseSchema = z.object({
+  error: z.string().describe('HTTP status text'),
+  code: z.string().describe('Machine-readable error code'),
+  message: z.string(),
+  retryable: z.boolean().describe('Whether the same request may succeed later'),
+  retryAfter: z
+    .number()
+    .optional()
+    .describe('Seconds to wait before retrying, when known'),
+  details: z.unknown().optional(),
+});
+
+// Type exports for TypeScript usage
+export type HelloParams = z.infer<typeof HelloParamsSchema>;
+export type ForecastQuery = z.infer<typeof ForecastQuerySchema>;
+export type AuditQueryParams = z.infer<typeof AuditQueryParamsSchema>;
+export type AlertsParams = z.infer<typeof AlertsParamsSchema>;
+export type AlertsQuery = z.infer<typeof AlertsQuerySchema>;
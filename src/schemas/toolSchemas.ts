@@ -1,10 +1,13 @@
 import { z } from 'zod';
+import { ValidationError } from '../utils/errorHandler.js';
 import {
   NameSchema,
   StateSchema,
   LatitudeSchema,
   LongitudeSchema,
+  DateSchema,
 } from './commonSchemas.js';
+import { ALERT_SEVERITIES } from '../services/weather/types.js';
 
 /**
  * Zod schemas for MCP tool argument validation
@@ -42,22 +45,168 @@ export const CalculateSchema = z
     }
   );
 
+// Schema for evaluate tool arguments
+export const EvaluateSchema = z.object({
+  expression: z
+    .string()
+    .min(1)
+    .max(1000)
+    .describe(
+      'Expression to evaluate, e.g. "2500 * (1 + 0.05) ^ 10" or "5 km to mi". Separate statements with ";" and assign variables with "name = ..."'
+    ),
+  variables: z
+    .record(
+      z
+        .string()
+        .regex(
+          /^[A-Za-z_][A-Za-z0-9_]*$/,
+          'Variable names must start with a letter or underscore'
+        ),
+      z.number().finite()
+    )
+    .optional()
+    .describe('Values for variables used in the expression'),
+  precision: z
+    .number()
+    .int()
+    .min(0)
+    .max(15)
+    .optional()
+    .describe(
+      'Decimal places in the result; by default floating-point noise is trimmed'
+    ),
+  explain: z
+    .boolean()
+    .optional()
+    .describe('List every intermediate operation in the result'),
+});
+
 // Schema for weather forecast tool (example for future expansion)
 export const WeatherForecastSchema = z.object({
   latitude: LatitudeSchema,
   longitude: LongitudeSchema,
 });
 
-// Schema for weather alerts tool (example for future expansion)
+// Schema for multi-location weather report tool
+export const WeatherReportSchema = z.object({
+  locations: z
+    .array(
+      z.object({
+        name: z
+          .string()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe('Label for the location in the report'),
+        latitude: LatitudeSchema,
+        longitude: LongitudeSchema,
+      })
+    )
+    .min(1)
+    .max(10)
+    .describe('Locations to forecast, reported in this order'),
+});
+
+// Schema for weather alert severity filters
+export const AlertSeveritySchema = z
+  .enum(ALERT_SEVERITIES)
+  .describe('CAP alert severity (Extreme, Severe, Moderate, Minor, Unknown)');
+
+// Schema for weather alerts tool; the time window keeps alerts overlapping it
 export const WeatherAlertsSchema = z.object({
   state: StateSchema,
+  minSeverity: AlertSeveritySchema.optional().describe(
+    'Only return alerts at least this severe'
+  ),
+  activeFrom: DateSchema.optional().describe(
+    'Only return alerts still in effect at or after this time (ISO 8601)'
+  ),
+  activeUntil: DateSchema.optional().describe(
+    'Only return alerts taking effect at or before this time (ISO 8601)'
+  ),
+});
+
+/**
+ * Structured output of the tools, returned as `structuredContent`
+ */
+
+export const CalculateOutputSchema = z.object({
+  operation: z.enum(['add', 'subtract', 'multiply', 'divide']),
+  a: z.number(),
+  b: z.number(),
+  result: z.number().finite(),
+});
+
+export const EvaluateOutputSchema = z.object({
+  expression: z.string(),
+  value: z.number().describe('Unrounded result'),
+  unit: z.string().optional().describe("Symbol of the result's unit"),
+  result: z
+    .string()
+    .describe('Result formatted with the requested precision and unit'),
+  steps: z
+    .array(z.string())
+    .optional()
+    .describe('Intermediate operations, when explain was set'),
+});
+
+const CoordinatesSchema = z.object({
+  latitude: LatitudeSchema,
+  longitude: LongitudeSchema,
+});
+
+export const WeatherForecastOutputSchema = z.object({
+  location: CoordinatesSchema.extend({
+    name: z.string().optional().describe('Place name, when known'),
+  }),
+  current: z.object({
+    temperatureC: z.number().describe('Temperature in degrees Celsius'),
+    condition: z.string().describe('Sky condition, e.g. "Partly cloudy"'),
+    humidity: z.number().optional().describe('Relative humidity (%)'),
+    windKph: z.number().optional().describe('Wind speed in km/h'),
+  }),
+  updatedAt: DateSchema.describe('Time the upstream data was last updated'),
+  source: z.string().describe('Weather provider that produced the data'),
+});
+
+export const WeatherAlertsOutputSchema = z.object({
+  state: z.string(),
+  alerts: z.array(
+    z.object({
+      id: z.string(),
+      event: z.string().describe('Alert type, e.g. "Heat Advisory"'),
+      headline: z.string(),
+      severity: AlertSeveritySchema,
+      area: z.string().describe('Affected area'),
+      effective: DateSchema.describe('Time the alert takes effect'),
+      expires: DateSchema.describe('Time the alert expires'),
+      description: z.string().optional(),
+      instruction: z
+        .string()
+        .optional()
+        .describe('What people in the area should do'),
+    })
+  ),
+  updatedAt: DateSchema.describe('Time the upstream data was last updated'),
+  source: z.string().describe('Weather provider that produced the data'),
+});
+
+export const WeatherReportOutputSchema = z.object({
+  locations: z.array(
+    z.object({
+      name: z.string().optional(),
+      forecast: WeatherForecastOutputSchema,
+    })
+  ),
 });
 
 // Type exports for TypeScript usage
 export type SayHelloArgs = z.infer<typeof SayHelloSchema>;
 export type CalculateArgs = z.infer<typeof CalculateSchema>;
+export type EvaluateArgs = z.infer<typeof EvaluateSchema>;
 export type WeatherForecastArgs = z.infer<typeof WeatherForecastSchema>;
 export type WeatherAlertsArgs = z.infer<typeof WeatherAlertsSchema>;
+export type WeatherReportArgs = z.infer<typeof WeatherReportSchema>;
 
 /**
  * Utility function to validate tool arguments with better error handling
@@ -70,7 +219,10 @@ export function validateToolArgs<T>(schema: z.ZodSchema<T>, args: unknown): T {
       const errorMessages = error.errors
         .map(err => `${err.path.join('.')}: ${err.message}`)
         .join(', ');
-      throw new Error(`Validation failed: ${errorMessages}`);
+      throw new ValidationError(
+        `Validation failed: ${errorMessages}`,
+        error.errors
+      );
     }
     throw error;
   }
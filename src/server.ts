@@ -1,254 +1,396 @@
-import Fastify, { FastifyRequest, FastifyReply, FastifyError } from 'fastify';
+import Fastify, { FastifyRequest, FastifyReply } from 'fastify';
 import cors from '@fastify/cors';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import helloPlugin from './plugins/helloPlugin.js';
-import { NameSchema } from './schemas/commonSchemas.js';
-import { z } from 'zod';
-import { registerWeatherTools } from './plugins/weatherPlugin.js';
+import {
+  ErrorCode,
+  isInitializeRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { SessionManager } from './mcp/sessionManager.js';
+import { createMCPServer } from './mcp/serverFactory.js';
+import {
+  loadPlugins,
+  registerPluginRoutes,
+  setupPlugins,
+  teardownPlugins,
+} from './mcp/pluginLoader.js';
+import {
+  API_ENDPOINTS,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  SERVER_CONFIG,
+} from './config/constants.js';
+import { ConfigError, loadConfig, type AppConfig } from './config/config.js';
+import { ResourceSubscriptionManager } from './mcp/resources.js';
+import { registerOpenApi } from './mcp/openapi.js';
+import toolBridge, { createRouteToolCaller } from './mcp/restBridge.js';
+import sseTransport from './mcp/sseTransport.js';
+import websocketTransport from './mcp/websocketTransport.js';
+import { collectTools } from './mcp/toolExecutor.js';
+import { enforceTimeouts, logCalls } from './mcp/toolMiddleware.js';
+import {
+  AccessPolicy,
+  createAuthenticator,
+  loadAccessPolicy,
+  PROTECTED_RESOURCE_METADATA_PATH,
+  registerAuth,
+} from './auth/index.js';
+import { createRateLimiter, registerRateLimit } from './rateLimit/index.js';
+import { registerMetrics } from './metrics/index.js';
+import { auditRoutes, createAuditLog } from './audit/index.js';
+import { createToolCache } from './cache/index.js';
+import {
+  initTracing,
+  registerTracing,
+  traceTransport,
+} from './tracing/index.js';
+import { createJsonRpcError, handleError } from './utils/errorHandler.js';
+import { createLogger, createLoggerOptions } from './utils/logger.js';
+
+// Cleanup for the active mode, run before the process exits
+let shutdown: (() => Promise<void>) | undefined;
 
 /**
- * Creates and configures the MCP Server with tools and resources
- * Using current SDK version compatible methods with official best practices
- * @returns Configured MCP Server instance
+ * Checks whether a request body (single message or batch) opens a session
  */
-function createMCPServer(): McpServer {
-  const server = new McpServer({
-    name: 'ts-template-mcp-server',
-    version: '1.0.0',
-  });
-
-  // Register the sayHello tool with proper parameter schema
-  server.registerTool(
-    'sayHello',
-    {
-      title: 'Say Hello',
-      description: 'Says hello to a person by name',
-      inputSchema: {
-        name: NameSchema,
-      },
-    },
-    async ({ name }: { name: string }) => ({
-      content: [
-        {
-          type: 'text',
-          text: `Hello, ${name}!`,
-        },
-      ],
-    })
-  );
-
-  server.registerTool(
-    'calculate',
-    {
-      title: 'Calculate',
-      description:
-        'Performs basic arithmetic calculations (add, subtract, multiply, divide)',
-      inputSchema: {
-        a: z.number(),
-        b: z.number(),
-        operation: z.enum(['add', 'subtract', 'multiply', 'divide']),
-      },
-    },
-    async ({
-      operation,
-      a,
-      b,
-    }: {
-      operation: string;
-      a: number;
-      b: number;
-    }) => {
-      let result: number;
-      switch (operation) {
-        case 'add':
-          result = a + b;
-          break;
-        case 'subtract':
-          result = a - b;
-          break;
-        case 'multiply':
-          result = a * b;
-          break;
-        case 'divide':
-          if (b === 0) {
-            throw new Error('Division by zero is not allowed');
-          }
-          result = a / b;
-          break;
-        default:
-          throw new Error(
-            `Unknown operation: ${operation}. Supported: add, subtract, multiply, divide`
-          );
-      }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `${a} ${operation} ${b} = ${result}`,
-          },
-        ],
-      };
-    }
-  );
-
-  registerWeatherTools(server);
-
-  return server;
+function isInitialize(body: unknown): boolean {
+  return Array.isArray(body)
+    ? body.some(message => isInitializeRequest(message))
+    : isInitializeRequest(body);
 }
 
 /**
  * Sets up and starts the Fastify server with MCP integration
  * Following official SDK patterns for session management where possible
  */
-async function startServer() {
+async function startServer(config: AppConfig) {
+  const tracing = initTracing(config.tracing);
   const fastify = Fastify({
-    logger: {
-      level: 'info',
-      transport: {
-        target: 'pino-pretty',
-        options: {
-          colorize: true,
-        },
-      },
-    },
+    logger: createLoggerOptions(config.logging),
   });
 
+  // A span per HTTP request, continuing incoming traceparent headers
+  await registerTracing(fastify);
+
+  // Errors thrown by any route below become coded JSON error bodies
+  fastify.setErrorHandler(handleError);
+
   // Enhanced CORS for MCP
   await fastify.register(cors, {
-    origin: true, // More flexible than '*'
+    origin: config.cors.origin,
+    credentials: config.cors.credentials,
     allowedHeaders: [
       'Content-Type',
       'Authorization',
+      'X-API-Key', // Service account authentication
       'Mcp-Session-Id', // Required MCP header
       'Cache-Control',
       'Accept',
     ],
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'HEAD'],
+    // Lets browser clients discover auth and back off when rate limited
+    exposedHeaders: ['WWW-Authenticate', 'Retry-After'],
   });
 
-  // Register the hello plugin
-  await fastify.register(helloPlugin);
+  // Access policy, rate limits, audit and cache guard every tool call, over
+  // MCP, REST routes, resource reads and prompts alike
+  const policy = config.auth.policyFile
+    ? await loadAccessPolicy(config.auth.policyFile)
+    : new AccessPolicy();
+  const limiter = config.rateLimit.enabled
+    ? createRateLimiter(config.rateLimit)
+    : undefined;
+  // Every tool call, allowed or not, lands in the audit log
+  const audit = config.audit.enabled
+    ? createAuditLog(config.audit, fastify.log)
+    : undefined;
+  // Results of tools with a cache policy are reused across callers
+  const cache = createToolCache(config.cache, fastify.log);
+  const guards = {
+    policy,
+    limiter,
+    audit,
+    middleware: [
+      logCalls(fastify.log),
+      ...(cache ? [cache.middleware()] : []),
+      // Innermost, so cache hits are served without a timer
+      enforceTimeouts(config.mcp.toolTimeout),
+    ],
+  };
+
+  // Discover plugins and mount their REST routes
+  const plugins = await loadPlugins();
+  const subscriptions = new ResourceSubscriptionManager({
+    plugins,
+    pollInterval: config.mcp.resourcePollInterval,
+    guards,
+    logger: fastify.log,
+  });
+  await setupPlugins(plugins, {
+    mode: 'http',
+    config,
+    logger: fastify.log,
+    plugins,
+    notifyResourceUpdated: uri => subscriptions.notifyUpdated(uri),
+    now: Date.now,
+    random: Math.random,
+  });
+  const tools = collectTools(plugins);
 
-  // Create MCP server instance
-  const mcpServer = createMCPServer();
+  // OpenAPI document generated from route schemas; must precede the routes
+  await registerOpenApi(fastify, { tools });
 
-  // Session storage for better transport management (following official patterns)
-  const sessions = new Map<string, StreamableHTTPServerTransport>();
+  // Prometheus metrics; hooks must precede the routes they time
+  if (config.metrics.enabled) {
+    await registerMetrics(fastify);
+  }
 
-  // MCP endpoint with proper session management
-  fastify.all('/mcp', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      // Get or create session ID (following official patterns)
-      const sessionId =
-        (request.headers['mcp-session-id'] as string) ||
-        `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-      let transport = sessions.get(sessionId);
-
-      if (!transport) {
-        // Create new transport for this session
-        transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: () => sessionId,
-        });
-
-        // Connect MCP server to transport
-        await mcpServer.connect(transport);
-        sessions.set(sessionId, transport);
-
-        fastify.log.info(`Created new MCP session: ${sessionId}`);
-      }
+  // Authentication for every route but monitoring and documentation; must
+  // precede the routes too
+  if (config.auth.enabled) {
+    await registerAuth(fastify, {
+      authenticator: await createAuthenticator(config.auth),
+      publicRoutes: [
+        API_ENDPOINTS.HEALTH,
+        API_ENDPOINTS.INFO,
+        API_ENDPOINTS.METRICS,
+        API_ENDPOINTS.OPENAPI,
+        API_ENDPOINTS.DOCS,
+      ],
+      resourceUrl: config.auth.resourceUrl,
+      authorizationServers:
+        config.auth.authorizationServers.length > 0
+          ? config.auth.authorizationServers
+          : [config.auth.issuer].filter(Boolean),
+    });
+  } else {
+    fastify.log.warn(
+      'Authentication is disabled; enable auth before exposing the server beyond localhost'
+    );
+  }
 
-      // Handle the request
-      await transport.handleRequest(request.raw, reply.raw, request.body);
-    } catch (error) {
-      fastify.log.error('MCP request error:', error);
+  // Rate limits per client, session and tool; after auth so callers are known
+  if (limiter) {
+    await registerRateLimit(fastify, {
+      limiter,
+      exemptRoutes: [
+        API_ENDPOINTS.HEALTH,
+        API_ENDPOINTS.INFO,
+        API_ENDPOINTS.METRICS,
+        API_ENDPOINTS.OPENAPI,
+        API_ENDPOINTS.DOCS,
+        PROTECTED_RESOURCE_METADATA_PATH,
+      ],
+    });
+  }
 
-      if (!reply.sent) {
-        reply.status(500).send({
-          error: 'Internal MCP server error',
-          message: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
+  // Plugin REST routes serve their data through tools, under the same guards
+  await registerPluginRoutes(fastify, plugins, {
+    callTool: createRouteToolCaller(guards),
   });
 
-  // Enhanced health check
-  fastify.get('/health', async () => {
-    return {
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-      server: 'ts-template-mcp-server',
-      version: '1.0.0',
-      uptime: process.uptime(),
-      sessions: sessions.size,
-      capabilities: ['tools', 'resources'],
-    };
-  });
+  // Every registered tool is also callable over plain HTTP
+  await fastify.register(toolBridge, { tools, guards });
+  // Records hold tool arguments and caller identities, so without auth
+  // there is no one to trust with them
+  if (audit && config.auth.enabled) {
+    await fastify.register(auditRoutes, { audit, policy });
+  }
 
-  // Server info endpoint
-  fastify.get('/info', async () => {
-    return {
-      name: 'ts-template-mcp-server',
-      version: '1.0.0',
-      description:
-        'A TypeScript MCP server template following official SDK best practices',
-      endpoints: {
-        mcp: '/mcp',
-        health: '/health',
-        hello: '/hello/:name',
-      },
-      capabilities: ['tools', 'resources'],
-      transport: 'StreamableHTTP',
-      sdkVersion: '@modelcontextprotocol/sdk ^1.0.4',
-    };
+  // Session lifecycle: creation on initialize, DELETE termination, idle expiry
+  // Every session gets its own MCP server instance built by the factory
+  const sessionManager = new SessionManager({
+    createServer: () =>
+      createMCPServer(plugins, { subscriptions, guards, logger: fastify.log }),
+    idleTimeout: config.mcp.sessionTimeout,
+    logger: fastify.log,
   });
 
-  // Enhanced error handler
-  fastify.setErrorHandler(
-    async (
-      error: FastifyError,
-      request: FastifyRequest,
-      reply: FastifyReply
-    ) => {
-      fastify.log.error(
-        {
-          error: error.message,
-          stack: error.stack,
-          url: request.url,
-          method: request.method,
-        },
-        'Request error'
-      );
+  // MCP endpoint with proper session management
+  fastify.all(
+    API_ENDPOINTS.MCP,
+    // JSON-RPC over HTTP is described by the MCP specification, not OpenAPI
+    { schema: { hide: true } },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const sessionId = request.headers['mcp-session-id'] as string | undefined;
+
+      let transport: StreamableHTTPServerTransport | undefined;
+      if (sessionId) {
+        const session = sessionManager.get(sessionId);
+        // Sessions are bound to their creator and transport; others see
+        // them as unknown
+        if (
+          session?.transport instanceof StreamableHTTPServerTransport &&
+          session.principal?.subject === request.principal?.subject
+        ) {
+          transport = session.transport;
+        }
+        if (!transport) {
+          // Unknown or expired session: the client must re-initialize
+          return reply
+            .status(HTTP_STATUS.NOT_FOUND)
+            .send(
+              createJsonRpcError(
+                ErrorCode.ConnectionClosed,
+                ERROR_MESSAGES.SESSION_NOT_FOUND
+              )
+            );
+        }
+      } else if (request.method === 'POST' && isInitialize(request.body)) {
+        transport = await sessionManager.create(request.principal);
+      } else {
+        return reply
+          .status(HTTP_STATUS.BAD_REQUEST)
+          .send(
+            createJsonRpcError(
+              ErrorCode.ConnectionClosed,
+              ERROR_MESSAGES.SESSION_REQUIRED
+            )
+          );
+      }
 
-      const statusCode = error.statusCode || 500;
+      // The transport writes directly to the raw response from here on
+      reply.hijack();
+
+      try {
+        await transport.handleRequest(request.raw, reply.raw, request.body);
+      } catch (error) {
+        fastify.log.error({ error, sessionId }, 'MCP request error');
+
+        if (!reply.raw.headersSent) {
+          reply.raw.writeHead(HTTP_STATUS.INTERNAL_SERVER_ERROR, {
+            'Content-Type': 'application/json',
+          });
+          reply.raw.end(
+            JSON.stringify(
+              createJsonRpcError(
+                ErrorCode.InternalError,
+                ERROR_MESSAGES.INTERNAL_ERROR
+              )
+            )
+          );
+        }
+      }
+    }
+  );
+
+  // Older clients that only speak HTTP+SSE share the same sessions
+  if (config.mcp.legacySse) {
+    await fastify.register(sseTransport, {
+      sessions: sessionManager,
+      keepaliveInterval: config.mcp.sseKeepaliveInterval,
+    });
+  }
+  // One persistent socket per session, for clients that cannot rely on SSE
+  if (config.mcp.websocket) {
+    await fastify.register(websocketTransport, {
+      sessions: sessionManager,
+      pingInterval: config.mcp.websocketPingInterval,
+      maxBufferedBytes: config.mcp.websocketMaxBuffer,
+      limiter,
+    });
+  }
 
-      return reply.status(statusCode).send({
-        error: error.message || 'Internal Server Error',
-        statusCode,
+  // Enhanced health check
+  fastify.get(
+    '/health',
+    { schema: { tags: ['monitoring'], summary: 'Server health' } },
+    async () => {
+      return {
+        status: 'ok',
         timestamp: new Date().toISOString(),
-      });
+        server: SERVER_CONFIG.NAME,
+        version: SERVER_CONFIG.VERSION,
+        uptime: process.uptime(),
+        sessions: sessionManager.size,
+        capabilities: ['tools', 'resources', 'prompts'],
+      };
+    }
+  );
+
+  // Server info endpoint
+  fastify.get(
+    '/info',
+    { schema: { tags: ['monitoring'], summary: 'Server information' } },
+    async () => {
+      return {
+        name: SERVER_CONFIG.NAME,
+        version: SERVER_CONFIG.VERSION,
+        description:
+          'A TypeScript MCP server template following official SDK best practices',
+        endpoints: {
+          mcp: '/mcp',
+          ...(config.mcp.websocket && { websocket: API_ENDPOINTS.WS }),
+          ...(config.mcp.legacySse && {
+            sse: API_ENDPOINTS.SSE,
+            messages: API_ENDPOINTS.MESSAGES,
+          }),
+          health: '/health',
+          metrics: API_ENDPOINTS.METRICS,
+          hello: '/hello/:name',
+          openapi: API_ENDPOINTS.OPENAPI,
+          docs: API_ENDPOINTS.DOCS,
+          tools: API_ENDPOINTS.TOOLS,
+          toolCall: API_ENDPOINTS.TOOL_CALL,
+          ...(audit && config.auth.enabled && { audit: API_ENDPOINTS.AUDIT }),
+        },
+        capabilities: ['tools', 'resources', 'prompts'],
+        plugins: plugins.map(({ name, version }) => ({ name, version })),
+        transports: [
+          { type: 'streamable-http', endpoint: API_ENDPOINTS.MCP },
+          ...(config.mcp.websocket
+            ? [{ type: 'websocket', endpoint: API_ENDPOINTS.WS }]
+            : []),
+          ...(config.mcp.legacySse
+            ? [
+                {
+                  type: 'sse',
+                  endpoint: API_ENDPOINTS.SSE,
+                  messages: API_ENDPOINTS.MESSAGES,
+                  deprecated: true,
+                },
+              ]
+            : []),
+        ],
+        sdkVersion: '@modelcontextprotocol/sdk ^1.16.0',
+      };
     }
   );
 
   // Graceful shutdown handler
   fastify.addHook('onClose', async () => {
     fastify.log.info('Cleaning up MCP sessions...');
-    sessions.clear();
+    await sessionManager.closeAll();
+    subscriptions.close();
+    limiter?.close();
+    await audit?.close();
+    await teardownPlugins(plugins);
+    // Flush spans still waiting in the export batch
+    await tracing?.shutdown();
   });
+  shutdown = () => fastify.close();
 
   try {
     const address = await fastify.listen({
-      port: 3000,
-      host: '0.0.0.0',
+      port: config.server.port,
+      host: config.server.host,
     });
 
     fastify.log.info(`MCP Server ready at ${address}`);
     fastify.log.info('MCP endpoint: /mcp');
+    if (config.mcp.websocket) {
+      fastify.log.info(`WebSocket endpoint: ${API_ENDPOINTS.WS}`);
+    }
+    if (config.mcp.legacySse) {
+      fastify.log.info(
+        `Legacy SSE endpoints: ${API_ENDPOINTS.SSE}, ${API_ENDPOINTS.MESSAGES}`
+      );
+    }
     fastify.log.info('Hello endpoint: /hello/:name');
     fastify.log.info('Health check: /health');
+    if (config.metrics.enabled) {
+      fastify.log.info(`Metrics: ${API_ENDPOINTS.METRICS}`);
+    }
     fastify.log.info('Server info: /info');
   } catch (err) {
     fastify.log.error('Error starting server:', err);
@@ -257,38 +399,106 @@ async function startServer() {
 }
 
 // Enhanced graceful shutdown
-const gracefulShutdown = (signal: string) => {
-  console.log(`\nReceived ${signal}, shutting down gracefully...`);
+const gracefulShutdown = async (signal: string) => {
+  console.error(`\nReceived ${signal}, shutting down gracefully...`);
+  try {
+    await shutdown?.();
+  } catch (err) {
+    console.error('Error during shutdown:', err);
+  }
   process.exit(0);
 };
 
-process.on('SIGINT', () => gracefulShutdown('SIGINT'));
-process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
-
-// Check if running in STDIO mode (for CLI clients like Claude Desktop)
-const isStdioMode =
-  process.argv.includes('--stdio') || process.env['MCP_STDIO'] === 'true';
+/**
+ * Runs the MCP server over STDIO (following Node.js quickstart pattern)
+ * Logs go to stderr because stdout carries the protocol
+ */
+async function startStdioServer(config: AppConfig) {
+  const tracing = initTracing(config.tracing);
+  const logger = createLogger(config.logging, 2);
+
+  // Tool rate limits still guard against runaway local agents
+  const limiter = config.rateLimit.enabled
+    ? createRateLimiter(config.rateLimit)
+    : undefined;
+  const audit = config.audit.enabled
+    ? createAuditLog(config.audit, logger)
+    : undefined;
+  const cache = createToolCache(config.cache, logger);
+  const guards = {
+    policy: new AccessPolicy(),
+    limiter,
+    audit,
+    middleware: [
+      logCalls(logger),
+      ...(cache ? [cache.middleware()] : []),
+      enforceTimeouts(config.mcp.toolTimeout),
+    ],
+  };
+
+  const plugins = await loadPlugins();
+  const subscriptions = new ResourceSubscriptionManager({
+    plugins,
+    pollInterval: config.mcp.resourcePollInterval,
+    guards,
+    logger,
+  });
+  await setupPlugins(plugins, {
+    mode: 'stdio',
+    config,
+    logger,
+    plugins,
+    notifyResourceUpdated: uri => subscriptions.notifyUpdated(uri),
+    now: Date.now,
+    random: Math.random,
+  });
 
-if (isStdioMode) {
-  // STDIO mode for CLI clients (following Node.js quickstart pattern)
-  const mcpServer = createMCPServer();
+  const { server } = createMCPServer(plugins, {
+    subscriptions,
+    logger,
+    guards,
+  });
   const transport = new StdioServerTransport();
+  await server.connect(transport);
+  traceTransport(transport);
+
+  shutdown = async () => {
+    await server.close();
+    subscriptions.close();
+    limiter?.close();
+    await audit?.close();
+    await teardownPlugins(plugins);
+    await tracing?.shutdown();
+  };
+  // The client closing stdin ends the session; clean up before exiting
+  // so pending spans are exported
+  process.stdin.once('end', () => void gracefulShutdown('end of input'));
+}
 
-  mcpServer.connect(transport).catch(err => {
-    console.error('Failed to start STDIO server:', err);
-    process.exit(1);
-  });
+process.on('SIGINT', () => void gracefulShutdown('SIGINT'));
+process.on('SIGTERM', () => void gracefulShutdown('SIGTERM'));
 
-  console.error('MCP Server running in STDIO mode');
-} else {
-  // HTTP mode for web clients
-  startServer().catch(err => {
-    console.error('Failed to start HTTP server:');
-    console.error(err);
-    if (err.stack) {
-      console.error('Stack trace:');
-      console.error(err.stack);
-    }
-    process.exit(1);
-  });
+/**
+ * Loads configuration and starts the selected transport
+ * STDIO mode serves CLI clients like Claude Desktop; HTTP serves web clients
+ */
+async function main() {
+  const config = await loadConfig();
+
+  if (config.mcp.stdio) {
+    await startStdioServer(config);
+    console.error('MCP Server running in STDIO mode');
+  } else {
+    await startServer(config);
+  }
 }
+
+main().catch(err => {
+  if (err instanceof ConfigError) {
+    console.error(err.message);
+  } else {
+    console.error('Failed to start MCP server:');
+    console.error(err);
+  }
+  process.exit(1);
+});
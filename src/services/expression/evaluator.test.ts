@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from '../../utils/errorHandler.js';
+import { evaluateExpression, formatResult } from './evaluator.js';
+import { ExpressionError } from './parser.js';
+
+describe('evaluateExpression', () => {
+  it.each([
+    ['2 + 3 * 4', 14],
+    ['(2 + 3) * 4', 20],
+    ['2 ^ 3 ^ 2', 512],
+    ['-2 ^ 2', -4],
+    ['sqrt(16) + max(1, 5, 3)', 9],
+    ['rate = 0.05; 1000 * (1 + rate) ^ 2', 1102.5],
+  ])('evaluates %s', (source, expected) => {
+    expect(evaluateExpression(source).value).toBeCloseTo(expected);
+  });
+
+  it('reads variables from the options', () => {
+    expect(evaluateExpression('x * 2', { variables: { x: 21 } }).value).toBe(
+      42
+    );
+  });
+
+  it('converts units', () => {
+    const result = evaluateExpression('5 km to mi');
+
+    expect(result.unit).toBe('mi');
+    expect(formatResult(result, 2)).toBe('3.11 mi');
+  });
+
+  it('records each operation when explaining', () => {
+    expect(evaluateExpression('3 + 4 * 2', { explain: true }).steps).toEqual([
+      '4 * 2 = 8',
+      '3 + 8 = 11',
+    ]);
+  });
+
+  it.each([
+    ['1 / 0', 'Division by zero', 3],
+    ['2 +', 'Unexpected end of expression', 4],
+    ['foo + 1', 'Unknown variable "foo"', 1],
+    ['10 km + 5 kg', 'Cannot combine length (km) and mass (kg)', 7],
+    ['1e308 * 10', 'Result is not a finite number', 7],
+  ])('rejects %s at the failing position', (source, message, position) => {
+    const error = captureError(() => evaluateExpression(source));
+
+    expect(error).toBeInstanceOf(ExpressionError);
+    expect((error as ExpressionError).message).toContain(message);
+    expect((error as ExpressionError).details).toEqual({ position });
+  });
+
+  it('rejects variables named like constants', () => {
+    expect(() =>
+      evaluateExpression('x', { variables: { pi: 3 } })
+    ).toThrowError(ValidationError);
+  });
+});
+
+function captureError(run: () => unknown): unknown {
+  try {
+    run();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected an error');
+}
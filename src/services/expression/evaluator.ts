@@ -0,0 +1,322 @@
+import { ValidationError } from '../../utils/errorHandler.js';
+import { CONSTANTS } from './functions.js';
+import {
+  DEFAULT_LIMITS,
+  ExpressionError,
+  isReservedName,
+  parseExpression,
+} from './parser.js';
+import type {
+  EvaluationOptions,
+  EvaluationResult,
+  ExpressionNode,
+  Statement,
+} from './types.js';
+import { convertUnit, type Unit } from './units.js';
+
+interface Quantity {
+  value: number;
+  unit?: Unit | undefined;
+}
+
+/**
+ * Renders a number without binary floating-point noise (0.1 + 0.2 is 0.3),
+ * or with exactly `precision` decimal places
+ */
+export function formatNumber(value: number, precision?: number): string {
+  return precision === undefined
+    ? String(Number(value.toPrecision(12)))
+    : value.toFixed(precision);
+}
+
+function formatQuantity({ value, unit }: Quantity): string {
+  return unit ? `${formatNumber(value)} ${unit.symbol}` : formatNumber(value);
+}
+
+/**
+ * Walks the syntax tree, counting steps and optionally recording each
+ * operation
+ */
+class Evaluator {
+  readonly steps: string[] = [];
+  private count = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly scope: Map<string, Quantity>,
+    private readonly maxSteps: number,
+    private readonly explain: boolean
+  ) {}
+
+  run(statements: Statement[]): Quantity {
+    let result: Quantity = { value: 0 };
+    for (const statement of statements) {
+      result = this.evaluate(statement.value);
+      if (statement.type === 'assignment') {
+        this.scope.set(statement.name, result);
+        this.record(`${statement.name} = ${formatQuantity(result)}`);
+      }
+    }
+    return result;
+  }
+
+  private evaluate(node: ExpressionNode): Quantity {
+    if (++this.count > this.maxSteps) {
+      throw this.error(
+        `Expression needs more than ${this.maxSteps} steps`,
+        node
+      );
+    }
+
+    switch (node.type) {
+      case 'number':
+        return { value: node.value };
+      case 'variable': {
+        const value = this.scope.get(node.name) ?? CONSTANTS.get(node.name);
+        if (value === undefined) {
+          throw this.error(`Unknown variable "${node.name}"`, node);
+        }
+        return typeof value === 'number' ? { value } : value;
+      }
+      case 'unary': {
+        const operand = this.evaluate(node.operand);
+        return node.operator === '-'
+          ? { ...operand, value: -operand.value }
+          : operand;
+      }
+      case 'binary':
+        return this.binary(node);
+      case 'call':
+        return this.call(node);
+      case 'quantity': {
+        const operand = this.evaluate(node.operand);
+        if (operand.unit) {
+          throw this.error(
+            `${formatQuantity(operand)} already has a unit`,
+            node
+          );
+        }
+        return { value: operand.value, unit: node.unit };
+      }
+      case 'conversion': {
+        const operand = this.evaluate(node.operand);
+        const { unit: to } = node;
+        if (!operand.unit) {
+          throw this.error(
+            `${formatQuantity(operand)} has no unit to convert from`,
+            node
+          );
+        }
+        if (operand.unit.dimension !== to.dimension) {
+          throw this.error(
+            `Cannot convert ${operand.unit.dimension} (${operand.unit.symbol}) to ${to.dimension} (${to.symbol})`,
+            node
+          );
+        }
+        const result = this.finite(
+          { value: convertUnit(operand.value, operand.unit, to), unit: to },
+          node
+        );
+        this.record(
+          `${formatQuantity(operand)} to ${to.symbol} = ${formatQuantity(result)}`
+        );
+        return result;
+      }
+    }
+  }
+
+  private binary(node: Extract<ExpressionNode, { type: 'binary' }>): Quantity {
+    const left = this.evaluate(node.left);
+    const right = this.evaluate(node.right);
+    let result: Quantity;
+
+    switch (node.operator) {
+      case '+':
+      case '-': {
+        const [a, b, unit] = this.align(left, right, node);
+        result = { value: node.operator === '+' ? a + b : a - b, unit };
+        break;
+      }
+      case '*':
+        if (left.unit && right.unit) {
+          throw this.error('Cannot multiply two values with units', node);
+        }
+        result = {
+          value: left.value * right.value,
+          unit: left.unit ?? right.unit,
+        };
+        break;
+      case '/':
+      case '%': {
+        if (right.unit && !left.unit) {
+          throw this.error(
+            'Cannot divide a number by a value with a unit',
+            node
+          );
+        }
+        // Dividing two values of one dimension gives a plain ratio
+        const [a, b] = right.unit
+          ? this.align(left, right, node)
+          : [left.value, right.value];
+        if (b === 0) {
+          throw this.error('Division by zero', node);
+        }
+        result =
+          node.operator === '/'
+            ? { value: a / b, unit: right.unit ? undefined : left.unit }
+            : { value: a % b, unit: left.unit };
+        break;
+      }
+      case '^':
+        if (left.unit || right.unit) {
+          throw this.error('Exponentiation needs numbers without units', node);
+        }
+        result = { value: left.value ** right.value };
+        break;
+    }
+
+    this.finite(result, node);
+    this.record(
+      `${formatQuantity(left)} ${node.operator} ${formatQuantity(right)} = ${formatQuantity(result)}`
+    );
+    return result;
+  }
+
+  private call(node: Extract<ExpressionNode, { type: 'call' }>): Quantity {
+    const { fn } = node;
+    const args = node.args.map(arg => this.evaluate(arg));
+    const [first] = args;
+
+    const values = args.map((arg, index) => {
+      if (fn.units === 'all' && first) {
+        return this.align(first, arg, node)[1];
+      }
+      if (arg.unit && (fn.units !== 'first' || index > 0)) {
+        throw this.error(
+          `${node.name}() needs a number without a unit, got ${formatQuantity(arg)}`,
+          node
+        );
+      }
+      return arg.value;
+    });
+
+    const result = this.finite(
+      { value: fn.apply(...values), unit: fn.units ? first?.unit : undefined },
+      node
+    );
+    this.record(
+      `${node.name}(${args.map(arg => formatQuantity(arg)).join(', ')}) = ${formatQuantity(result)}`
+    );
+    return result;
+  }
+
+  /**
+   * Expresses two values in the left one's unit, so they can be combined
+   * Temperatures in different scales are rejected, as adding 10 degC to
+   * 50 degF has no single meaning
+   */
+  private align(
+    left: Quantity,
+    right: Quantity,
+    node: ExpressionNode
+  ): [number, number, Unit | undefined] {
+    if (!left.unit && !right.unit) {
+      return [left.value, right.value, undefined];
+    }
+    if (!left.unit || !right.unit) {
+      throw this.error(
+        `Cannot combine ${formatQuantity(left)} and ${formatQuantity(right)}: only one has a unit`,
+        node
+      );
+    }
+    if (left.unit.dimension !== right.unit.dimension) {
+      throw this.error(
+        `Cannot combine ${left.unit.dimension} (${left.unit.symbol}) and ${right.unit.dimension} (${right.unit.symbol})`,
+        node
+      );
+    }
+    if (
+      left.unit !== right.unit &&
+      (left.unit.offset !== undefined || right.unit.offset !== undefined)
+    ) {
+      throw this.error(
+        `Convert ${right.unit.symbol} to ${left.unit.symbol} before combining the temperatures`,
+        node
+      );
+    }
+    return [
+      left.value,
+      convertUnit(right.value, right.unit, left.unit),
+      left.unit,
+    ];
+  }
+
+  private finite(result: Quantity, node: ExpressionNode): Quantity {
+    if (!Number.isFinite(result.value)) {
+      throw this.error('Result is not a finite number', node);
+    }
+    return result;
+  }
+
+  private record(step: string): void {
+    if (this.explain) {
+      this.steps.push(step);
+    }
+  }
+
+  private error(message: string, node: ExpressionNode): ExpressionError {
+    return new ExpressionError(message, this.source, node.position);
+  }
+}
+
+/**
+ * Evaluates arithmetic with units, functions and variables, without `eval`
+ * Statements are separated by `;` and may assign variables (`rate = 0.05`);
+ * the last statement's value is the result
+ * @throws ExpressionError pointing at the failing part of the source,
+ * ValidationError for unusable variables
+ */
+export function evaluateExpression(
+  source: string,
+  options: EvaluationOptions = {}
+): EvaluationResult {
+  const limits = { ...DEFAULT_LIMITS, ...options.limits };
+  const scope = new Map<string, Quantity>();
+  for (const [name, value] of Object.entries(options.variables ?? {})) {
+    if (isReservedName(name)) {
+      throw new ValidationError(`Variable name "${name}" is reserved`, {
+        variable: name,
+      });
+    }
+    if (!Number.isFinite(value)) {
+      throw new ValidationError(`Variable "${name}" is not a finite number`, {
+        variable: name,
+      });
+    }
+    scope.set(name, { value });
+  }
+
+  const evaluator = new Evaluator(
+    source,
+    scope,
+    limits.maxSteps,
+    options.explain ?? false
+  );
+  const { value, unit } = evaluator.run(parseExpression(source, limits));
+  return {
+    value,
+    ...(unit && { unit: unit.symbol }),
+    steps: evaluator.steps,
+  };
+}
+
+/**
+ * Renders an evaluation result, with its unit when it has one
+ */
+export function formatResult(
+  { value, unit }: EvaluationResult,
+  precision?: number
+): string {
+  const number = formatNumber(value, precision);
+  return unit ? `${number} ${unit}` : number;
+}
@@ -0,0 +1,57 @@
+/**
+ * Functions and constants available in expressions
+ */
+
+export interface MathFunction {
+  /** Fewest and most arguments accepted */
+  arity: readonly [number, number];
+  /**
+   * Which arguments may carry a unit, kept by the result: `first` for
+   * rounding, `all` for functions comparing their arguments
+   */
+  units?: 'first' | 'all' | undefined;
+  apply(...args: number[]): number;
+}
+
+function roundTo(value: number, digits = 0): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+export const FUNCTIONS = new Map<string, MathFunction>([
+  ['sqrt', { arity: [1, 1], apply: Math.sqrt }],
+  ['cbrt', { arity: [1, 1], apply: Math.cbrt }],
+  ['abs', { arity: [1, 1], units: 'first', apply: Math.abs }],
+  ['exp', { arity: [1, 1], apply: Math.exp }],
+  ['ln', { arity: [1, 1], apply: Math.log }],
+  [
+    'log',
+    {
+      arity: [1, 2],
+      // Base 10 unless a base is given
+      apply: (value, base) =>
+        base === undefined
+          ? Math.log10(value)
+          : Math.log(value) / Math.log(base),
+    },
+  ],
+  ['log2', { arity: [1, 1], apply: Math.log2 }],
+  ['sin', { arity: [1, 1], apply: Math.sin }],
+  ['cos', { arity: [1, 1], apply: Math.cos }],
+  ['tan', { arity: [1, 1], apply: Math.tan }],
+  ['asin', { arity: [1, 1], apply: Math.asin }],
+  ['acos', { arity: [1, 1], apply: Math.acos }],
+  ['atan', { arity: [1, 1], apply: Math.atan }],
+  ['atan2', { arity: [2, 2], apply: Math.atan2 }],
+  ['min', { arity: [1, Infinity], units: 'all', apply: Math.min }],
+  ['max', { arity: [1, Infinity], units: 'all', apply: Math.max }],
+  ['round', { arity: [1, 2], units: 'first', apply: roundTo }],
+  ['floor', { arity: [1, 1], units: 'first', apply: Math.floor }],
+  ['ceil', { arity: [1, 1], units: 'first', apply: Math.ceil }],
+]);
+
+export const CONSTANTS = new Map<string, number>([
+  ['pi', Math.PI],
+  ['tau', 2 * Math.PI],
+  ['e', Math.E],
+]);
@@ -0,0 +1,10 @@
+export * from './types.js';
+export { findUnit, convertUnit, type Dimension, type Unit } from './units.js';
+export { FUNCTIONS, CONSTANTS, type MathFunction } from './functions.js';
+export {
+  DEFAULT_LIMITS,
+  ExpressionError,
+  isReservedName,
+  parseExpression,
+} from './parser.js';
+export { evaluateExpression, formatNumber, formatResult } from './evaluator.js';
@@ -0,0 +1,394 @@
+import { ValidationError } from '../../utils/errorHandler.js';
+import { CONSTANTS, FUNCTIONS } from './functions.js';
+import type {
+  BinaryOperator,
+  EvaluationLimits,
+  ExpressionNode,
+  Statement,
+} from './types.js';
+import { findUnit } from './units.js';
+
+/**
+ * Invalid or too costly expression
+ * The message quotes the source with a caret under the offending token;
+ * `details.position` is the same one-based position
+ */
+export class ExpressionError extends ValidationError {
+  constructor(message: string, source: string, position: number) {
+    super(
+      `${message} at position ${position + 1}\n${source.replace(/\s/g, ' ')}\n${' '.repeat(position)}^`,
+      { position: position + 1 }
+    );
+    this.name = 'ExpressionError';
+  }
+}
+
+export const DEFAULT_LIMITS: EvaluationLimits = {
+  maxLength: 1000,
+  maxDepth: 32,
+  maxSteps: 1000,
+};
+
+// Keyword introducing a unit conversion
+const CONVERSION_KEYWORD = 'to';
+
+/**
+ * Whether a name belongs to a keyword, constant or function, and so cannot
+ * be assigned or passed as a variable
+ */
+export function isReservedName(name: string): boolean {
+  return (
+    name === CONVERSION_KEYWORD || CONSTANTS.has(name) || FUNCTIONS.has(name)
+  );
+}
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+const NUMBER_PATTERN = /(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/y;
+const IDENTIFIER_PATTERN = /[A-Za-z_][A-Za-z0-9_]*/y;
+const OPERATOR_PATTERN = /\*\*|[-+*/%^(),=;]/y;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < source.length) {
+    if (/\s/.test(source.charAt(position))) {
+      position++;
+      continue;
+    }
+
+    const match = (
+      [
+        ['number', NUMBER_PATTERN],
+        ['identifier', IDENTIFIER_PATTERN],
+        ['operator', OPERATOR_PATTERN],
+      ] as const
+    ).find(([, pattern]) => {
+      pattern.lastIndex = position;
+      return pattern.test(source);
+    });
+    if (!match) {
+      throw new ExpressionError(
+        `Unexpected character "${source[position]}"`,
+        source,
+        position
+      );
+    }
+
+    const [type, pattern] = match;
+    tokens.push({
+      type,
+      text: source.slice(position, pattern.lastIndex),
+      position,
+    });
+    position = pattern.lastIndex;
+  }
+  return tokens;
+}
+
+/**
+ * Recursive descent parser; from loosest to tightest binding:
+ * `;`, assignment, `to`, `+ -`, `* / %`, unary `+ -`, `^` (right
+ * associative, so `-2^2` is -4), units, then numbers, names, calls and
+ * parentheses
+ */
+class Parser {
+  private readonly tokens: Token[];
+  private readonly end: Token;
+  private index = 0;
+  private depth = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly maxDepth: number
+  ) {
+    this.tokens = tokenize(source);
+    this.end = { type: 'end', text: '', position: source.length };
+  }
+
+  parseProgram(): Statement[] {
+    const statements: Statement[] = [];
+    while (this.peek().type !== 'end') {
+      if (this.accept(';')) {
+        continue;
+      }
+      statements.push(this.parseStatement());
+      const token = this.peek();
+      if (token.type !== 'end' && !this.accept(';')) {
+        throw this.error(`Unexpected "${token.text}"`, token);
+      }
+    }
+    if (statements.length === 0) {
+      throw this.error('Expected an expression', this.peek());
+    }
+    return statements;
+  }
+
+  private parseStatement(): Statement {
+    const token = this.peek();
+    if (token.type === 'identifier' && this.peek(1).text === '=') {
+      if (isReservedName(token.text)) {
+        throw this.error(
+          `Cannot assign to reserved name "${token.text}"`,
+          token
+        );
+      }
+      this.index += 2;
+      return {
+        type: 'assignment',
+        name: token.text,
+        value: this.parseConversion(),
+        position: token.position,
+      };
+    }
+    return {
+      type: 'expression',
+      value: this.parseConversion(),
+      position: token.position,
+    };
+  }
+
+  private parseConversion(): ExpressionNode {
+    let node = this.parseAdditive();
+    while (this.peek().text === CONVERSION_KEYWORD) {
+      const keyword = this.next();
+      const token = this.next();
+      const unit = token.type === 'identifier' && findUnit(token.text);
+      if (!unit) {
+        throw this.error(
+          `Expected a unit after "${CONVERSION_KEYWORD}"`,
+          token
+        );
+      }
+      node = {
+        type: 'conversion',
+        operand: node,
+        unit,
+        position: keyword.position,
+      };
+    }
+    return node;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    return this.parseBinary(['+', '-'], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    return this.parseBinary(['*', '/', '%'], () => this.parseUnary());
+  }
+
+  private parseBinary(
+    operators: BinaryOperator[],
+    operand: () => ExpressionNode
+  ): ExpressionNode {
+    let node = operand();
+    for (;;) {
+      const token = this.peek();
+      const operator = operators.find(op => token.text === op);
+      if (token.type !== 'operator' || !operator) {
+        return node;
+      }
+      this.index++;
+      node = {
+        type: 'binary',
+        operator,
+        left: node,
+        right: operand(),
+        position: token.position,
+      };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.text === '+' || token.text === '-') {
+      const operator = token.text;
+      this.index++;
+      return this.nested(token, () => ({
+        type: 'unary',
+        operator,
+        operand: this.parseUnary(),
+        position: token.position,
+      }));
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parseQuantity();
+    const token = this.peek();
+    if (token.text !== '^' && token.text !== '**') {
+      return base;
+    }
+    this.index++;
+    return {
+      type: 'binary',
+      operator: '^',
+      left: base,
+      right: this.nested(token, () => this.parseUnary()),
+      position: token.position,
+    };
+  }
+
+  private parseQuantity(): ExpressionNode {
+    const node = this.parsePrimary();
+    const token = this.peek();
+    const unit =
+      token.type === 'identifier' &&
+      token.text !== CONVERSION_KEYWORD &&
+      this.peek(1).text !== '(' &&
+      findUnit(token.text);
+    if (unit) {
+      this.index++;
+      return {
+        type: 'quantity',
+        operand: node,
+        unit,
+        position: token.position,
+      };
+    }
+    return node;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'number': {
+        const value = Number(token.text.replaceAll('_', ''));
+        if (!Number.isFinite(value)) {
+          throw this.error('Number is too large', token);
+        }
+        return { type: 'number', value, position: token.position };
+      }
+      case 'identifier':
+        if (this.peek().text === '(') {
+          return this.parseCall(token);
+        }
+        if (token.text === CONVERSION_KEYWORD) {
+          break;
+        }
+        return { type: 'variable', name: token.text, position: token.position };
+      case 'operator':
+        if (token.text === '(') {
+          const node = this.nested(token, () => this.parseConversion());
+          this.expect(')');
+          return node;
+        }
+        break;
+      case 'end':
+        throw this.error('Unexpected end of expression', token);
+    }
+    throw this.error(`Unexpected "${token.text}"`, token);
+  }
+
+  private parseCall(name: Token): ExpressionNode {
+    const fn = FUNCTIONS.get(name.text);
+    if (!fn) {
+      throw this.error(`Unknown function "${name.text}"`, name);
+    }
+
+    this.expect('(');
+    const args = this.nested(name, () => {
+      const parsed: ExpressionNode[] = [];
+      if (this.peek().text !== ')') {
+        do {
+          parsed.push(this.parseConversion());
+        } while (this.accept(','));
+      }
+      return parsed;
+    });
+    this.expect(')');
+
+    const [min, max] = fn.arity;
+    if (args.length < min || args.length > max) {
+      const expected =
+        min === max
+          ? `${min}`
+          : max === Infinity
+            ? `at least ${min}`
+            : `${min} to ${max}`;
+      throw this.error(
+        `${name.text}() takes ${expected} argument(s), got ${args.length}`,
+        name
+      );
+    }
+    return {
+      type: 'call',
+      name: name.text,
+      fn,
+      args,
+      position: name.position,
+    };
+  }
+
+  private nested<T>(token: Token, parse: () => T): T {
+    if (++this.depth > this.maxDepth) {
+      throw this.error(
+        `Expression is nested more than ${this.maxDepth} levels deep`,
+        token
+      );
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[this.index + offset] ?? this.end;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private accept(text: string): boolean {
+    if (this.peek().type === 'operator' && this.peek().text === text) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): void {
+    if (!this.accept(text)) {
+      const token = this.peek();
+      throw this.error(
+        `Expected "${text}" but found ${token.type === 'end' ? 'end of expression' : `"${token.text}"`}`,
+        token
+      );
+    }
+  }
+
+  private error(message: string, token: Token): ExpressionError {
+    return new ExpressionError(message, this.source, token.position);
+  }
+}
+
+/**
+ * Parses statements separated by `;`
+ * @throws ValidationError when the source is too long, ExpressionError when
+ * it is too deeply nested or not a valid expression
+ */
+export function parseExpression(
+  source: string,
+  limits: Pick<EvaluationLimits, 'maxLength' | 'maxDepth'> = DEFAULT_LIMITS
+): Statement[] {
+  if (source.length > limits.maxLength) {
+    throw new ValidationError(
+      `Expression is longer than ${limits.maxLength} characters`,
+      { length: source.length }
+    );
+  }
+  return new Parser(source, limits.maxDepth).parseProgram();
+}
@@ -0,0 +1,82 @@
+import type { MathFunction } from './functions.js';
+import type { Unit } from './units.js';
+
+/**
+ * Syntax tree, options and results of the expression evaluator
+ * Node positions are zero-based offsets into the source, so errors can
+ * point at the offending token
+ */
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'variable'; name: string; position: number }
+  | {
+      type: 'unary';
+      operator: '+' | '-';
+      operand: ExpressionNode;
+      position: number;
+    }
+  | {
+      type: 'binary';
+      operator: BinaryOperator;
+      left: ExpressionNode;
+      right: ExpressionNode;
+      position: number;
+    }
+  | {
+      type: 'call';
+      name: string;
+      fn: MathFunction;
+      args: ExpressionNode[];
+      position: number;
+    }
+  /** A value followed by a unit, e.g. `5 km` */
+  | {
+      type: 'quantity';
+      operand: ExpressionNode;
+      unit: Unit;
+      position: number;
+    }
+  /** `value to unit`, e.g. `5 km to mi` */
+  | {
+      type: 'conversion';
+      operand: ExpressionNode;
+      unit: Unit;
+      position: number;
+    };
+
+export type Statement =
+  | {
+      type: 'assignment';
+      name: string;
+      value: ExpressionNode;
+      position: number;
+    }
+  | { type: 'expression'; value: ExpressionNode; position: number };
+
+export interface EvaluationLimits {
+  /** Longest accepted source, in characters */
+  maxLength: number;
+  /** Deepest nesting of parentheses, calls and unary operators */
+  maxDepth: number;
+  /** Most syntax nodes evaluated for one source */
+  maxSteps: number;
+}
+
+export interface EvaluationOptions {
+  /** Values for variables the source reads but does not assign */
+  variables?: Record<string, number> | undefined;
+  /** Record every operation as a step */
+  explain?: boolean | undefined;
+  limits?: Partial<EvaluationLimits> | undefined;
+}
+
+export interface EvaluationResult {
+  value: number;
+  /** Symbol of the result's unit, if it has one */
+  unit?: string | undefined;
+  /** Operations in evaluation order, e.g. `3 + 4 = 7`; empty unless explaining */
+  steps: string[];
+}
@@ -0,0 +1,191 @@
+/**
+ * Units the evaluator can attach to values and convert between
+ * Every unit is a linear map to its dimension's base unit (metre, kilogram,
+ * second, kelvin, cubic metre, metre per second, byte)
+ */
+
+export type Dimension =
+  | 'length'
+  | 'mass'
+  | 'time'
+  | 'temperature'
+  | 'volume'
+  | 'speed'
+  | 'data';
+
+export interface Unit {
+  /** Canonical symbol, used in results */
+  symbol: string;
+  dimension: Dimension;
+  /** Size of one unit in the base unit */
+  factor: number;
+  /** Base value of the unit's zero; only temperature scales have one */
+  offset?: number | undefined;
+}
+
+type UnitDefinition = Unit & { aliases?: string[] };
+
+const UNIT_DEFINITIONS: UnitDefinition[] = [
+  {
+    symbol: 'm',
+    dimension: 'length',
+    factor: 1,
+    aliases: ['meter', 'meters', 'metre', 'metres'],
+  },
+  {
+    symbol: 'km',
+    dimension: 'length',
+    factor: 1000,
+    aliases: ['kilometer', 'kilometers', 'kilometre', 'kilometres'],
+  },
+  { symbol: 'cm', dimension: 'length', factor: 0.01 },
+  { symbol: 'mm', dimension: 'length', factor: 0.001 },
+  {
+    symbol: 'mi',
+    dimension: 'length',
+    factor: 1609.344,
+    aliases: ['mile', 'miles'],
+  },
+  {
+    symbol: 'yd',
+    dimension: 'length',
+    factor: 0.9144,
+    aliases: ['yard', 'yards'],
+  },
+  {
+    symbol: 'ft',
+    dimension: 'length',
+    factor: 0.3048,
+    aliases: ['foot', 'feet'],
+  },
+  {
+    symbol: 'in',
+    dimension: 'length',
+    factor: 0.0254,
+    aliases: ['inch', 'inches'],
+  },
+  {
+    symbol: 'kg',
+    dimension: 'mass',
+    factor: 1,
+    aliases: ['kilogram', 'kilograms'],
+  },
+  {
+    symbol: 'g',
+    dimension: 'mass',
+    factor: 0.001,
+    aliases: ['gram', 'grams'],
+  },
+  { symbol: 'mg', dimension: 'mass', factor: 1e-6 },
+  {
+    symbol: 't',
+    dimension: 'mass',
+    factor: 1000,
+    aliases: ['tonne', 'tonnes'],
+  },
+  {
+    symbol: 'lb',
+    dimension: 'mass',
+    factor: 0.45359237,
+    aliases: ['lbs', 'pound', 'pounds'],
+  },
+  {
+    symbol: 'oz',
+    dimension: 'mass',
+    factor: 0.028349523125,
+    aliases: ['ounce', 'ounces'],
+  },
+  {
+    symbol: 's',
+    dimension: 'time',
+    factor: 1,
+    aliases: ['sec', 'second', 'seconds'],
+  },
+  { symbol: 'ms', dimension: 'time', factor: 0.001 },
+  {
+    symbol: 'min',
+    dimension: 'time',
+    factor: 60,
+    aliases: ['minute', 'minutes'],
+  },
+  {
+    symbol: 'h',
+    dimension: 'time',
+    factor: 3600,
+    aliases: ['hr', 'hour', 'hours'],
+  },
+  { symbol: 'day', dimension: 'time', factor: 86400, aliases: ['days'] },
+  { symbol: 'week', dimension: 'time', factor: 604800, aliases: ['weeks'] },
+  {
+    symbol: 'degC',
+    dimension: 'temperature',
+    factor: 1,
+    offset: 273.15,
+    aliases: ['celsius'],
+  },
+  {
+    symbol: 'degF',
+    dimension: 'temperature',
+    factor: 5 / 9,
+    offset: 273.15 - (32 * 5) / 9,
+    aliases: ['fahrenheit'],
+  },
+  {
+    symbol: 'K',
+    dimension: 'temperature',
+    factor: 1,
+    aliases: ['kelvin'],
+  },
+  {
+    symbol: 'l',
+    dimension: 'volume',
+    factor: 0.001,
+    aliases: ['L', 'liter', 'liters', 'litre', 'litres'],
+  },
+  { symbol: 'ml', dimension: 'volume', factor: 1e-6, aliases: ['mL'] },
+  {
+    symbol: 'gal',
+    dimension: 'volume',
+    factor: 0.003785411784,
+    aliases: ['gallon', 'gallons'],
+  },
+  { symbol: 'mps', dimension: 'speed', factor: 1 },
+  { symbol: 'kph', dimension: 'speed', factor: 1 / 3.6, aliases: ['kmh'] },
+  { symbol: 'mph', dimension: 'speed', factor: 0.44704 },
+  {
+    symbol: 'kn',
+    dimension: 'speed',
+    factor: 1852 / 3600,
+    aliases: ['knot', 'knots'],
+  },
+  { symbol: 'B', dimension: 'data', factor: 1, aliases: ['byte', 'bytes'] },
+  { symbol: 'KB', dimension: 'data', factor: 1e3 },
+  { symbol: 'MB', dimension: 'data', factor: 1e6 },
+  { symbol: 'GB', dimension: 'data', factor: 1e9 },
+  { symbol: 'TB', dimension: 'data', factor: 1e12 },
+  { symbol: 'KiB', dimension: 'data', factor: 2 ** 10 },
+  { symbol: 'MiB', dimension: 'data', factor: 2 ** 20 },
+  { symbol: 'GiB', dimension: 'data', factor: 2 ** 30 },
+];
+
+const UNITS = new Map<string, Unit>(
+  UNIT_DEFINITIONS.flatMap(({ aliases = [], ...unit }) =>
+    [unit.symbol, ...aliases].map(name => [name, unit] as const)
+  )
+);
+
+/**
+ * Looks up a unit by symbol or alias; names are case-sensitive
+ */
+export function findUnit(name: string): Unit | undefined {
+  return UNITS.get(name);
+}
+
+/**
+ * Converts a value between two units of the same dimension
+ */
+export function convertUnit(value: number, from: Unit, to: Unit): number {
+  return (
+    (value * from.factor + (from.offset ?? 0) - (to.offset ?? 0)) / to.factor
+  );
+}
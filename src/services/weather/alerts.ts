@@ -0,0 +1,69 @@
+import {
+  ALERT_SEVERITIES,
+  type AlertSeverity,
+  type WeatherAlert,
+  type WeatherAlerts,
+} from './types.js';
+
+export interface AlertFilter {
+  /** Only keep alerts at least this severe */
+  minSeverity?: AlertSeverity | undefined;
+  /** Only keep alerts still in effect at or after this time (ISO 8601) */
+  activeFrom?: string | undefined;
+  /** Only keep alerts taking effect at or before this time (ISO 8601) */
+  activeUntil?: string | undefined;
+}
+
+/**
+ * Maps free-form upstream severity text onto the CAP severity levels
+ */
+export function normalizeSeverity(value: string | undefined): AlertSeverity {
+  const match = ALERT_SEVERITIES.find(
+    severity => severity.toLowerCase() === value?.trim().toLowerCase()
+  );
+  return match ?? 'Unknown';
+}
+
+/**
+ * Ranks severities so that a lower number is more severe
+ */
+export function severityRank(severity: AlertSeverity): number {
+  return ALERT_SEVERITIES.indexOf(severity);
+}
+
+/**
+ * Keeps the alerts matching a filter, most severe first
+ * An alert matches the time window when it overlaps it at all
+ */
+export function filterAlerts(
+  alerts: WeatherAlert[],
+  { minSeverity, activeFrom, activeUntil }: AlertFilter
+): WeatherAlert[] {
+  const from = activeFrom ? Date.parse(activeFrom) : -Infinity;
+  const until = activeUntil ? Date.parse(activeUntil) : Infinity;
+
+  return alerts
+    .filter(
+      alert =>
+        minSeverity === undefined ||
+        // Unknown never satisfies a minimum severity
+        (alert.severity !== 'Unknown' &&
+          severityRank(alert.severity) <= severityRank(minSeverity))
+    )
+    .filter(
+      alert =>
+        Date.parse(alert.expires) >= from &&
+        Date.parse(alert.effective) <= until
+    )
+    .sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+}
+
+/**
+ * Applies a filter to a provider response
+ */
+export function applyAlertFilter(
+  response: WeatherAlerts,
+  filter: AlertFilter
+): WeatherAlerts {
+  return { ...response, alerts: filterAlerts(response.alerts, filter) };
+}
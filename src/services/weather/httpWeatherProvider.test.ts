@@ -0,0 +1,182 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  NotFoundError,
+  TimeoutError,
+  UpstreamError,
+  ValidationError,
+} from '../../utils/errorHandler.js';
+import { HttpWeatherProvider } from './httpWeatherProvider.js';
+
+const TIMEOUT = 200;
+
+const FORECAST = {
+  location: { name: 'New York', lat: 40.71, lon: -74.01 },
+  current: {
+    last_updated_epoch: 1748766600,
+    temp_c: 21.5,
+    condition: { text: 'Partly cloudy' },
+    humidity: 60,
+    wind_kph: 12.2,
+  },
+};
+
+let http: Server | undefined;
+
+/** Starts a fake upstream answering every request with the handler */
+async function fakeUpstream(
+  handler: (request: IncomingMessage, response: ServerResponse) => void
+) {
+  const server = createServer(handler);
+  http = server;
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return new HttpWeatherProvider({
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    apiKey: 'secret-key',
+    timeout: TIMEOUT,
+  });
+}
+
+afterEach(async () => {
+  const server = http;
+  http = undefined;
+  if (server?.listening) {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+});
+
+describe('HttpWeatherProvider', () => {
+  it('normalizes a forecast', async () => {
+    const provider = await fakeUpstream((_request, response) => {
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify(FORECAST));
+    });
+
+    await expect(
+      provider.getForecast({ latitude: 40.71, longitude: -74.01 })
+    ).resolves.toEqual({
+      location: { latitude: 40.71, longitude: -74.01, name: 'New York' },
+      current: {
+        temperatureC: 21.5,
+        condition: 'Partly cloudy',
+        humidity: 60,
+        windKph: 12.2,
+      },
+      updatedAt: '2025-06-01T08:30:00.000Z',
+      source: 'http',
+    });
+  });
+
+  it('sends the key and query to the service', async () => {
+    let url: URL | undefined;
+    const provider = await fakeUpstream((request, response) => {
+      url = new URL(request.url ?? '', 'http://localhost');
+      response.end(JSON.stringify(FORECAST));
+    });
+
+    await provider.getForecast({ latitude: 40.71, longitude: -74.01 });
+    expect(url?.pathname).toBe('/v1/forecast.json');
+    expect(Object.fromEntries(url?.searchParams ?? [])).toEqual({
+      key: 'secret-key',
+      q: '40.71,-74.01',
+      days: '1',
+    });
+  });
+
+  it.each([
+    [400, ValidationError, 'VALIDATION_ERROR', false],
+    [401, UpstreamError, 'UPSTREAM_AUTH_FAILED', false],
+    [404, NotFoundError, 'NOT_FOUND', false],
+    [500, UpstreamError, 'UPSTREAM_ERROR', true],
+  ])('maps HTTP %i to a typed error', async (status, type, code, retryable) => {
+    const provider = await fakeUpstream((_request, response) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(
+        JSON.stringify({ error: { code: 1006, message: 'No match' } })
+      );
+    });
+
+    const error = await provider
+      .getAlerts('KS')
+      .catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(type);
+    expect(error).toMatchObject({ code, retryable });
+    // The API key never reaches error details
+    expect(JSON.stringify((error as UpstreamError).details)).not.toContain(
+      'secret-key'
+    );
+  });
+
+  it('honors Retry-After on 429', async () => {
+    const provider = await fakeUpstream((_request, response) => {
+      response.writeHead(429, { 'Retry-After': '42' });
+      response.end();
+    });
+
+    const error = await provider
+      .getAlerts('KS')
+      .catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).toMatchObject({
+      code: 'UPSTREAM_RATE_LIMITED',
+      retryable: true,
+      retryAfter: 42,
+    });
+  });
+
+  it('rejects payloads that do not match the expected shape', async () => {
+    const provider = await fakeUpstream((_request, response) => {
+      response.end(
+        JSON.stringify({
+          alerts: {
+            alert: [{ event: 'Flood', effective: 'soon', expires: 'later' }],
+          },
+        })
+      );
+    });
+
+    await expect(provider.getAlerts('KS')).rejects.toMatchObject({
+      code: 'UPSTREAM_INVALID_RESPONSE',
+    });
+  });
+
+  it('reports an unreachable service as unavailable', async () => {
+    const provider = await fakeUpstream(() => {});
+    await new Promise(resolve => http?.close(resolve));
+
+    await expect(provider.getAlerts('KS')).rejects.toMatchObject({
+      code: 'UPSTREAM_UNAVAILABLE',
+      retryable: true,
+    });
+  });
+
+  it('times out when the service does not answer', async () => {
+    const provider = await fakeUpstream(() => {});
+
+    await expect(
+      provider.getForecast({ latitude: 40.71, longitude: -74.01 })
+    ).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('times out when the body stalls after the headers', async () => {
+    const provider = await fakeUpstream((_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.write('{"location":');
+    });
+
+    const error = await provider
+      .getForecast({ latitude: 40.71, longitude: -74.01 })
+      .catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).statusCode).toBe(504);
+  });
+});
@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import {
+  NotFoundError,
+  TimeoutError,
+  UpstreamError,
+  ValidationError,
+} from '../../utils/errorHandler.js';
+import { normalizeSeverity } from './alerts.js';
+import type {
+  Coordinates,
+  WeatherAlerts,
+  WeatherForecast,
+  WeatherProvider,
+  WeatherRequestOptions,
+} from './types.js';
+
+export interface HttpWeatherProviderOptions {
+  baseUrl: string;
+  apiKey: string;
+  /** Per-request timeout in milliseconds */
+  timeout: number;
+}
+
+// Upstream payloads (WeatherAPI-compatible), validated before normalizing
+const UpstreamForecastSchema = z.object({
+  location: z.object({
+    name: z.string().optional(),
+    lat: z.number(),
+    lon: z.number(),
+  }),
+  current: z.object({
+    last_updated_epoch: z.number(),
+    temp_c: z.number(),
+    condition: z.object({ text: z.string() }),
+    humidity: z.number().optional(),
+    wind_kph: z.number().optional(),
+  }),
+});
+
+// Any date `Date` understands, normalized to ISO 8601
+const UpstreamDateSchema = z.string().transform((value, context) => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Invalid date: ${value}`,
+    });
+    return z.NEVER;
+  }
+  return new Date(time).toISOString();
+});
+
+const UpstreamAlertsSchema = z.object({
+  alerts: z.object({
+    alert: z.array(
+      z.object({
+        headline: z.string().default(''),
+        event: z.string(),
+        severity: z.string().optional(),
+        areas: z.string().default(''),
+        effective: UpstreamDateSchema,
+        expires: UpstreamDateSchema,
+        desc: z.string().optional(),
+        instruction: z.string().optional(),
+      })
+    ),
+  }),
+});
+
+const UpstreamErrorSchema = z.object({
+  error: z.object({ code: z.number().optional(), message: z.string() }),
+});
+
+/**
+ * Reads a Retry-After header, given in seconds or as an HTTP date
+ * @returns Whole seconds to wait, or undefined when absent or unreadable
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = /^\d+$/.test(value.trim())
+    ? Number(value)
+    : (Date.parse(value) - Date.now()) / 1000;
+  return Number.isNaN(seconds) ? undefined : Math.max(0, Math.ceil(seconds));
+}
+
+/**
+ * Weather provider backed by a WeatherAPI-compatible HTTP service
+ * (the public API, an internal proxy or a local fake server)
+ */
+export class HttpWeatherProvider implements WeatherProvider {
+  readonly name = 'http';
+  private readonly options: HttpWeatherProviderOptions;
+
+  constructor(options: HttpWeatherProviderOptions) {
+    this.options = options;
+  }
+
+  async getForecast(
+    { latitude, longitude }: Coordinates,
+    { signal }: WeatherRequestOptions = {}
+  ): Promise<WeatherForecast> {
+    const payload = await this.request(
+      'forecast.json',
+      { q: `${latitude},${longitude}`, days: '1' },
+      signal
+    );
+    const { location, current } = this.parse(UpstreamForecastSchema, payload);
+
+    return {
+      location: {
+        latitude: location.lat,
+        longitude: location.lon,
+        name: location.name,
+      },
+      current: {
+        temperatureC: current.temp_c,
+        condition: current.condition.text,
+        humidity: current.humidity,
+        windKph: current.wind_kph,
+      },
+      updatedAt: new Date(current.last_updated_epoch * 1000).toISOString(),
+      source: this.name,
+    };
+  }
+
+  async getAlerts(
+    state: string,
+    { signal }: WeatherRequestOptions = {}
+  ): Promise<WeatherAlerts> {
+    const payload = await this.request('alerts.json', { q: state }, signal);
+    const { alerts } = this.parse(UpstreamAlertsSchema, payload);
+
+    return {
+      state,
+      alerts: alerts.alert.map((alert, index) => ({
+        id: `${state}-${Date.parse(alert.effective)}-${index}`,
+        event: alert.event,
+        headline: alert.headline || alert.event,
+        severity: normalizeSeverity(alert.severity),
+        area: alert.areas || state,
+        effective: alert.effective,
+        expires: alert.expires,
+        description: alert.desc || undefined,
+        instruction: alert.instruction || undefined,
+      })),
+      updatedAt: new Date().toISOString(),
+      source: this.name,
+    };
+  }
+
+  /**
+   * Performs a GET against the upstream API and returns the parsed JSON body
+   * @throws TimeoutError, NotFoundError, ValidationError or UpstreamError, or
+   * the reason `signal` was aborted with
+   */
+  private async request(
+    path: string,
+    query: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    const url = new URL(path, this.options.baseUrl.replace(/\/?$/, '/'));
+    url.searchParams.set('key', this.options.apiKey);
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
+    // Never leak the API key into error details or logs
+    const safeUrl = `${url.origin}${url.pathname}`;
+
+    // Covers reading the body too, which can stall after the headers arrive
+    const timeout = AbortSignal.timeout(this.options.timeout);
+    const timedOut = () =>
+      new TimeoutError(
+        `Weather service did not respond within ${this.options.timeout}ms`,
+        { url: safeUrl }
+      );
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { Accept: 'application/json' },
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (timeout.aborted) {
+        throw timedOut();
+      }
+      throw new UpstreamError(
+        'Weather service is unreachable',
+        'UPSTREAM_UNAVAILABLE',
+        { url: safeUrl, cause: error instanceof Error ? error.message : error }
+      );
+    }
+
+    const body = await response.json().catch(() => {
+      signal?.throwIfAborted();
+      // A body cut off by the timeout is not a malformed one
+      if (timeout.aborted) {
+        throw timedOut();
+      }
+      return undefined;
+    });
+    signal?.throwIfAborted();
+    if (response.ok) {
+      if (body === undefined) {
+        throw new UpstreamError(
+          'Weather service returned invalid JSON',
+          'UPSTREAM_INVALID_RESPONSE',
+          { url: safeUrl }
+        );
+      }
+      return body;
+    }
+
+    const upstream = UpstreamErrorSchema.safeParse(body);
+    const message = upstream.success
+      ? upstream.data.error.message
+      : `HTTP ${response.status}`;
+    const details = { url: safeUrl, status: response.status };
+
+    switch (response.status) {
+      case 400:
+        throw new ValidationError(
+          `Weather service rejected the request: ${message}`,
+          details
+        );
+      case 401:
+      case 403:
+        throw new UpstreamError(
+          'Weather service rejected the API key',
+          'UPSTREAM_AUTH_FAILED',
+          details
+        );
+      case 404:
+        throw new NotFoundError(`Weather data not found: ${message}`, details);
+      case 429: {
+        const error = new UpstreamError(
+          'Weather service rate limit exceeded',
+          'UPSTREAM_RATE_LIMITED',
+          details
+        );
+        error.retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+        throw error;
+      }
+      default:
+        throw new UpstreamError(
+          `Weather service error: ${message}`,
+          'UPSTREAM_ERROR',
+          details
+        );
+    }
+  }
+
+  private parse<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    payload: unknown
+  ): T {
+    const result = schema.safeParse(payload);
+    if (!result.success) {
+      throw new UpstreamError(
+        'Weather service returned an unexpected response',
+        'UPSTREAM_INVALID_RESPONSE',
+        result.error.errors
+      );
+    }
+    return result.data;
+  }
+}
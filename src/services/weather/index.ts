@@ -0,0 +1,98 @@
+import type { AppConfig } from '../../config/config.js';
+import { HttpWeatherProvider } from './httpWeatherProvider.js';
+import { InstrumentedWeatherProvider } from './instrumentedWeatherProvider.js';
+import { SimulatedWeatherProvider } from './simulatedWeatherProvider.js';
+import type {
+  WeatherAlerts,
+  WeatherForecast,
+  WeatherProvider,
+} from './types.js';
+
+export * from './types.js';
+export * from './alerts.js';
+export { HttpWeatherProvider } from './httpWeatherProvider.js';
+export { InstrumentedWeatherProvider } from './instrumentedWeatherProvider.js';
+export { SimulatedWeatherProvider } from './simulatedWeatherProvider.js';
+
+export type WeatherProviderConfig = AppConfig['weather'];
+
+export interface CreateWeatherProviderOptions {
+  /** Clock for the simulated provider; defaults to the system clock */
+  now?: (() => number) | undefined;
+  /** Seeds the simulated provider's weather; the same for every instance when omitted */
+  random?: (() => number) | undefined;
+}
+
+/**
+ * Creates the weather provider selected in configuration, wrapped so its
+ * latency and failures show up in metrics
+ * @throws When the provider name is unknown or the HTTP provider has no key
+ */
+export function createWeatherProvider(
+  config: WeatherProviderConfig,
+  options: CreateWeatherProviderOptions = {}
+): WeatherProvider {
+  return new InstrumentedWeatherProvider(selectProvider(config, options));
+}
+
+function selectProvider(
+  config: WeatherProviderConfig,
+  { now, random }: CreateWeatherProviderOptions
+): WeatherProvider {
+  switch (config.provider) {
+    case 'simulated':
+      return new SimulatedWeatherProvider({
+        latency: config.simulatedLatency,
+        ...(now && { now }),
+        ...(random && { random }),
+      });
+    case 'http':
+      if (!config.apiKey) {
+        throw new Error(
+          'weather.apiKey is required when the provider is "http"'
+        );
+      }
+      return new HttpWeatherProvider({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        timeout: config.timeout,
+      });
+    default:
+      throw new Error(
+        `Unknown weather provider "${config.provider}". Supported: simulated, http`
+      );
+  }
+}
+
+/**
+ * Renders a forecast as human-readable text
+ * Times are ISO 8601 in UTC, so the text does not depend on the server's
+ * locale or time zone
+ */
+export function formatForecast(forecast: WeatherForecast): string {
+  const { location, current } = forecast;
+  return `
+🌤️  Current Conditions: ${current.condition}
+🌡️  Temperature: ${current.temperatureC}°C
+🌍 Location: ${location.name ? `${location.name} ` : ''}(${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)})
+⏰ Updated: ${new Date(forecast.updatedAt).toISOString()}
+`.trim();
+}
+
+/**
+ * Renders weather alerts as human-readable text
+ */
+export function formatAlerts({ state, alerts }: WeatherAlerts): string {
+  if (alerts.length === 0) {
+    return `✅ No matching weather alerts for ${state}.`;
+  }
+  return alerts
+    .map(alert =>
+      [
+        `⚠️  ${alert.event} (${alert.severity}) - ${alert.area}`,
+        `   ${new Date(alert.effective).toISOString()} → ${new Date(alert.expires).toISOString()}`,
+        ...(alert.instruction ? [`   ${alert.instruction}`] : []),
+      ].join('\n')
+    )
+    .join('\n');
+}
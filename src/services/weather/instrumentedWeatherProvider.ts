@@ -0,0 +1,76 @@
+import { SpanKind } from '@opentelemetry/api';
+import { metrics, type ServerMetrics } from '../../metrics/metrics.js';
+import { withSpan } from '../../tracing/tracer.js';
+import { AppError } from '../../utils/errorHandler.js';
+import type {
+  Coordinates,
+  WeatherAlerts,
+  WeatherForecast,
+  WeatherProvider,
+  WeatherRequestOptions,
+} from './types.js';
+
+/**
+ * Wraps a provider to trace every call and record its latency and failures
+ */
+export class InstrumentedWeatherProvider implements WeatherProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly provider: WeatherProvider,
+    private readonly serverMetrics: ServerMetrics = metrics
+  ) {
+    this.name = provider.name;
+  }
+
+  getForecast(
+    coordinates: Coordinates,
+    options?: WeatherRequestOptions
+  ): Promise<WeatherForecast> {
+    return this.observe('forecast', () =>
+      this.provider.getForecast(coordinates, options)
+    );
+  }
+
+  getAlerts(
+    state: string,
+    options?: WeatherRequestOptions
+  ): Promise<WeatherAlerts> {
+    return this.observe('alerts', () =>
+      this.provider.getAlerts(state, options)
+    );
+  }
+
+  private async observe<T>(
+    operation: string,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const labels = { provider: this.name, operation };
+    const endTimer = this.serverMetrics.upstreamDuration.startTimer(labels);
+    return withSpan(
+      `weather ${operation}`,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'weather.provider': this.name,
+          'weather.operation': operation,
+        },
+      },
+      async span => {
+        try {
+          const result = await call();
+          span.setAttribute('mcp.outcome', 'success');
+          return result;
+        } catch (error) {
+          this.serverMetrics.upstreamFailures.inc({
+            ...labels,
+            code: error instanceof AppError ? error.code : 'UNKNOWN',
+          });
+          throw error;
+        } finally {
+          endTimer();
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,211 @@
+import type {
+  AlertSeverity,
+  Coordinates,
+  WeatherAlert,
+  WeatherAlerts,
+  WeatherForecast,
+  WeatherProvider,
+  WeatherRequestOptions,
+} from './types.js';
+import { seededRandom } from '../../utils/random.js';
+
+const CONDITIONS = ['Sunny', 'Cloudy', 'Rainy', 'Partly Cloudy'];
+interface AlertTemplate {
+  event: string;
+  severity: AlertSeverity;
+  instruction: string;
+}
+
+const ALERT_TEMPLATES: Record<string, AlertTemplate> = {
+  thunderstorm: {
+    event: 'Severe Thunderstorm Warning',
+    severity: 'Severe',
+    instruction: 'Move to an interior room on the lowest floor of a building.',
+  },
+  tornado: {
+    event: 'Tornado Watch',
+    severity: 'Extreme',
+    instruction:
+      'Review your tornado safety plan and be ready to take shelter.',
+  },
+  flood: {
+    event: 'Flash Flood Watch',
+    severity: 'Moderate',
+    instruction: 'Avoid low-lying areas and never drive through flooded roads.',
+  },
+  heat: {
+    event: 'Heat Advisory',
+    severity: 'Moderate',
+    instruction:
+      'Drink plenty of fluids and stay out of the sun when possible.',
+  },
+  fire: {
+    event: 'Red Flag Warning',
+    severity: 'Severe',
+    instruction: 'Avoid outdoor burning and anything that could spark a fire.',
+  },
+  hurricane: {
+    event: 'Hurricane Warning',
+    severity: 'Extreme',
+    instruction: 'Follow evacuation orders from local officials.',
+  },
+  winter: {
+    event: 'Winter Storm Warning',
+    severity: 'Severe',
+    instruction: 'Avoid travel; if you must go out, carry an emergency kit.',
+  },
+  wind: {
+    event: 'Wind Advisory',
+    severity: 'Minor',
+    instruction: 'Secure loose outdoor objects and use caution while driving.',
+  },
+};
+
+// Hazards that are plausible for each region, so alerts depend on the state
+const REGIONAL_HAZARDS: Array<{ states: string[]; hazards: string[] }> = [
+  {
+    states: ['FL', 'LA', 'TX', 'MS', 'AL', 'GA', 'SC', 'NC'],
+    hazards: ['hurricane', 'flood', 'heat', 'thunderstorm'],
+  },
+  {
+    states: ['CA', 'OR', 'WA', 'NV', 'AZ', 'NM', 'UT', 'CO', 'ID', 'MT'],
+    hazards: ['fire', 'heat', 'wind', 'winter'],
+  },
+  {
+    states: ['ND', 'SD', 'MN', 'WI', 'MI', 'ME', 'VT', 'NH', 'NY', 'AK'],
+    hazards: ['winter', 'wind', 'flood'],
+  },
+  {
+    states: ['OK', 'KS', 'NE', 'IA', 'MO', 'AR', 'TN', 'KY', 'IL', 'IN'],
+    hazards: ['tornado', 'thunderstorm', 'flood', 'heat'],
+  },
+];
+const DEFAULT_HAZARDS = ['thunderstorm', 'flood', 'heat', 'wind'];
+const AREA_NAMES = ['Northern', 'Southern', 'Eastern', 'Western', 'Central'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Simulated data changes once per hour, like a slow upstream feed */
+const UPDATE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface SimulatedWeatherProviderOptions {
+  /** Artificial latency in milliseconds */
+  latency?: number;
+  /** Clock used for update timestamps and hourly variation */
+  now?: () => number;
+  /**
+   * Draws the seed that sets this provider's weather apart from other
+   * instances; every instance reports the same weather when omitted
+   */
+  random?: () => number;
+}
+
+/**
+ * Offline provider returning deterministic data
+ * Results depend only on the request, the current hour and the seed drawn
+ * at construction, which makes it a safe fallback and reproducible in tests
+ */
+export class SimulatedWeatherProvider implements WeatherProvider {
+  readonly name = 'simulated';
+  private readonly latency: number;
+  private readonly now: () => number;
+  private readonly seed: string;
+
+  constructor(options: SimulatedWeatherProviderOptions = {}) {
+    this.latency = options.latency ?? 100;
+    this.now = options.now ?? Date.now;
+    this.seed = options.random
+      ? Math.floor(options.random() * 2 ** 32).toString(36)
+      : '';
+  }
+
+  async getForecast(
+    { latitude, longitude }: Coordinates,
+    { signal }: WeatherRequestOptions = {}
+  ): Promise<WeatherForecast> {
+    await this.delay(signal);
+
+    const updatedAt = this.currentPeriod();
+    const random = seededRandom(
+      `${this.seed}${latitude.toFixed(4)},${longitude.toFixed(4)}@${updatedAt}`
+    );
+
+    return {
+      location: { latitude, longitude },
+      current: {
+        temperatureC: Math.round(20 + latitude * 0.5 + (random() * 10 - 5)),
+        condition:
+          CONDITIONS[Math.floor(random() * CONDITIONS.length)] ?? 'Unknown',
+        humidity: Math.round(30 + random() * 60),
+        windKph: Math.round(random() * 40),
+      },
+      updatedAt,
+      source: this.name,
+    };
+  }
+
+  async getAlerts(
+    state: string,
+    { signal }: WeatherRequestOptions = {}
+  ): Promise<WeatherAlerts> {
+    await this.delay(signal);
+
+    const updatedAt = this.currentPeriod();
+    const random = seededRandom(`${this.seed}${state}@${updatedAt}`);
+    const hazards =
+      REGIONAL_HAZARDS.find(region => region.states.includes(state))?.hazards ??
+      DEFAULT_HAZARDS;
+
+    const alerts: WeatherAlert[] = [];
+    if (random() > 0.4) {
+      for (const hazard of hazards) {
+        const template = ALERT_TEMPLATES[hazard];
+        if (!template || random() <= 0.6 || alerts.length >= 3) {
+          continue;
+        }
+
+        // Alerts started up to 12h ago and stay in effect 1 to 36h more
+        const issuedAt = Date.parse(updatedAt);
+        const effective = issuedAt - Math.floor(random() * 12) * HOUR_MS;
+        const expires = issuedAt + (1 + Math.floor(random() * 36)) * HOUR_MS;
+        const area = `${AREA_NAMES[Math.floor(random() * AREA_NAMES.length)]} ${state}`;
+
+        alerts.push({
+          id: `sim-${state}-${hazard}-${effective}`,
+          event: template.event,
+          headline: `${template.event} issued for ${area}`,
+          severity: template.severity,
+          area,
+          effective: new Date(effective).toISOString(),
+          expires: new Date(expires).toISOString(),
+          description: `Simulated ${template.event.toLowerCase()} for ${area}.`,
+          instruction: template.instruction,
+        });
+      }
+    }
+
+    return { state, alerts, updatedAt, source: this.name };
+  }
+
+  private currentPeriod(): string {
+    const now = this.now();
+    return new Date(now - (now % UPDATE_INTERVAL_MS)).toISOString();
+  }
+
+  private async delay(signal?: AbortSignal) {
+    signal?.throwIfAborted();
+    if (this.latency > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const abort = () => {
+          clearTimeout(timer);
+          reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', abort);
+          resolve();
+        }, this.latency);
+        signal?.addEventListener('abort', abort, { once: true });
+      });
+    }
+  }
+}
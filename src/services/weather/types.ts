@@ -0,0 +1,81 @@
+/**
+ * Normalized weather model shared by every provider
+ * Providers translate their upstream payloads into these shapes so tools,
+ * resources and REST routes never see provider-specific fields
+ */
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface CurrentConditions {
+  temperatureC: number;
+  condition: string;
+  humidity?: number | undefined;
+  windKph?: number | undefined;
+}
+
+export interface WeatherForecast {
+  location: Coordinates & { name?: string | undefined };
+  current: CurrentConditions;
+  /** ISO 8601 time the upstream data was last updated */
+  updatedAt: string;
+  /** Name of the provider that produced the data */
+  source: string;
+}
+
+/** CAP severity levels, most severe first */
+export const ALERT_SEVERITIES = [
+  'Extreme',
+  'Severe',
+  'Moderate',
+  'Minor',
+  'Unknown',
+] as const;
+
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+export interface WeatherAlert {
+  id: string;
+  event: string;
+  headline: string;
+  severity: AlertSeverity;
+  /** Human-readable affected area, e.g. "Fresno County, CA" */
+  area: string;
+  /** ISO 8601 time the alert takes effect */
+  effective: string;
+  /** ISO 8601 time the alert expires */
+  expires: string;
+  description?: string | undefined;
+  /** What people in the area should do */
+  instruction?: string | undefined;
+}
+
+export interface WeatherAlerts {
+  state: string;
+  alerts: WeatherAlert[];
+  updatedAt: string;
+  source: string;
+}
+
+/** Per-call options every provider honors */
+export interface WeatherRequestOptions {
+  /**
+   * Stops the call, e.g. when the tool that made it is cancelled; it then
+   * rejects with the signal's reason
+   */
+  signal?: AbortSignal | undefined;
+}
+
+export interface WeatherProvider {
+  readonly name: string;
+  getForecast(
+    coordinates: Coordinates,
+    options?: WeatherRequestOptions
+  ): Promise<WeatherForecast>;
+  getAlerts(
+    state: string,
+    options?: WeatherRequestOptions
+  ): Promise<WeatherAlerts>;
+}
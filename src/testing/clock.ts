@@ -0,0 +1,47 @@
+/** Default start of a test clock: 2025-01-01T12:00:00Z */
+export const DEFAULT_TEST_TIME = Date.UTC(2025, 0, 1, 12);
+
+/**
+ * Clock that only moves when told to, so time-dependent results are
+ * reproducible
+ * Pass `clock.now` wherever code expects a `() => number` clock
+ */
+export interface TestClock {
+  /** Current time in milliseconds since epoch */
+  now(): number;
+  /** Moves the clock forward */
+  advance(milliseconds: number): void;
+  /** Jumps to a point in time */
+  set(time: number | string | Date): void;
+}
+
+/**
+ * Creates a clock frozen at `start` until advanced
+ * @throws When `start` or a later `set` is not a valid date
+ */
+export function createTestClock(
+  start: number | string | Date = DEFAULT_TEST_TIME
+): TestClock {
+  let current = toTime(start);
+
+  return {
+    now: () => current,
+    advance: milliseconds => {
+      if (milliseconds < 0) {
+        throw new Error('A test clock cannot move backwards');
+      }
+      current += milliseconds;
+    },
+    set: time => {
+      current = toTime(time);
+    },
+  };
+}
+
+function toTime(time: number | string | Date): number {
+  const value = typeof time === 'number' ? time : new Date(time).getTime();
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid test clock time: ${String(time)}`);
+  }
+  return value;
+}
@@ -0,0 +1,20 @@
+/**
+ * Helpers for testing plugins in-process: an MCP client connected to the
+ * real server over an in-memory transport, a controllable clock and
+ * snapshot assertions
+ */
+export { createTestClock, DEFAULT_TEST_TIME, type TestClock } from './clock.js';
+export {
+  createTestClient,
+  type CallToolOptions,
+  type TestClient,
+  type TestClientOptions,
+  type TestToolResult,
+} from './testClient.js';
+export {
+  formatToolResult,
+  matchSnapshot,
+  matchToolSnapshot,
+  toSnapshot,
+  type SnapshotOptions,
+} from './snapshots.js';
@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+export interface SnapshotOptions {
+  /**
+   * Overwrite a snapshot that differs instead of failing
+   * Defaults to the `UPDATE_SNAPSHOTS=1` environment variable
+   */
+  update?: boolean | undefined;
+  /**
+   * Write a missing snapshot instead of failing
+   * Defaults to true, except when the `CI` environment variable is set
+   */
+  create?: boolean | undefined;
+}
+
+/**
+ * Renders a value as indented JSON with object keys sorted, so snapshots do
+ * not change when properties are built in a different order
+ */
+export function toSnapshot(value: unknown): string {
+  return `${JSON.stringify(value, (_key, item: unknown) => sortKeys(item), 2)}\n`;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  );
+}
+
+/**
+ * Renders a tool result for a snapshot: text blocks verbatim, so they stay
+ * readable in diffs, then everything else as sorted JSON
+ */
+export function formatToolResult(
+  result: Pick<CallToolResult, 'content' | 'isError'> & {
+    structuredContent?: unknown;
+  }
+): string {
+  const sections = [`isError: ${result.isError ?? false}`];
+  for (const block of result.content) {
+    sections.push(
+      block.type === 'text'
+        ? `--- text\n${block.text}\n`
+        : `--- ${block.type}\n${toSnapshot(block)}`
+    );
+  }
+  if (result.structuredContent !== undefined) {
+    sections.push(
+      `--- structuredContent\n${toSnapshot(result.structuredContent)}`
+    );
+  }
+  return sections.join('\n');
+}
+
+/**
+ * Compares a value with the snapshot stored in `file`
+ * Strings are stored as-is and other values with `toSnapshot`. A missing
+ * snapshot is written and passes, except in CI.
+ * @throws AssertionError showing the difference when the snapshot differs,
+ * or when it is missing and may not be created
+ */
+export async function matchSnapshot(
+  value: unknown,
+  file: string,
+  {
+    update = process.env['UPDATE_SNAPSHOTS'] === '1',
+    create = !process.env['CI'],
+  }: SnapshotOptions = {}
+): Promise<void> {
+  const actual = typeof value === 'string' ? value : toSnapshot(value);
+  const expected = await readSnapshot(file);
+
+  if (expected === undefined && !create) {
+    assert.fail(
+      `Snapshot ${file} is missing; run the tests outside CI to write it`
+    );
+  }
+  if (expected === undefined || (update && expected !== actual)) {
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, actual);
+    return;
+  }
+  assert.equal(
+    actual,
+    expected,
+    `Snapshot ${file} differs; rerun with UPDATE_SNAPSHOTS=1 to accept the change`
+  );
+}
+
+/**
+ * `matchSnapshot` for a tool result, rendered with `formatToolResult`
+ */
+export async function matchToolSnapshot(
+  result: Parameters<typeof formatToolResult>[0],
+  file: string,
+  options?: SnapshotOptions
+): Promise<void> {
+  await matchSnapshot(formatToolResult(result), file, options);
+}
+
+async function readSnapshot(file: string): Promise<string | undefined> {
+  try {
+    return await readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as { code?: unknown }).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
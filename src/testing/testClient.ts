@@ -0,0 +1,213 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult,
+  GetPromptResult,
+  Progress,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { FastifyBaseLogger } from 'fastify';
+import type { z } from 'zod';
+import { toAuthInfo } from '../auth/authenticator.js';
+import { AccessPolicy } from '../auth/policy.js';
+import type { Principal } from '../auth/types.js';
+import { ConfigSchema, type AppConfig } from '../config/config.js';
+import type { McpPlugin } from '../mcp/plugin.js';
+import {
+  loadPlugins,
+  setupPlugins,
+  sortPlugins,
+  teardownPlugins,
+} from '../mcp/pluginLoader.js';
+import { ResourceSubscriptionManager } from '../mcp/resources.js';
+import { createMCPServer, type SessionState } from '../mcp/serverFactory.js';
+import type { ToolGuards } from '../mcp/toolExecutor.js';
+import { enforceTimeouts } from '../mcp/toolMiddleware.js';
+import { createLogger } from '../utils/logger.js';
+import { seededRandom } from '../utils/random.js';
+import { createTestClock, type TestClock } from './clock.js';
+
+export interface TestClientOptions {
+  /** Plugins to serve; every plugin under `src/plugins` when omitted */
+  plugins?: McpPlugin[] | undefined;
+  /**
+   * Configuration overrides, validated like a config file
+   * The simulated weather provider answers without latency unless
+   * `weather.simulatedLatency` is set
+   */
+  config?: z.input<typeof ConfigSchema> | undefined;
+  /** Caller seen by handlers and the access policy; anonymous when omitted */
+  principal?: Principal | undefined;
+  /** Access policy, rate limits, audit and middleware around every tool */
+  guards?: ToolGuards | undefined;
+  /** Clock handed to plugins; frozen at `DEFAULT_TEST_TIME` when omitted */
+  clock?: TestClock | undefined;
+  /** Seed of the random numbers handed to plugins */
+  seed?: string | undefined;
+  /** Receives server and plugin logs; silent when omitted */
+  logger?: FastifyBaseLogger | undefined;
+}
+
+export interface CallToolOptions {
+  /** Skip cached results, like `_meta: { noCache: true }` */
+  noCache?: boolean | undefined;
+  /** Receives the tool's progress notifications */
+  onProgress?: ((progress: Progress) => void) | undefined;
+  /** Cancels the call when aborted */
+  signal?: AbortSignal | undefined;
+  /** Client-side request timeout in milliseconds */
+  timeout?: number | undefined;
+}
+
+/**
+ * Tool result with its structured content typed by the caller
+ */
+export type TestToolResult<Structured = Record<string, unknown>> = Pick<
+  CallToolResult,
+  'content' | 'isError' | '_meta'
+> & { structuredContent?: Structured | undefined };
+
+/**
+ * MCP client connected in-process to a server built from plugins
+ */
+export interface TestClient {
+  /** Underlying SDK client, for requests the helpers do not cover */
+  client: Client;
+  /** Configuration the plugins were set up with */
+  config: AppConfig;
+  clock: TestClock;
+  /** Server-side state of the session, e.g. to enable or disable tools */
+  session: SessionState;
+  listTools(): Promise<Tool[]>;
+  /**
+   * Calls a tool; handler failures come back as results with
+   * `isError: true`, while access and rate limit denials reject with an
+   * McpError, as they do for any MCP client
+   */
+  callTool<Structured = Record<string, unknown>>(
+    name: string,
+    args?: Record<string, unknown>,
+    options?: CallToolOptions
+  ): Promise<TestToolResult<Structured>>;
+  listResources(): Promise<Resource[]>;
+  readResource(uri: string): Promise<ReadResourceResult>;
+  listPrompts(): Promise<Prompt[]>;
+  getPrompt(
+    name: string,
+    args?: Record<string, string>
+  ): Promise<GetPromptResult>;
+  /** Disconnects and tears the plugins down */
+  close(): Promise<void>;
+}
+
+/**
+ * Connects an MCP client to a server built from plugins over an in-memory
+ * transport pair, without HTTP or stdio
+ * Plugins keep their state on the instance, so close one test client before
+ * creating another from the same plugin instances, or build fresh ones
+ * (e.g. `createWeatherPlugin()`) for each client
+ */
+export async function createTestClient(
+  options: TestClientOptions = {}
+): Promise<TestClient> {
+  const config = ConfigSchema.parse({
+    ...options.config,
+    weather: { simulatedLatency: 0, ...options.config?.weather },
+  });
+  const logger =
+    options.logger ??
+    createLogger({ level: 'silent', pretty: false, enabled: false });
+  const clock = options.clock ?? createTestClock();
+  const plugins = options.plugins
+    ? sortPlugins(options.plugins)
+    : await loadPlugins();
+
+  const guards = options.guards ?? {
+    policy: new AccessPolicy(),
+    middleware: [enforceTimeouts(config.mcp.toolTimeout)],
+  };
+  const subscriptions = new ResourceSubscriptionManager({
+    plugins,
+    pollInterval: config.mcp.resourcePollInterval,
+    guards,
+    logger,
+  });
+  await setupPlugins(plugins, {
+    mode: 'stdio',
+    config,
+    logger,
+    plugins,
+    notifyResourceUpdated: uri => subscriptions.notifyUpdated(uri),
+    now: clock.now,
+    random: seededRandom(options.seed ?? 'test'),
+  });
+
+  const { server, state } = createMCPServer(plugins, {
+    subscriptions,
+    logger,
+    guards,
+  });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+
+  // Every request carries the principal, as the HTTP transport would after
+  // authenticating it
+  const { principal } = options;
+  if (principal) {
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, sendOptions) =>
+      send(message, {
+        ...sendOptions,
+        authInfo: toAuthInfo(principal, 'test-token'),
+      });
+  }
+
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return {
+    client,
+    config,
+    clock,
+    session: state,
+    listTools: async () => (await client.listTools()).tools,
+    callTool: async <Structured>(
+      name: string,
+      args: Record<string, unknown> = {},
+      callOptions: CallToolOptions = {}
+    ) => {
+      const requestOptions: RequestOptions = {
+        ...(callOptions.onProgress && { onprogress: callOptions.onProgress }),
+        ...(callOptions.signal && { signal: callOptions.signal }),
+        ...(callOptions.timeout !== undefined && {
+          timeout: callOptions.timeout,
+        }),
+      };
+      const result = await client.callTool(
+        {
+          name,
+          arguments: args,
+          ...(callOptions.noCache && { _meta: { noCache: true } }),
+        },
+        undefined,
+        requestOptions
+      );
+      return result as TestToolResult<Structured>;
+    },
+    listResources: async () => (await client.listResources()).resources,
+    readResource: uri => client.readResource({ uri }),
+    listPrompts: async () => (await client.listPrompts()).prompts,
+    getPrompt: (name, args = {}) => client.getPrompt({ name, arguments: args }),
+    close: async () => {
+      await client.close();
+      await server.close();
+      subscriptions.close();
+      await teardownPlugins(plugins);
+    },
+  };
+}
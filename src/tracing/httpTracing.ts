@@ -0,0 +1,80 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import {
+  context,
+  propagation,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Span,
+} from '@opentelemetry/api';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_URL_PATH,
+} from '@opentelemetry/semantic-conventions';
+import { tracer } from './tracer.js';
+
+const requestSpans = new WeakMap<FastifyRequest, Span>();
+
+/**
+ * Opens a server span for every HTTP request, continuing the caller's trace
+ * from a W3C `traceparent` header
+ * Route handlers run inside the span, so MCP method and tool spans nest
+ * under it; must be registered before the routes it traces
+ */
+export async function registerTracing(fastify: FastifyInstance): Promise<void> {
+  fastify.addHook('onRequest', async request => {
+    const route = request.routeOptions.url;
+    const sessionId = request.headers['mcp-session-id'];
+    const span = tracer.startSpan(
+      route ? `${request.method} ${route}` : request.method,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          [ATTR_HTTP_REQUEST_METHOD]: request.method,
+          [ATTR_URL_PATH]: request.url.split('?')[0],
+          ...(route && { [ATTR_HTTP_ROUTE]: route }),
+          ...(typeof sessionId === 'string' && {
+            'mcp.session.id': sessionId,
+          }),
+        },
+      },
+      propagation.extract(context.active(), request.headers)
+    );
+    requestSpans.set(request, span);
+  });
+
+  // Body parsing loses the async context, so enter the span right before
+  // the handler; everything the handler awaits inherits it
+  fastify.addHook('preHandler', (request, _reply, done) => {
+    const span = requestSpans.get(request);
+    if (!span) {
+      done();
+      return;
+    }
+    context.with(trace.setSpan(context.active(), span), done);
+  });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    const span = requestSpans.get(request);
+    if (!span) {
+      return;
+    }
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, reply.statusCode);
+    if (reply.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+    requestSpans.delete(request);
+  });
+
+  fastify.addHook('onRequestAbort', async request => {
+    const span = requestSpans.get(request);
+    if (span) {
+      span.setAttribute('http.aborted', true);
+      span.end();
+      requestSpans.delete(request);
+    }
+  });
+}
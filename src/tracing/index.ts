@@ -0,0 +1,9 @@
+export {
+  initTracing,
+  recordSpanError,
+  tracer,
+  withSpan,
+  type TracingConfig,
+} from './tracer.js';
+export { registerTracing } from './httpTracing.js';
+export { traceTransport } from './mcpTracing.js';
@@ -0,0 +1,101 @@
+import {
+  context,
+  propagation,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Span,
+} from '@opentelemetry/api';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type RequestId,
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCP_METHODS } from '../config/constants.js';
+import { tracer } from './tracer.js';
+
+/**
+ * Opens a span for every JSON-RPC request a connected transport receives and
+ * ends it when the response is sent
+ * The parent is the trace context in the request's `_meta` (`traceparent`,
+ * `tracestate`) when present, otherwise the active context, e.g. the HTTP
+ * request span; handlers run inside the new span
+ * Call after the server has connected to the transport
+ */
+export function traceTransport(transport: Transport): void {
+  const spans = new Map<RequestId, Span>();
+
+  const onmessage = transport.onmessage;
+  transport.onmessage = (message, extra) => {
+    if (!isJSONRPCRequest(message)) {
+      onmessage?.(message, extra);
+      return;
+    }
+
+    const parent = propagation.extract(
+      context.active(),
+      message.params?._meta ?? {}
+    );
+    const span = tracer.startSpan(
+      `mcp ${message.method}`,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          'rpc.system': 'jsonrpc',
+          'rpc.method': message.method,
+          'rpc.jsonrpc.request_id': String(message.id),
+          ...(transport.sessionId && { 'mcp.session.id': transport.sessionId }),
+          ...(message.method === MCP_METHODS.TOOLS_CALL &&
+            typeof message.params?.['name'] === 'string' && {
+              'mcp.tool.name': message.params['name'],
+            }),
+        },
+      },
+      parent
+    );
+    spans.set(message.id, span);
+    context.with(trace.setSpan(parent, span), () =>
+      onmessage?.(message, extra)
+    );
+  };
+
+  const send = transport.send.bind(transport);
+  transport.send = (message, options) => {
+    const span =
+      (isJSONRPCResponse(message) || isJSONRPCError(message)) &&
+      spans.get(message.id);
+    if (span) {
+      spans.delete(message.id);
+      if (isJSONRPCError(message)) {
+        span.setAttributes({
+          'mcp.outcome': 'error',
+          'rpc.jsonrpc.error_code': message.error.code,
+        });
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: message.error.message,
+        });
+      } else {
+        span.setAttribute(
+          'mcp.outcome',
+          message.result['isError'] === true ? 'tool_error' : 'success'
+        );
+      }
+      span.end();
+    }
+    return send(message, options);
+  };
+
+  // Requests still open when the connection goes away never get a response
+  const onclose = transport.onclose;
+  transport.onclose = () => {
+    for (const span of spans.values()) {
+      span.setAttribute('mcp.outcome', 'aborted');
+      span.end();
+    }
+    spans.clear();
+    onclose?.();
+  };
+}
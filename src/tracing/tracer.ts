@@ -0,0 +1,89 @@
+import {
+  SpanStatusCode,
+  trace,
+  type Span,
+  type SpanOptions,
+} from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+} from '@opentelemetry/sdk-trace-node';
+import {
+  ATTR_SERVICE_NAME,
+  ATTR_SERVICE_VERSION,
+} from '@opentelemetry/semantic-conventions';
+import type { AppConfig } from '../config/config.js';
+import { SERVER_CONFIG } from '../config/constants.js';
+
+export type TracingConfig = AppConfig['tracing'];
+
+/**
+ * Tracer for all server spans
+ * Until tracing is initialized (or when it is disabled) it creates no-op
+ * spans, so instrumented code never needs to check
+ */
+export const tracer = trace.getTracer(
+  SERVER_CONFIG.NAME,
+  SERVER_CONFIG.VERSION
+);
+
+/**
+ * Starts exporting spans over OTLP/HTTP and installs W3C trace context
+ * propagation with async context tracking
+ * @returns The provider, to flush and shut down on exit; undefined when
+ * tracing is disabled
+ */
+export function initTracing(
+  config: TracingConfig
+): NodeTracerProvider | undefined {
+  if (!config.enabled) {
+    return undefined;
+  }
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: config.serviceName,
+      [ATTR_SERVICE_VERSION]: SERVER_CONFIG.VERSION,
+    }),
+    spanProcessors: [
+      new BatchSpanProcessor(new OTLPTraceExporter({ url: config.endpoint })),
+    ],
+  });
+  provider.register();
+  return provider;
+}
+
+/**
+ * Marks a span as failed with the error's message
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Runs `fn` inside a new active span that ends when it settles
+ * Thrown errors are recorded on the span and rethrown
+ */
+export async function withSpan<T>(
+  name: string,
+  options: SpanOptions,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return tracer.startActiveSpan(name, options, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.setAttribute('mcp.outcome', 'error');
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
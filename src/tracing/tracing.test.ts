@@ -0,0 +1,163 @@
+import Fastify from 'fastify';
+import { SpanStatusCode, trace } from '@opentelemetry/api';
+import {
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-node';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { createMCPServer } from '../mcp/serverFactory.js';
+import helloPlugin from '../plugins/helloPlugin.js';
+import { registerTracing } from './httpTracing.js';
+import { traceTransport } from './mcpTracing.js';
+import { withSpan } from './tracer.js';
+
+const TRACE_ID = '0af7651916cd43dd8448eb211c80319c';
+const PARENT_SPAN_ID = 'b7ad6b7169203331';
+
+const exporter = new InMemorySpanExporter();
+const provider = new NodeTracerProvider({
+  spanProcessors: [new SimpleSpanProcessor(exporter)],
+});
+
+beforeAll(() => {
+  provider.register();
+});
+
+afterAll(async () => {
+  await provider.shutdown();
+  trace.disable();
+});
+
+afterEach(() => {
+  exporter.reset();
+});
+
+function spanNamed(name: string): ReadableSpan {
+  const span = exporter.getFinishedSpans().find(span => span.name === name);
+  if (!span) {
+    throw new Error(`No span named ${name}`);
+  }
+  return span;
+}
+
+describe('registerTracing', () => {
+  let fastify: ReturnType<typeof Fastify> | undefined;
+
+  afterEach(async () => {
+    await fastify?.close();
+    fastify = undefined;
+  });
+
+  async function serve() {
+    const server = Fastify();
+    fastify = server;
+    await registerTracing(server);
+    server.post('/items/:id', async () =>
+      withSpan('load item', {}, async () => ({ ok: true }))
+    );
+    server.get('/broken', async () => {
+      throw new Error('boom');
+    });
+    return server;
+  }
+
+  it('continues the caller trace and nests handler spans', async () => {
+    const server = await serve();
+
+    await server.inject({
+      method: 'POST',
+      url: '/items/1?verbose=1',
+      headers: {
+        traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`,
+        'mcp-session-id': 'session-1',
+      },
+      payload: {},
+    });
+
+    const request = spanNamed('POST /items/:id');
+    expect(request.spanContext().traceId).toBe(TRACE_ID);
+    expect(request.parentSpanContext?.spanId).toBe(PARENT_SPAN_ID);
+    expect(request.attributes).toMatchObject({
+      'http.request.method': 'POST',
+      'http.route': '/items/:id',
+      'url.path': '/items/1',
+      'http.response.status_code': 200,
+      'mcp.session.id': 'session-1',
+    });
+    expect(spanNamed('load item').parentSpanContext?.spanId).toBe(
+      request.spanContext().spanId
+    );
+  });
+
+  it('marks server errors as failed', async () => {
+    const server = await serve();
+
+    await server.inject({ method: 'GET', url: '/broken' });
+    const span = spanNamed('GET /broken');
+    expect(span.attributes['http.response.status_code']).toBe(500);
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+  });
+});
+
+describe('traceTransport', () => {
+  let client: Client | undefined;
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+  });
+
+  async function connect() {
+    const { server } = createMCPServer([helloPlugin]);
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    traceTransport(serverTransport);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    return client;
+  }
+
+  it('opens a span per request with the tool span nested', async () => {
+    const mcp = await connect();
+
+    await mcp.callTool({ name: 'sayHello', arguments: { name: 'Ada' } });
+    const method = spanNamed('mcp tools/call');
+    expect(method.attributes).toMatchObject({
+      'rpc.system': 'jsonrpc',
+      'rpc.method': 'tools/call',
+      'mcp.tool.name': 'sayHello',
+      'mcp.outcome': 'success',
+    });
+    expect(spanNamed('tool sayHello').parentSpanContext?.spanId).toBe(
+      method.spanContext().spanId
+    );
+  });
+
+  it('continues the trace context in _meta', async () => {
+    const mcp = await connect();
+
+    await mcp.callTool({
+      name: 'sayHello',
+      arguments: { name: 'Ada' },
+      _meta: { traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01` },
+    });
+    const method = spanNamed('mcp tools/call');
+    expect(method.spanContext().traceId).toBe(TRACE_ID);
+    expect(method.parentSpanContext?.spanId).toBe(PARENT_SPAN_ID);
+  });
+
+  it('records JSON-RPC errors', async () => {
+    const mcp = await connect();
+
+    await expect(mcp.getPrompt({ name: 'missing' })).rejects.toThrow();
+    const span = spanNamed('mcp prompts/get');
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span.attributes['mcp.outcome']).toBe('error');
+  });
+});
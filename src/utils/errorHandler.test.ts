@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { MCP_ERROR_CODES } from '../config/constants.js';
+import {
+  AppError,
+  describeError,
+  ForbiddenError,
+  logDetails,
+  logMessage,
+  RateLimitError,
+  toAppError,
+  toMcpError,
+  ToolExecutionError,
+  toToolErrorResult,
+  UpstreamError,
+  ValidationError,
+} from './errorHandler.js';
+
+describe('toAppError', () => {
+  it('keeps errors of the taxonomy as they are', () => {
+    const error = new ForbiddenError('No access');
+    expect(toAppError(error)).toBe(error);
+  });
+
+  it('maps Zod failures to validation errors', () => {
+    const parsed = z.object({ a: z.number() }).safeParse({ a: 'x' });
+    const error = toAppError(parsed.error);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.statusCode).toBe(400);
+    expect(error.details).toEqual(parsed.error?.errors);
+  });
+
+  it('keeps the status and code of Fastify client errors', () => {
+    const error = toAppError(
+      Object.assign(new Error('Body is too large'), {
+        statusCode: 413,
+        code: 'FST_ERR_CTP_BODY_TOO_LARGE',
+      })
+    );
+
+    expect(error.statusCode).toBe(413);
+    expect(error.code).toBe('FST_ERR_CTP_BODY_TOO_LARGE');
+    expect(error.jsonRpcCode).toBe(ErrorCode.InvalidRequest);
+  });
+
+  it('replaces the message of unknown errors', () => {
+    const cause = new Error('ENOENT: /srv/secrets.json');
+    const error = toAppError(cause);
+
+    expect(error.code).toBe('INTERNAL_ERROR');
+    expect(error.message).toBe('Internal server error');
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe('ToolExecutionError', () => {
+  it('takes its status, code and retryability from the cause', () => {
+    const error = new ToolExecutionError(
+      'getWeatherForecast',
+      new UpstreamError(
+        'Weather service is unreachable',
+        'UPSTREAM_UNAVAILABLE'
+      )
+    );
+
+    expect(error.statusCode).toBe(502);
+    expect(error.jsonRpcCode).toBe(MCP_ERROR_CODES.UPSTREAM_ERROR);
+    expect(error.code).toBe('UPSTREAM_UNAVAILABLE');
+    expect(error.retryable).toBe(true);
+  });
+
+  it('logs the message and details of the cause', () => {
+    const error = new ToolExecutionError(
+      'lookup',
+      new AppError('Disk full', { path: '/var/data' })
+    );
+
+    expect(logMessage(error)).toBe('Disk full');
+    expect(logDetails(error)).toEqual({ path: '/var/data' });
+  });
+});
+
+describe('describeError', () => {
+  it('describes rate limits with their retry delay', () => {
+    expect(
+      describeError(
+        new RateLimitError('Rate limit exceeded', 30, { scope: 'client' })
+      )
+    ).toEqual({
+      code: 'RATE_LIMITED',
+      message: 'Rate limit exceeded',
+      retryable: true,
+      retryAfter: 30,
+      details: { scope: 'client' },
+    });
+  });
+
+  it('sends validation issues about the input', () => {
+    const issues = [{ path: ['a'], message: 'Required' }];
+
+    expect(describeError(new ValidationError('Invalid', issues))).toEqual({
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid',
+      retryable: false,
+      details: issues,
+    });
+  });
+
+  it('leaves out detail fields that are not allowlisted', () => {
+    const info = describeError(
+      new UpstreamError('Weather service is unreachable', 'UPSTREAM_ERROR', {
+        url: 'https://api.weather.test/v1/forecast.json',
+        cause: 'getaddrinfo ENOTFOUND api.weather.test',
+      })
+    );
+    expect(info).not.toHaveProperty('details');
+
+    expect(
+      describeError(
+        new ForbiddenError('No access', { tool: 'calculate', subject: 'bob' })
+      ).details
+    ).toEqual({ tool: 'calculate' });
+  });
+
+  it('drops details that are not validation issues', () => {
+    const info = describeError(
+      new UpstreamError('Unexpected response', 'UPSTREAM_INVALID_RESPONSE', [
+        { path: ['current'], message: 'Required' },
+      ])
+    );
+    expect(info).not.toHaveProperty('details');
+  });
+
+  it('hides the message and details of internal errors', () => {
+    const info = describeError(
+      new ToolExecutionError(
+        'total',
+        new AppError('Output does not match: total: Expected integer', [
+          { path: ['total'], message: 'Expected integer' },
+        ])
+      )
+    );
+
+    expect(info).toEqual({
+      code: 'INTERNAL_ERROR',
+      message: 'Internal server error',
+      retryable: false,
+    });
+  });
+});
+
+describe('toToolErrorResult', () => {
+  it('names the code and when to retry', () => {
+    const result = toToolErrorResult(new RateLimitError('Slow down', 5));
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      { type: 'text', text: '[RATE_LIMITED] Slow down (retryable after 5s)' },
+    ]);
+    expect(result._meta?.['error']).toMatchObject({ retryAfter: 5 });
+  });
+});
+
+describe('toMcpError', () => {
+  it('uses the JSON-RPC code of the error type', () => {
+    const error = toMcpError(new ForbiddenError('No access'));
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(MCP_ERROR_CODES.FORBIDDEN);
+    expect(error.data).toEqual({ code: 'FORBIDDEN', retryable: false });
+  });
+});
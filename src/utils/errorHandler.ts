@@ -1,119 +1,401 @@
+import { STATUS_CODES } from 'node:http';
 import { FastifyError, FastifyReply, FastifyRequest } from 'fastify';
+import {
+  ErrorCode,
+  McpError,
+  type CallToolResult,
+} from '@modelcontextprotocol/sdk/types.js';
 import { ZodError } from 'zod';
+import { redactSecrets } from '../audit/redactor.js';
+import { ERROR_MESSAGES, MCP_ERROR_CODES } from '../config/constants.js';
 
-export interface AppError extends Error {
-  statusCode?: number;
-  code?: string;
-  details?: any;
+/**
+ * Base of the server's error taxonomy
+ * Each type decides how it surfaces everywhere: `statusCode` on REST routes,
+ * `jsonRpcCode` for MCP protocol errors and `code` in tool error results.
+ * `retryable` tells clients whether the same call can succeed later;
+ * anything not known to be transient is not
+ */
+export class AppError extends Error {
+  public statusCode = 500;
+  public jsonRpcCode: number = ErrorCode.InternalError;
+  public code = 'INTERNAL_ERROR';
+  public retryable = false;
+  /** Seconds to wait before retrying, when known */
+  public retryAfter?: number | undefined;
+  public details: unknown;
+
+  constructor(message: string, details?: unknown, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'AppError';
+    this.details = details;
+  }
 }
 
-export class ValidationError extends Error implements AppError {
+/**
+ * Arguments or request data are invalid; the same call will fail again
+ */
+export class ValidationError extends AppError {
   public statusCode = 400;
+  public jsonRpcCode: number = ErrorCode.InvalidParams;
   public code = 'VALIDATION_ERROR';
-  public details: any;
 
-  constructor(message: string, details?: any) {
-    super(message);
+  constructor(message: string, details?: unknown) {
+    super(message, details);
     this.name = 'ValidationError';
-    this.details = details;
   }
 }
 
-export class MCPError extends Error implements AppError {
-  public statusCode = 500;
-  public code = 'MCP_ERROR';
-  public details: any;
+export class NotFoundError extends AppError {
+  public statusCode = 404;
+  public jsonRpcCode: number = MCP_ERROR_CODES.NOT_FOUND;
+  public code = 'NOT_FOUND';
 
-  constructor(message: string, details?: any) {
-    super(message);
-    this.name = 'MCPError';
-    this.details = details;
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+// Upstream failures that may clear up on their own
+const TRANSIENT_UPSTREAM_CODES = new Set([
+  'UPSTREAM_ERROR',
+  'UPSTREAM_UNAVAILABLE',
+  'UPSTREAM_RATE_LIMITED',
+]);
+
+/**
+ * An external service failed or returned something unusable
+ * `code` narrows the cause (e.g. UPSTREAM_AUTH_FAILED, UPSTREAM_RATE_LIMITED)
+ * and decides whether the call is retryable
+ */
+export class UpstreamError extends AppError {
+  public statusCode = 502;
+  public jsonRpcCode: number = MCP_ERROR_CODES.UPSTREAM_ERROR;
+  public code: string;
+
+  constructor(message: string, code = 'UPSTREAM_ERROR', details?: unknown) {
+    super(message, details);
+    this.name = 'UpstreamError';
+    this.code = code;
+    this.retryable = TRANSIENT_UPSTREAM_CODES.has(code);
+  }
+}
+
+export class TimeoutError extends AppError {
+  public statusCode = 504;
+  public jsonRpcCode: number = MCP_ERROR_CODES.TIMEOUT;
+  public code = 'TIMEOUT';
+  public retryable = true;
+
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The client cancelled the request before it finished
+ * 499 is the de facto status for a client that closed the request
+ */
+export class CancelledError extends AppError {
+  public statusCode = 499;
+  public jsonRpcCode: number = MCP_ERROR_CODES.CANCELLED;
+  public code = 'CANCELLED';
+
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Credentials are missing or invalid
+ * `code` is AUTH_REQUIRED, INVALID_REQUEST or INVALID_TOKEN; the last two map
+ * to the OAuth `error` parameter of the WWW-Authenticate challenge
+ */
+export class UnauthorizedError extends AppError {
+  public statusCode = 401;
+  public jsonRpcCode: number = MCP_ERROR_CODES.UNAUTHORIZED;
+  public code: string;
+
+  constructor(message: string, code = 'AUTH_REQUIRED', details?: unknown) {
+    super(message, details);
+    this.name = 'UnauthorizedError';
+    this.code = code;
+  }
+}
+
+export class ForbiddenError extends AppError {
+  public statusCode = 403;
+  public jsonRpcCode: number = MCP_ERROR_CODES.FORBIDDEN;
+  public code = 'FORBIDDEN';
+
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * A rate limit or quota was exceeded
+ * `retryAfter` is the number of seconds until the call would be allowed
+ */
+export class RateLimitError extends AppError {
+  public statusCode = 429;
+  public jsonRpcCode: number = MCP_ERROR_CODES.RATE_LIMITED;
+  public code = 'RATE_LIMITED';
+  public retryable = true;
+  public retryAfter: number;
+  declare public details: Record<string, unknown> | undefined;
+
+  constructor(
+    message: string,
+    retryAfter: number,
+    details?: Record<string, unknown>
+  ) {
+    super(message, details);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * A tool handler threw
+ * The original error is kept as `cause` and decides the status, code and
+ * retryability, so clients see why the tool failed rather than that it did
+ */
+export class ToolExecutionError extends AppError {
+  constructor(tool: string, cause: unknown) {
+    const reason = toAppError(cause);
+    super(reason.message, { tool }, { cause });
+    this.name = 'ToolExecutionError';
+    this.statusCode = reason.statusCode;
+    this.jsonRpcCode = reason.jsonRpcCode;
+    this.code = reason.code;
+    this.retryable = reason.retryable;
+    this.retryAfter = reason.retryAfter;
+  }
+}
+
+/**
+ * Classifies anything thrown into the taxonomy
+ * Zod and Fastify validation failures become ValidationErrors, other Fastify
+ * client errors keep their status and code, and unknown errors are internal.
+ * An internal error's message may expose paths, queries or upstream bodies,
+ * so it is replaced by a generic one; logs find the original as the cause.
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  if (error instanceof ZodError) {
+    return new ValidationError('Invalid request data', error.errors);
+  }
+  if (error instanceof McpError) {
+    const appError =
+      error.code === ErrorCode.InvalidParams
+        ? new ValidationError(error.message, error.data)
+        : new AppError(error.message, error.data, { cause: error });
+    appError.jsonRpcCode = error.code;
+    return appError;
+  }
+
+  const { statusCode, code, validation } = (error ?? {}) as Partial<
+    Pick<FastifyError, 'statusCode' | 'code' | 'validation'>
+  >;
+  const message = error instanceof Error ? error.message : String(error);
+  if (validation) {
+    return new ValidationError(message, validation);
+  }
+
+  if (statusCode !== undefined && statusCode >= 400 && statusCode < 500) {
+    const appError = new AppError(message, undefined, { cause: error });
+    appError.statusCode = statusCode;
+    appError.jsonRpcCode = ErrorCode.InvalidRequest;
+    appError.code = code ?? 'BAD_REQUEST';
+    return appError;
+  }
+  return new AppError(ERROR_MESSAGES.INTERNAL_ERROR, undefined, {
+    cause: error,
+  });
+}
+
+/**
+ * Message of the error as thrown, for logs only: a tool failure reports its
+ * cause's message, which clients may not see
+ */
+export function logMessage(error: unknown): string {
+  if (error instanceof ToolExecutionError) {
+    return logMessage(error.cause);
   }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Details of the error as thrown, for logs only: clients see the fields
+ * clientDetails lets through
+ */
+export function logDetails(error: unknown): unknown {
+  if (error instanceof ToolExecutionError) {
+    return logDetails(error.cause);
+  }
+  return error instanceof AppError ? error.details : undefined;
+}
+
+// Detail fields that describe the caller's own request, safe to send back
+const CLIENT_DETAIL_FIELDS = new Set([
+  'tool',
+  'scope',
+  'variable',
+  'position',
+  'length',
+]);
+
+/**
+ * The part of an error's details clients may see
+ * Validation issues about the caller's input are sent as they are, and
+ * other details only keep allowlisted fields; upstream URLs, fetch failures
+ * or a tool's own invalid output stay in the logs
+ */
+function clientDetails(error: AppError): unknown {
+  const { details } = error;
+  if (Array.isArray(details)) {
+    return error instanceof ValidationError ? details : undefined;
+  }
+  if (typeof details !== 'object' || details === null) {
+    return undefined;
+  }
+
+  const fields = Object.entries(details).filter(
+    ([field, value]) => CLIENT_DETAIL_FIELDS.has(field) && value !== undefined
+  );
+  return fields.length > 0 ? Object.fromEntries(fields) : undefined;
 }
 
+/**
+ * Machine-readable description of an error, identical on every surface
+ * Internal errors get a generic message and no details, since theirs are
+ * written for the logs
+ */
+export interface ErrorInfo {
+  code: string;
+  message: string;
+  retryable: boolean;
+  retryAfter?: number;
+  details?: unknown;
+}
+
+export function describeError(error: unknown): ErrorInfo {
+  const appError = toAppError(error);
+  const internal = appError.code === 'INTERNAL_ERROR';
+  const details = internal ? undefined : clientDetails(appError);
+  return {
+    code: appError.code,
+    message: internal ? ERROR_MESSAGES.INTERNAL_ERROR : appError.message,
+    retryable: appError.retryable,
+    ...(appError.retryAfter !== undefined && {
+      retryAfter: appError.retryAfter,
+    }),
+    ...(details !== undefined && { details }),
+  };
+}
+
+/**
+ * Maps an error to a tool result the model can read and act on
+ * The text names the code and whether to retry; `_meta.error` carries the
+ * same information for programmatic clients
+ */
+export function toToolErrorResult(error: unknown): CallToolResult {
+  const info = describeError(error);
+  const retry = info.retryable
+    ? info.retryAfter !== undefined
+      ? ` (retryable after ${info.retryAfter}s)`
+      : ' (retryable)'
+    : '';
+  return {
+    content: [{ type: 'text', text: `[${info.code}] ${info.message}${retry}` }],
+    isError: true,
+    _meta: { error: info },
+  };
+}
+
+/**
+ * Maps an error to the JSON-RPC error sent for a rejected MCP request
+ * The SDK forwards only the code and message, so the code alone must tell
+ * clients what happened; `data` is kept for callers that read it
+ */
+export function toMcpError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  const appError = toAppError(error);
+  const { message, ...data } = describeError(appError);
+  return new McpError(appError.jsonRpcCode, message, data);
+}
+
+/**
+ * Sends an error as JSON with its HTTP status, plus Retry-After when known
+ */
+export function sendError(reply: FastifyReply, error: unknown): FastifyReply {
+  const appError = toAppError(error);
+  if (appError.retryAfter !== undefined) {
+    reply.header('Retry-After', appError.retryAfter);
+  }
+  return reply.status(appError.statusCode).send({
+    error: STATUS_CODES[appError.statusCode] ?? 'Error',
+    ...describeError(appError),
+  });
+}
+
+/**
+ * Fastify error handler for every route outside the MCP transport
+ */
 export function handleError(
   error: FastifyError,
   request: FastifyRequest,
   reply: FastifyReply
 ) {
-  const { log } = request.server;
-
-  // Log the error
-  log.error(
-    {
-      error: error.message,
-      stack: error.stack,
-      url: request.url,
-      method: request.method,
-      headers: request.headers,
-      body: request.body,
-    },
-    'Request error'
-  );
+  const appError = toAppError(error);
+  const context = {
+    error: logMessage(error),
+    details: logDetails(error),
+    code: appError.code,
+    url: request.url,
+    method: request.method,
+  };
 
-  // Handle different types of errors
-  if (error instanceof ZodError) {
-    return reply.status(400).send({
-      error: 'Validation Error',
-      message: 'Invalid request data',
-      details: error.errors,
-      statusCode: 400,
-      timestamp: new Date().toISOString(),
-    });
-  }
-
-  if (error instanceof ValidationError) {
-    return reply.status(error.statusCode).send({
-      error: error.name,
-      message: error.message,
-      details: error.details,
-      statusCode: error.statusCode,
-      timestamp: new Date().toISOString(),
-    });
-  }
-
-  if (error instanceof MCPError) {
-    return reply.status(error.statusCode).send({
-      error: error.name,
-      message: error.message,
-      details: error.details,
-      statusCode: error.statusCode,
-      timestamp: new Date().toISOString(),
-    });
-  }
-
-  // Handle MCP-specific errors
-  if (error.message.includes('MCP')) {
-    return reply.status(500).send({
-      error: 'MCP Server Error',
-      message: error.message,
-      statusCode: 500,
-      timestamp: new Date().toISOString(),
-    });
-  }
-
-  // Default error response
-  const statusCode = error.statusCode || 500;
-
-  return reply.status(statusCode).send({
-    error: error.message || 'Internal Server Error',
-    statusCode,
-    timestamp: new Date().toISOString(),
-    ...(process.env['NODE_ENV'] === 'development' && { stack: error.stack }),
-  });
+  if (appError.statusCode >= 500) {
+    request.log.error(
+      {
+        ...context,
+        stack: error.stack,
+        headers: redactSecrets(request.headers),
+        body: redactSecrets(request.body),
+      },
+      'Request error'
+    );
+  } else {
+    request.log.warn(context, 'Request rejected');
+  }
+
+  return sendError(reply, appError);
 }
 
-export function createError(
+/**
+ * Builds a JSON-RPC 2.0 error payload for responses sent outside the MCP SDK
+ */
+export function createJsonRpcError(
+  code: number,
   message: string,
-  statusCode: number = 500,
-  code?: string
-): AppError {
-  const error = new Error(message) as AppError;
-  error.statusCode = statusCode;
-  if (code) {
-    error.code = code;
-  }
-  return error;
+  id: string | number | null = null,
+  data?: unknown
+) {
+  return {
+    jsonrpc: '2.0' as const,
+    error: { code, message, ...(data !== undefined && { data }) },
+    id,
+  };
 }
 
 export function validateAndThrow(
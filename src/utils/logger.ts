@@ -6,14 +6,12 @@ export interface LoggerConfig {
   enabled: boolean;
 }
 
-export function createLogger(
-  config: LoggerConfig = {
-    level: process.env['LOG_LEVEL'] || 'info',
-    pretty: process.env['LOG_PRETTY'] === 'true',
-    enabled: process.env['NODE_ENV'] !== 'test',
-  }
-) {
-  const baseConfig = {
+/**
+ * Pino options for a logger configuration, also accepted by Fastify's
+ * `logger` option
+ */
+export function createLoggerOptions(config: LoggerConfig): pino.LoggerOptions {
+  return {
     level: config.level,
     enabled: config.enabled,
     timestamp: pino.stdTimeFunctions.isoTime,
@@ -22,11 +20,7 @@ export function createLogger(
         return { level: label };
       },
     },
-  };
-
-  if (config.pretty && process.env['NODE_ENV'] === 'development') {
-    return pino({
-      ...baseConfig,
+    ...(config.pretty && {
       transport: {
         target: 'pino-pretty',
         options: {
@@ -35,10 +29,34 @@ export function createLogger(
           ignore: 'pid,hostname',
         },
       },
-    });
+    }),
+  };
+}
+
+/**
+ * Creates a Pino logger
+ * @param destination - File descriptor or stream to write to; when given,
+ * pretty printing is skipped (e.g. fd 2 in STDIO mode, where stdout is the
+ * protocol channel)
+ */
+export function createLogger(
+  config: LoggerConfig = {
+    level: process.env['LOG_LEVEL'] || 'info',
+    pretty: process.env['LOG_PRETTY'] === 'true',
+    enabled: process.env['NODE_ENV'] !== 'test',
+  },
+  destination?: number | pino.DestinationStream
+) {
+  if (destination === undefined) {
+    return pino(createLoggerOptions(config));
   }
 
-  return pino(baseConfig);
+  return pino(
+    createLoggerOptions({ ...config, pretty: false }),
+    typeof destination === 'number'
+      ? pino.destination(destination)
+      : destination
+  );
 }
 
 export const logger = createLogger();
@@ -67,27 +85,3 @@ export function logError(error: Error, context?: Record<string, any>) {
     'Error occurred'
   );
 }
-
-export function logMCPRequest(method: string, params: any, sessionId?: string) {
-  logger.info(
-    {
-      mcpMethod: method,
-      sessionId,
-      params: JSON.stringify(params),
-    },
-    'MCP request received'
-  );
-}
-
-export function logMCPSession(
-  sessionId: string,
-  action: 'created' | 'destroyed'
-) {
-  logger.info(
-    {
-      sessionId,
-      action,
-    },
-    `MCP session ${action}`
-  );
-}
@@ -0,0 +1,17 @@
+/**
+ * Builds a seeded pseudo-random generator (mulberry32)
+ * The same seed always yields the same sequence of numbers in [0, 1)
+ */
+export function seededRandom(seed: string): () => number {
+  let state = 0;
+  for (const char of seed) {
+    state = (Math.imul(31, state) + char.charCodeAt(0)) | 0;
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}